@@ -0,0 +1,68 @@
+import {
+  IsIn,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { CrawlRequest } from '@winescope/contracts/crawler';
+import { SUPPORTED_BROWSERS } from '@winescope/common/constants';
+import type { SupportedBrowser } from '@winescope/common/constants';
+
+/**
+ * Crawl Request DTO
+ *
+ * `/crawl` 요청 데이터를 검증합니다. 공유 계약(CrawlRequest)의 검증 가능한 구현입니다.
+ */
+export class CrawlRequestDto implements CrawlRequest {
+  /**
+   * 크롤링할 URL (http/https만 허용)
+   */
+  @IsUrl(
+    { protocols: ['http', 'https'], require_protocol: true },
+    { message: 'URL must be a valid http(s) URL' },
+  )
+  url!: string;
+
+  /**
+   * 브라우저 핑거프린트 (생략하면 로테이션 전략에 따라 선택)
+   */
+  @IsOptional()
+  @IsIn(SUPPORTED_BROWSERS)
+  browser?: SupportedBrowser;
+
+  /**
+   * 요청 타임아웃 (밀리초, 1초 ~ 60초)
+   */
+  @IsOptional()
+  @IsInt({ message: 'Timeout must be an integer' })
+  @Min(1000)
+  @Max(60000)
+  timeout?: number;
+
+  /**
+   * 추가 요청 헤더
+   */
+  @IsOptional()
+  @IsObject()
+  headers?: Record<string, string>;
+
+  /**
+   * User-Agent 재정의
+   */
+  @IsOptional()
+  @IsString()
+  userAgent?: string;
+
+  /**
+   * 크롤링 세션 식별자 (같은 세션은 같은 프록시 사용)
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  sessionId?: string;
+}
@@ -0,0 +1,62 @@
+import {
+  IsString,
+  IsInt,
+  IsOptional,
+  Min,
+  Max,
+  IsNotEmpty,
+  Length,
+} from 'class-validator';
+
+/**
+ * Wine Candidates Request DTO
+ *
+ * 와인 후보 목록 조회 요청 데이터를 검증합니다.
+ * 와이너리만 필수이며, 나머지 조건은 순위를 매기는 데 사용합니다.
+ */
+export class WineCandidatesRequestDto {
+  /**
+   * 와이너리 이름 (철자가 정확하지 않아도 됨, 예: "Opus")
+   */
+  @IsString()
+  @IsNotEmpty({ message: 'Winery is required' })
+  @Length(1, 100, { message: 'Winery must be between 1 and 100 characters' })
+  winery!: string;
+
+  /**
+   * 와인 품종 (예: "Cabernet Sauvignon")
+   */
+  @IsOptional()
+  @IsString()
+  @Length(1, 100, { message: 'Variety must be between 1 and 100 characters' })
+  variety?: string;
+
+  /**
+   * 와인 지역 (예: "Napa Valley")
+   */
+  @IsOptional()
+  @IsString()
+  @Length(1, 100, { message: 'Region must be between 1 and 100 characters' })
+  region?: string;
+
+  /**
+   * 빈티지 연도 (1900 ~ 현재년도+5)
+   */
+  @IsOptional()
+  @IsInt({ message: 'Vintage must be an integer' })
+  @Min(1900, { message: 'Vintage must be at least 1900' })
+  @Max(new Date().getFullYear() + 5, {
+    message: `Vintage cannot exceed ${new Date().getFullYear() + 5}`,
+  })
+  vintage?: number;
+
+  /**
+   * 반환할 최대 후보 수
+   * @default 10
+   */
+  @IsOptional()
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(50, { message: 'Limit cannot exceed 50' })
+  limit?: number;
+}
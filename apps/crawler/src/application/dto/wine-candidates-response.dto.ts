@@ -0,0 +1,25 @@
+/**
+ * Wine Candidates Response DTO
+ *
+ * 검색 조건과 일치하는 와인 후보 목록을 순위순으로 전달합니다.
+ */
+
+export class WineCandidateDto {
+  name!: string;
+  producer!: string | null;
+  region!: string | null;
+  vintages!: number[]; // available vintages, newest first
+  url!: string; // Wine-Searcher wine page
+  score!: number; // 0 ~ 1, match against the request
+}
+
+export class WineCandidatesSourceDto {
+  site!: string;
+  url!: string; // Wine-Searcher search page
+  crawledAt!: string; // ISO 8601 format
+}
+
+export class WineCandidatesResponseDto {
+  candidates!: WineCandidateDto[];
+  source!: WineCandidatesSourceDto;
+}
@@ -0,0 +1,34 @@
+import { IsIn, IsISO8601, IsOptional } from 'class-validator';
+import { PRICE_INTERVALS } from '../../domain/services/price-series-aggregator';
+import type { PriceInterval } from '../../domain/services/price-series-aggregator';
+
+/**
+ * Wine Price History Query DTO
+ *
+ * GET /wines/:id/prices의 조회 기간과 집계 단위를 검증합니다.
+ */
+export class WinePriceHistoryQueryDto {
+  /**
+   * 조회 시작 시각 (ISO 8601, 포함)
+   */
+  @IsOptional()
+  @IsISO8601({}, { message: 'from must be an ISO 8601 date' })
+  from?: string;
+
+  /**
+   * 조회 끝 시각 (ISO 8601, 포함). 날짜만 지정하면 그 날 전체를 포함합니다.
+   */
+  @IsOptional()
+  @IsISO8601({}, { message: 'to must be an ISO 8601 date' })
+  to?: string;
+
+  /**
+   * 집계 단위 (UTC 기준, 주는 월요일 시작)
+   * @default 'day'
+   */
+  @IsOptional()
+  @IsIn(PRICE_INTERVALS, {
+    message: `interval must be one of ${PRICE_INTERVALS.join(', ')}`,
+  })
+  interval?: PriceInterval;
+}
@@ -0,0 +1,32 @@
+import type { PriceInterval } from '../../domain/services/price-series-aggregator';
+import { WineInfoDto } from './wine-search-response.dto';
+
+/**
+ * Wine Price History Response DTO
+ *
+ * 카탈로그에 쌓인 가격 스냅샷을 통화별 시계열로 집계해 전달합니다.
+ */
+
+export class PricePointDto {
+  period!: string; // ISO 8601 start of the period (UTC)
+  average!: number; // mean of the snapshot averages in the period
+  min!: number;
+  max!: number;
+  samples!: number; // number of price snapshots in the period
+}
+
+export class PriceSeriesDto {
+  currency!: string;
+  points!: PricePointDto[]; // oldest first
+  min!: number;
+  max!: number;
+  changePercent!: number | null; // first to last period average, null with a single period
+}
+
+export class WinePriceHistoryResponseDto {
+  wine!: WineInfoDto;
+  interval!: PriceInterval;
+  from!: string | null; // ISO 8601 format, null when unbounded
+  to!: string | null; // ISO 8601 format, null when unbounded
+  series!: PriceSeriesDto[]; // one per currency
+}
@@ -0,0 +1,33 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  ValidateNested,
+} from 'class-validator';
+import { WineSearchRequestDto } from './wine-search-request.dto';
+
+/**
+ * 배치 한 번에 허용하는 최대 검색 수
+ */
+export const MAX_BATCH_SIZE = 100;
+
+/**
+ * Wine Search Batch Request DTO
+ *
+ * 여러 와인 검색 요청을 한 번에 검증합니다.
+ * 항목 하나라도 형식이 잘못되면 배치 전체를 400으로 거부합니다.
+ */
+export class WineSearchBatchRequestDto {
+  /**
+   * 검색 요청 목록 (1 ~ 100개)
+   */
+  @IsArray()
+  @ArrayNotEmpty({ message: 'Searches must not be empty' })
+  @ArrayMaxSize(MAX_BATCH_SIZE, {
+    message: `Searches cannot exceed ${MAX_BATCH_SIZE} items`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => WineSearchRequestDto)
+  searches!: WineSearchRequestDto[];
+}
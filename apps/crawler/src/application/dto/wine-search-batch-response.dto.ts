@@ -0,0 +1,32 @@
+import { WineSearchResponseDto } from './wine-search-response.dto';
+
+/**
+ * Wine Search Batch Response DTO
+ *
+ * 배치 검색의 항목별 결과 또는 에러를 요청 순서대로 전달합니다.
+ */
+
+export class WineSearchBatchErrorDto {
+  statusCode!: number; // status the single search endpoint would respond with
+  message!: string;
+  error!: string;
+  [detail: string]: unknown; // error specific fields such as candidates
+}
+
+export class WineSearchBatchItemDto {
+  index!: number; // position in the request
+  status!: 'fulfilled' | 'rejected';
+  result!: WineSearchResponseDto | null;
+  error!: WineSearchBatchErrorDto | null;
+}
+
+export class WineSearchBatchSummaryDto {
+  total!: number;
+  succeeded!: number;
+  failed!: number;
+}
+
+export class WineSearchBatchResponseDto {
+  results!: WineSearchBatchItemDto[];
+  summary!: WineSearchBatchSummaryDto;
+}
@@ -0,0 +1,24 @@
+import { IsOptional, IsUrl } from 'class-validator';
+import { WineSearchRequestDto } from './wine-search-request.dto';
+
+/**
+ * Wine Search Job Request DTO
+ *
+ * 비동기 검색 작업 요청 데이터를 검증합니다.
+ * 검색 조건은 WineSearchRequestDto와 같고, 완료 알림을 받을 콜백 URL을 추가로 받습니다.
+ */
+export class WineSearchJobRequestDto extends WineSearchRequestDto {
+  /**
+   * 작업이 끝나면 결과 또는 에러를 POST할 URL (HMAC 서명 포함)
+   */
+  @IsOptional()
+  @IsUrl(
+    {
+      protocols: ['http', 'https'],
+      require_protocol: true,
+      require_tld: false,
+    },
+    { message: 'Callback URL must be an absolute http(s) URL' },
+  )
+  callbackUrl?: string;
+}
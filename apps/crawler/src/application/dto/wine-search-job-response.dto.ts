@@ -0,0 +1,41 @@
+import type { SearchJobStatus } from '../../domain/ports/search-job-store.port';
+import { WineSearchResponseDto } from './wine-search-response.dto';
+
+/**
+ * Wine Search Job Response DTO
+ *
+ * 비동기 검색 작업의 상태와 결과 또는 에러를 전달합니다.
+ */
+
+export class WineSearchJobErrorDto {
+  statusCode!: number; // status the synchronous search would respond with
+  message!: string;
+  error!: string;
+  [detail: string]: unknown; // error specific fields such as candidates
+}
+
+export class WebhookDeliveryDto {
+  attempt!: number; // 1-based
+  event!: string; // search.succeeded or search.failed
+  attemptedAt!: string; // ISO 8601 format
+  statusCode!: number | null; // null when the callback did not respond
+  error!: string | null;
+  succeeded!: boolean;
+}
+
+export class WineSearchJobDeliveriesDto {
+  jobId!: string;
+  callbackUrl!: string | null;
+  deliveries!: WebhookDeliveryDto[]; // oldest first
+}
+
+export class WineSearchJobDto {
+  id!: string;
+  status!: SearchJobStatus; // pending, running, succeeded or failed
+  result!: WineSearchResponseDto | null; // set when succeeded
+  error!: WineSearchJobErrorDto | null; // set when failed
+  callbackUrl!: string | null;
+  createdAt!: string; // ISO 8601 format
+  startedAt!: string | null; // ISO 8601 format
+  finishedAt!: string | null; // ISO 8601 format
+}
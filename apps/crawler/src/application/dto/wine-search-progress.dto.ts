@@ -0,0 +1,70 @@
+import {
+  MatchDto,
+  PriceDto,
+  RatingDto,
+  VintageMatchDto,
+  WineInfoDto,
+  WineSearchResponseDto,
+} from './wine-search-response.dto';
+
+/**
+ * Wine Search Progress Events
+ *
+ * 검색 진행 상황을 단계별로 전달합니다 (GET /wines/search/stream의 SSE 이벤트).
+ * `type`이 SSE 이벤트 이름이 되고 나머지 필드가 data로 전송됩니다.
+ */
+
+export interface UrlConstructedEvent {
+  type: 'url-constructed';
+  url: string; // Wine-Searcher search page
+}
+
+export interface FetchStartedEvent {
+  type: 'fetch-started';
+  url: string;
+}
+
+export interface FetchedEvent {
+  type: 'fetched';
+  url: string;
+  bytes: number;
+  attempts: number; // attempts for this page including retries
+}
+
+export interface ParsedEvent {
+  type: 'parsed';
+  url: string;
+  wine: WineInfoDto;
+  vintage: VintageMatchDto;
+  ratings: RatingDto[];
+  price: PriceDto | null;
+}
+
+export interface MatchedEvent {
+  type: 'matched';
+  match: MatchDto;
+}
+
+export interface CompletedEvent {
+  type: 'completed';
+  result: WineSearchResponseDto;
+}
+
+export interface FailedEvent {
+  type: 'failed';
+  error: {
+    statusCode: number; // status the synchronous search would respond with
+    message: string;
+    error: string;
+    [detail: string]: unknown;
+  };
+}
+
+export type WineSearchProgressEvent =
+  | UrlConstructedEvent
+  | FetchStartedEvent
+  | FetchedEvent
+  | ParsedEvent
+  | MatchedEvent
+  | CompletedEvent
+  | FailedEvent;
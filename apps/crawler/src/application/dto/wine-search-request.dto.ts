@@ -1,4 +1,11 @@
-import { IsString, IsInt, Min, Max, IsNotEmpty, Length } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  Length,
+  IsOptional,
+  IsBoolean,
+} from 'class-validator';
+import { IsVintage } from '../validators/is-vintage.validator';
 
 /**
  * Wine Search Request DTO
@@ -31,12 +38,16 @@ export class WineSearchRequestDto {
   variety!: string;
 
   /**
-   * 빈티지 연도 (1900 ~ 현재년도+5)
+   * 빈티지 (1900 ~ 현재년도+5 연도, 논빈티지 "NV", 솔레라/블렌드 범위 "1990-2010")
    */
-  @IsInt({ message: 'Vintage must be an integer' })
-  @Min(1900, { message: 'Vintage must be at least 1900' })
-  @Max(new Date().getFullYear() + 5, {
-    message: `Vintage cannot exceed ${new Date().getFullYear() + 5}`,
-  })
-  vintage!: number;
+  @IsVintage()
+  vintage!: number | string;
+
+  /**
+   * 요청한 빈티지 페이지가 없으면 가장 가까운 빈티지의 데이터를 반환합니다.
+   * @default false
+   */
+  @IsOptional()
+  @IsBoolean({ message: 'allowNearestVintage must be a boolean' })
+  allowNearestVintage?: boolean;
 }
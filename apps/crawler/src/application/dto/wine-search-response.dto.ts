@@ -1,3 +1,5 @@
+import type { VintageValue } from '../../domain/value-objects/vintage.vo';
+
 /**
  * Wine Search Response DTO
  *
@@ -5,11 +7,12 @@
  */
 
 export class WineInfoDto {
+  id!: string; // wine catalog id, e.g. "opus-one-2018"
   name!: string;
   region!: string;
   winery!: string;
   variety!: string;
-  vintage!: number;
+  vintage!: VintageValue | null; // 2018, "NV" or "1990-2010"; null when the page lists none
 }
 
 export class RatingDto {
@@ -30,10 +33,34 @@ export class SourceDto {
   site!: string;
   url!: string;
   crawledAt!: string; // ISO 8601 format
+  attempts!: number; // number of fetch attempts including retries
+  cached!: boolean;
+  cachedAt!: string | null; // ISO 8601 format, null when freshly crawled
+}
+
+/**
+ * 데이터가 요청한 빈티지에서 왔는지 여부
+ * - exact: 요청한 빈티지의 페이지
+ * - nearest: 요청한 빈티지가 없어 가장 가까운 빈티지의 페이지 (allowNearestVintage)
+ * - missing: 페이지에 빈티지가 표시되지 않음
+ */
+export type VintageStatus = 'exact' | 'nearest' | 'missing';
+
+export class VintageMatchDto {
+  requested!: VintageValue;
+  actual!: VintageValue | null; // vintage the data came from
+  status!: VintageStatus;
+}
+
+export class MatchDto {
+  confidence!: number; // 0 ~ 1, how closely the wine matches the request
+  reasons!: string[]; // mismatch reasons, empty when every field matches
 }
 
 export class WineSearchResponseDto {
   wine!: WineInfoDto;
+  vintage!: VintageMatchDto;
+  match!: MatchDto;
   ratings!: RatingDto[];
   price!: PriceDto | null;
   source!: SourceDto;
@@ -0,0 +1,19 @@
+import { Transform } from 'class-transformer';
+import { WineSearchRequestDto } from './wine-search-request.dto';
+
+/**
+ * Wine Search Stream Query DTO
+ *
+ * GET /wines/search/stream의 쿼리 문자열을 검증합니다.
+ * 검색 조건은 WineSearchRequestDto와 같으며, 쿼리 문자열로 들어온 불리언 값을 변환합니다.
+ */
+export class WineSearchStreamQueryDto extends WineSearchRequestDto {
+  /**
+   * 요청한 빈티지 페이지가 없으면 가장 가까운 빈티지의 데이터를 반환합니다 ("true" | "false").
+   * @default false
+   */
+  @Transform(({ value }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  allowNearestVintage?: boolean = false;
+}
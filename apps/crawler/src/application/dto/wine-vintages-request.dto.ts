@@ -0,0 +1,33 @@
+import { IsString, IsOptional, IsNotEmpty, Length } from 'class-validator';
+
+/**
+ * Wine Vintages Request DTO
+ *
+ * 와인의 빈티지별 시세/평점 조회 요청 데이터를 검증합니다.
+ * 모든 빈티지를 비교하므로 빈티지는 받지 않습니다.
+ */
+export class WineVintagesRequestDto {
+  /**
+   * 와이너리 이름 (예: "Opus One")
+   */
+  @IsString()
+  @IsNotEmpty({ message: 'Winery is required' })
+  @Length(1, 100, { message: 'Winery must be between 1 and 100 characters' })
+  winery!: string;
+
+  /**
+   * 와인 품종 (예: "Cabernet Sauvignon")
+   */
+  @IsOptional()
+  @IsString()
+  @Length(1, 100, { message: 'Variety must be between 1 and 100 characters' })
+  variety?: string;
+
+  /**
+   * 와인 지역 (예: "Napa Valley")
+   */
+  @IsOptional()
+  @IsString()
+  @Length(1, 100, { message: 'Region must be between 1 and 100 characters' })
+  region?: string;
+}
@@ -0,0 +1,36 @@
+import type { VintageValue } from '../../domain/value-objects/vintage.vo';
+import { PriceDto, RatingDto } from './wine-search-response.dto';
+
+/**
+ * Wine Vintages Response DTO
+ *
+ * 한 와인의 빈티지별 평균 가격, 평론가 점수, 판매 현황을 전달합니다.
+ */
+
+export class WineVintagesInfoDto {
+  name!: string;
+  region!: string;
+  winery!: string;
+  variety!: string;
+}
+
+export class WineVintageDto {
+  vintage!: VintageValue; // 2018, "NV" or "1990-2010"
+  price!: PriceDto | null; // average price, null when not listed
+  rating!: RatingDto | null; // aggregated critic score, null when not rated
+  available!: boolean; // whether the vintage is currently offered
+  offers!: number; // number of current offers
+  url!: string | null; // Wine-Searcher vintage page
+}
+
+export class WineVintagesSourceDto {
+  site!: string;
+  url!: string; // Wine-Searcher wine page with the vintage chart
+  crawledAt!: string; // ISO 8601 format
+}
+
+export class WineVintagesResponseDto {
+  wine!: WineVintagesInfoDto;
+  vintages!: WineVintageDto[]; // newest first
+  source!: WineVintagesSourceDto;
+}
@@ -0,0 +1,237 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import {
+  AmbiguousWineError,
+  BlockedError,
+  CrawlerSaturatedError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  RobotsDisallowedError,
+  TimeoutError,
+  ParsingError,
+  ValidationError,
+  VintageMismatchError,
+  WineMismatchError,
+} from '../../domain/errors/crawler.errors';
+
+/**
+ * 에러 응답 본문
+ *
+ * HTTP 에러 응답, 배치 검색의 항목별 에러, 실패한 검색 작업이 같은 형태를 사용합니다.
+ */
+export interface CrawlerErrorBody {
+  statusCode: number;
+  message: string;
+  error: string;
+  details: Record<string, unknown>; // error specific fields such as candidates
+}
+
+/**
+ * 크롤러 도메인 에러를 HTTP 상태 코드, 에러 타입, 안전한 메시지로 변환합니다.
+ *
+ * @param exception - 변환할 에러
+ * @returns 에러 응답 본문
+ */
+export function mapCrawlerError(exception: Error): CrawlerErrorBody {
+  return {
+    statusCode: getHttpStatus(exception),
+    message: getSafeErrorMessage(exception),
+    error: getErrorType(exception),
+    details: getErrorDetails(exception),
+  };
+}
+
+/**
+ * 에러별 추가 정보를 반환합니다.
+ */
+function getErrorDetails(exception: Error): Record<string, unknown> {
+  if (exception instanceof AmbiguousWineError) {
+    return { candidates: exception.candidates };
+  }
+
+  if (exception instanceof WineMismatchError) {
+    return { match: exception.match };
+  }
+
+  if (exception instanceof VintageMismatchError) {
+    return {
+      requestedVintage: exception.requestedVintage,
+      actualVintage: exception.actualVintage,
+      availableVintages: exception.availableVintages,
+    };
+  }
+
+  return {};
+}
+
+/**
+ * 에러를 HTTP 상태 코드로 매핑합니다.
+ */
+function getHttpStatus(exception: Error): HttpStatus {
+  if (exception instanceof HttpException) {
+    return exception.getStatus();
+  }
+
+  if (exception instanceof ValidationError) {
+    return HttpStatus.BAD_REQUEST; // 400
+  }
+
+  if (exception instanceof AmbiguousWineError) {
+    return HttpStatus.AMBIGUOUS; // 300
+  }
+
+  if (exception instanceof CrawlerSaturatedError) {
+    return HttpStatus.TOO_MANY_REQUESTS; // 429
+  }
+
+  if (exception instanceof RobotsDisallowedError) {
+    return HttpStatus.FORBIDDEN; // 403
+  }
+
+  if (exception instanceof TimeoutError) {
+    return HttpStatus.GATEWAY_TIMEOUT; // 504
+  }
+
+  if (exception instanceof BlockedError) {
+    return HttpStatus.FAILED_DEPENDENCY; // 424
+  }
+
+  if (exception instanceof RateLimitedError) {
+    return HttpStatus.SERVICE_UNAVAILABLE; // 503
+  }
+
+  if (
+    exception instanceof NotFoundError ||
+    exception instanceof WineMismatchError ||
+    exception instanceof VintageMismatchError
+  ) {
+    return HttpStatus.NOT_FOUND; // 404
+  }
+
+  if (exception instanceof NetworkError) {
+    return HttpStatus.BAD_GATEWAY; // 502
+  }
+
+  if (exception instanceof ParsingError) {
+    return HttpStatus.INTERNAL_SERVER_ERROR; // 500
+  }
+
+  // Unknown error
+  return HttpStatus.INTERNAL_SERVER_ERROR; // 500
+}
+
+/**
+ * 에러 타입을 문자열로 반환합니다.
+ */
+function getErrorType(exception: Error): string {
+  if (exception instanceof HttpException) {
+    return exception.constructor.name;
+  }
+
+  if (exception instanceof ValidationError) {
+    return 'Bad Request';
+  }
+
+  if (exception instanceof AmbiguousWineError) {
+    return 'Multiple Choices';
+  }
+
+  if (exception instanceof CrawlerSaturatedError) {
+    return 'Too Many Requests';
+  }
+
+  if (exception instanceof RobotsDisallowedError) {
+    return 'Forbidden';
+  }
+
+  if (exception instanceof TimeoutError) {
+    return 'Gateway Timeout';
+  }
+
+  if (exception instanceof BlockedError) {
+    return 'Failed Dependency';
+  }
+
+  if (exception instanceof RateLimitedError) {
+    return 'Service Unavailable';
+  }
+
+  if (
+    exception instanceof NotFoundError ||
+    exception instanceof WineMismatchError ||
+    exception instanceof VintageMismatchError
+  ) {
+    return 'Not Found';
+  }
+
+  if (exception instanceof NetworkError) {
+    return 'Bad Gateway';
+  }
+
+  if (exception instanceof ParsingError) {
+    return 'Internal Server Error';
+  }
+
+  return 'Internal Server Error';
+}
+
+/**
+ * 안전한 에러 메시지를 반환합니다 (민감 정보 제거).
+ */
+function getSafeErrorMessage(exception: Error): string {
+  // Don't expose internal details in production
+  if (process.env.NODE_ENV === 'production') {
+    if (exception instanceof ValidationError) {
+      return exception.message;
+    }
+
+    if (exception instanceof AmbiguousWineError) {
+      return 'Multiple wines match the search, choose one of the candidates';
+    }
+
+    if (exception instanceof CrawlerSaturatedError) {
+      return 'Crawler is busy, try again later';
+    }
+
+    if (exception instanceof RobotsDisallowedError) {
+      return 'Crawling this source is disallowed by its robots.txt';
+    }
+
+    if (exception instanceof TimeoutError) {
+      return 'Request timed out while fetching wine data';
+    }
+
+    if (exception instanceof BlockedError) {
+      return 'External source blocked the request, try again later';
+    }
+
+    if (exception instanceof RateLimitedError) {
+      return 'External source is rate limiting requests, try again later';
+    }
+
+    if (exception instanceof NotFoundError) {
+      return 'Wine not found';
+    }
+
+    if (exception instanceof WineMismatchError) {
+      return 'No wine closely matching the request was found';
+    }
+
+    if (exception instanceof VintageMismatchError) {
+      return 'Requested vintage is not available, see availableVintages';
+    }
+
+    if (exception instanceof NetworkError) {
+      return 'Failed to fetch wine data from external source';
+    }
+
+    if (exception instanceof ParsingError) {
+      return 'Failed to parse wine data';
+    }
+
+    return 'An unexpected error occurred';
+  }
+
+  // Development: show full error message
+  return exception.message || 'Unknown error';
+}
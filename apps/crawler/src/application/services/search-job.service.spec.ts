@@ -0,0 +1,195 @@
+import { SearchJobService } from './search-job.service';
+import { SearchWineUseCase } from '../use-cases/search-wine.use-case';
+import { WineSearchRequestDto } from '../dto/wine-search-request.dto';
+import { WineSearchResponseDto } from '../dto/wine-search-response.dto';
+import { InMemorySearchJobStoreAdapter } from '../../infrastructure/jobs/in-memory-search-job-store.adapter';
+import {
+  CrawlerSaturatedError,
+  NotFoundError,
+  ValidationError,
+} from '../../domain/errors/crawler.errors';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+
+describe('SearchJobService', () => {
+  let execute: jest.Mock;
+  let store: InMemorySearchJobStoreAdapter;
+  let webhooks: {
+    enabled: boolean;
+    deliver: jest.Mock;
+    assertDeliverable: jest.Mock;
+  };
+
+  const request = {
+    winery: 'Opus One',
+    variety: 'Cabernet Sauvignon',
+    vintage: 2018,
+    region: 'Napa Valley',
+  } as WineSearchRequestDto;
+  const response = { wine: { name: 'Opus One 2018' } } as WineSearchResponseDto;
+
+  const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>((res) => {
+      resolve = res;
+    });
+    return { promise, resolve };
+  };
+
+  // Lets queued jobs and their store writes run
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  const createService = (concurrency?: number, maxPending?: number) =>
+    new SearchJobService(
+      { execute } as unknown as SearchWineUseCase,
+      store,
+      webhooks as unknown as WebhookDeliveryService,
+      { concurrency, maxPending },
+    );
+
+  beforeEach(() => {
+    execute = jest.fn();
+    store = new InMemorySearchJobStoreAdapter();
+    webhooks = {
+      enabled: true,
+      deliver: jest.fn().mockResolvedValue(undefined),
+      assertDeliverable: jest.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  it('should return a pending job and store the result when done', async () => {
+    execute.mockResolvedValue(response);
+    const service = createService();
+
+    const job = await service.enqueue(request, { bypassCache: true });
+    expect(job.status).toBe('pending');
+
+    await settle();
+
+    expect(await service.get(job.id)).toMatchObject({
+      status: 'succeeded',
+      request,
+      result: response,
+      error: null,
+      startedAt: expect.any(Date),
+      finishedAt: expect.any(Date),
+    });
+    expect(execute).toHaveBeenCalledWith(request, { bypassCache: true });
+  });
+
+  it('should store failures in the HTTP error format', async () => {
+    execute.mockRejectedValue(new NotFoundError('Page not found', 'url'));
+    const service = createService();
+
+    const job = await service.enqueue(request);
+    await settle();
+
+    expect(await service.get(job.id)).toMatchObject({
+      status: 'failed',
+      result: null,
+      error: {
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Page not found',
+      },
+    });
+  });
+
+  it('should run at most the configured number of jobs at a time', async () => {
+    const first = deferred<WineSearchResponseDto>();
+    execute.mockReturnValueOnce(first.promise).mockResolvedValueOnce(response);
+    const service = createService(1);
+
+    const running = await service.enqueue(request);
+    const waiting = await service.enqueue(request);
+    await settle();
+
+    expect((await service.get(running.id))!.status).toBe('running');
+    expect((await service.get(waiting.id))!.status).toBe('pending');
+    expect(execute).toHaveBeenCalledTimes(1);
+
+    first.resolve(response);
+    await settle();
+    await settle();
+
+    expect((await service.get(waiting.id))!.status).toBe('succeeded');
+  });
+
+  it('should reject new jobs while the pending queue is full', async () => {
+    const running = deferred<WineSearchResponseDto>();
+    execute.mockReturnValue(running.promise);
+    const service = createService(1, 1);
+
+    await service.enqueue(request);
+    await service.enqueue(request);
+
+    await expect(service.enqueue(request)).rejects.toBeInstanceOf(
+      CrawlerSaturatedError,
+    );
+
+    running.resolve(response);
+    await settle();
+    await settle();
+
+    await expect(service.enqueue(request)).resolves.toMatchObject({
+      status: 'pending',
+    });
+  });
+
+  it('should hand finished jobs with a callback URL to the webhook delivery', async () => {
+    execute.mockResolvedValue(response);
+    const service = createService();
+
+    const job = await service.enqueue({
+      ...request,
+      callbackUrl: 'https://hooks.example.com/wine',
+    });
+    await settle();
+
+    expect(job.request).toEqual(request);
+    expect(webhooks.deliver).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: job.id,
+        status: 'succeeded',
+        callbackUrl: 'https://hooks.example.com/wine',
+      }),
+    );
+  });
+
+  it('should refuse callback URLs while webhooks are disabled', async () => {
+    webhooks.enabled = false;
+
+    await expect(
+      createService().enqueue({
+        ...request,
+        callbackUrl: 'https://hooks.example.com/wine',
+      }),
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should refuse callback URLs that point at internal addresses', async () => {
+    webhooks.assertDeliverable.mockRejectedValue(
+      new ValidationError(
+        'callbackUrl host 169.254.169.254 must resolve to public addresses only',
+        'callbackUrl',
+      ),
+    );
+    const service = createService();
+
+    await expect(
+      service.enqueue({
+        ...request,
+        callbackUrl: 'http://169.254.169.254/latest/meta-data',
+      }),
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(webhooks.assertDeliverable).toHaveBeenCalledWith(
+      'http://169.254.169.254/latest/meta-data',
+    );
+    await settle();
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('should return null for an unknown job', async () => {
+    await expect(createService().get('missing')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,204 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import type {
+  SearchJob,
+  SearchJobStorePort,
+} from '../../domain/ports/search-job-store.port';
+import {
+  CrawlerSaturatedError,
+  ValidationError,
+} from '../../domain/errors/crawler.errors';
+import { WineSearchRequestDto } from '../dto/wine-search-request.dto';
+import { WineSearchJobRequestDto } from '../dto/wine-search-job-request.dto';
+import { WineSearchResponseDto } from '../dto/wine-search-response.dto';
+import { mapCrawlerError } from '../mappers/crawler-error.mapper';
+import {
+  SearchWineOptions,
+  SearchWineUseCase,
+} from '../use-cases/search-wine.use-case';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+
+export interface SearchJobServiceOptions {
+  /**
+   * 동시에 실행하는 최대 작업 수
+   * @default 2
+   */
+  concurrency?: number;
+
+  /**
+   * 대기열에 쌓아 둘 수 있는 최대 작업 수, 초과 시 새 작업을 거부합니다.
+   * @default 100
+   */
+  maxPending?: number;
+}
+
+export type WineSearchJob = SearchJob<
+  WineSearchRequestDto,
+  WineSearchResponseDto
+>;
+
+/**
+ * SearchJobService
+ *
+ * 와인 검색을 비동기 작업으로 실행하는 프로세스 내 작업 대기열입니다.
+ * 요청은 즉시 작업 id를 받고, 작업은 제한된 동시성으로 SearchWineUseCase를 거쳐 실행됩니다.
+ * 작업 상태는 SearchJobStorePort에 저장되므로 저장소를 교체하면 다른 인스턴스에서도 조회할 수 있습니다.
+ * 콜백 URL이 있는 작업은 끝나는 즉시 WebhookDeliveryService로 결과를 전송합니다.
+ *
+ * @remarks
+ * 대기열 자체는 메모리에 있으므로 프로세스가 재시작되면 대기 중인 작업은 실행되지 않습니다.
+ */
+@Injectable()
+export class SearchJobService {
+  private readonly logger = new Logger(SearchJobService.name);
+  private readonly queue: Array<{
+    job: WineSearchJob;
+    options: SearchWineOptions;
+  }> = [];
+  private readonly concurrency: number;
+  private readonly maxPending: number;
+  private running = 0;
+
+  constructor(
+    private readonly searchWineUseCase: SearchWineUseCase,
+    private readonly store: SearchJobStorePort,
+    private readonly webhooks: WebhookDeliveryService,
+    options: SearchJobServiceOptions = {},
+  ) {
+    this.concurrency = Math.max(1, options.concurrency ?? 2);
+    this.maxPending = Math.max(1, options.maxPending ?? 100);
+  }
+
+  /**
+   * 검색 작업을 대기열에 추가합니다.
+   *
+   * @param request - 와인 검색 작업 요청 DTO
+   * @param options - 검색 옵션
+   * @returns 대기 상태의 작업
+   * @throws ValidationError 웹훅이 비활성화된 상태에서 콜백 URL을 지정했거나 허용하지 않는 콜백 대상인 경우
+   * @throws CrawlerSaturatedError 대기열이 가득 찬 경우
+   */
+  async enqueue(
+    request: WineSearchJobRequestDto,
+    options: SearchWineOptions = {},
+  ): Promise<WineSearchJob> {
+    const { callbackUrl, ...search } = request;
+    if (callbackUrl && !this.webhooks.enabled) {
+      throw new ValidationError(
+        'Webhook callbacks are disabled, configure WEBHOOK_SECRET to use callbackUrl',
+        'callbackUrl',
+      );
+    }
+    if (callbackUrl) {
+      await this.webhooks.assertDeliverable(callbackUrl);
+    }
+
+    if (this.queue.length >= this.maxPending) {
+      this.logger.warn(
+        `Search job queue is full (${this.queue.length}), rejecting job`,
+      );
+      throw new CrawlerSaturatedError(
+        'Too many pending search jobs',
+        'search-jobs',
+        this.queue.length,
+      );
+    }
+
+    const job: WineSearchJob = {
+      id: randomUUID(),
+      status: 'pending',
+      request: search,
+      result: null,
+      error: null,
+      callbackUrl: callbackUrl ?? null,
+      deliveries: [],
+      createdAt: new Date(),
+      startedAt: null,
+      finishedAt: null,
+    };
+
+    await this.store.save(job);
+    this.queue.push({ job, options });
+    this.logger.log(
+      `Queued search job ${job.id}: ${request.winery} ${request.variety} ${request.vintage} (${this.queue.length} pending)`,
+    );
+
+    this.drain();
+
+    return job;
+  }
+
+  /**
+   * 작업을 조회합니다.
+   *
+   * @param id - 작업 id
+   * @returns 작업, 없거나 보관 기간이 지난 경우 null
+   */
+  async get(id: string): Promise<WineSearchJob | null> {
+    return this.store.get<WineSearchRequestDto, WineSearchResponseDto>(id);
+  }
+
+  /**
+   * 동시 실행 한도까지 대기 중인 작업을 시작합니다.
+   */
+  private drain(): void {
+    while (this.running < this.concurrency && this.queue.length > 0) {
+      const { job, options } = this.queue.shift()!;
+      this.running++;
+
+      void this.run(job, options).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  /**
+   * 작업을 실행하고 결과 또는 에러를 저장합니다.
+   */
+  private async run(
+    job: WineSearchJob,
+    options: SearchWineOptions,
+  ): Promise<void> {
+    try {
+      const started: WineSearchJob = {
+        ...job,
+        status: 'running',
+        startedAt: new Date(),
+      };
+      await this.store.save(started);
+
+      let finished: WineSearchJob;
+      try {
+        const result = await this.searchWineUseCase.execute(
+          job.request,
+          options,
+        );
+        finished = {
+          ...started,
+          status: 'succeeded',
+          result,
+          finishedAt: new Date(),
+        };
+        this.logger.log(`Search job ${job.id} succeeded`);
+      } catch (error) {
+        const reason =
+          error instanceof Error ? error : new Error(String(error));
+        finished = {
+          ...started,
+          status: 'failed',
+          error: mapCrawlerError(reason),
+          finishedAt: new Date(),
+        };
+        this.logger.warn(`Search job ${job.id} failed: ${reason.message}`);
+      }
+      await this.store.save(finished);
+
+      // Retries back off for a while, so they must not hold a queue slot
+      void this.webhooks.deliver(finished);
+    } catch (error) {
+      // The store itself failed; the job stays in its last saved state
+      this.logger.error(`Failed to record search job ${job.id}: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { SingleFlightService } from './single-flight.service';
+
+describe('SingleFlightService', () => {
+  let singleFlight: SingleFlightService;
+
+  const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+
+  beforeEach(() => {
+    singleFlight = new SingleFlightService();
+  });
+
+  it('should share one execution between concurrent callers', async () => {
+    const pending = deferred<string>();
+    const task = jest.fn(() => pending.promise);
+
+    const calls = [
+      singleFlight.run('key', task),
+      singleFlight.run('key', task),
+      singleFlight.run('key', task),
+    ];
+    pending.resolve('result');
+
+    await expect(Promise.all(calls)).resolves.toEqual([
+      'result',
+      'result',
+      'result',
+    ]);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run separate tasks for different keys', async () => {
+    const task = jest.fn(async () => 'result');
+
+    await Promise.all([
+      singleFlight.run('a', task),
+      singleFlight.run('b', task),
+    ]);
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('should propagate errors to all waiters', async () => {
+    const pending = deferred<string>();
+    const task = jest.fn(() => pending.promise);
+
+    const first = singleFlight.run('key', task);
+    const second = singleFlight.run('key', task);
+    pending.reject(new Error('crawl failed'));
+
+    await expect(first).rejects.toThrow('crawl failed');
+    await expect(second).rejects.toThrow('crawl failed');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run again after previous task settles', async () => {
+    const task = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('first failure'))
+      .mockResolvedValueOnce('second result');
+
+    await expect(singleFlight.run('key', task)).rejects.toThrow(
+      'first failure',
+    );
+    await expect(singleFlight.run('key', task)).resolves.toBe('second result');
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report coalescing metrics', async () => {
+    const pending = deferred<string>();
+    const task = () => pending.promise;
+
+    const calls = [
+      singleFlight.run('key', task),
+      singleFlight.run('key', task),
+      singleFlight.run('key', task),
+    ];
+
+    expect(singleFlight.getMetrics()).toEqual({
+      inFlight: 1,
+      executions: 1,
+      coalesced: 2,
+    });
+
+    pending.resolve('done');
+    await Promise.all(calls);
+
+    expect(singleFlight.getMetrics().inFlight).toBe(0);
+  });
+});
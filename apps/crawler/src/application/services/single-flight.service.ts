@@ -0,0 +1,72 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+export interface SingleFlightMetrics {
+  /**
+   * 현재 진행 중인 작업 수
+   */
+  inFlight: number;
+
+  /**
+   * 실제로 실행된 작업 수
+   */
+  executions: number;
+
+  /**
+   * 진행 중인 작업에 합류하여 실행을 생략한 호출 수
+   */
+  coalesced: number;
+}
+
+/**
+ * SingleFlightService
+ *
+ * 동일한 키로 동시에 들어온 요청을 하나의 작업으로 합칩니다 (요청 디듀플리케이션).
+ * 먼저 도착한 호출이 작업을 실행하고, 이후 호출은 같은 Promise를 공유합니다.
+ * 작업이 실패하면 모든 대기자에게 같은 에러가 전달됩니다.
+ */
+@Injectable()
+export class SingleFlightService {
+  private readonly logger = new Logger(SingleFlightService.name);
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+  private executions = 0;
+  private coalesced = 0;
+
+  /**
+   * 키에 해당하는 작업을 실행하거나, 이미 진행 중이면 그 결과를 공유합니다.
+   *
+   * @param key - 중복 판별 키
+   * @param task - 실행할 작업
+   * @returns 작업 결과
+   */
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      this.coalesced++;
+      this.logger.debug(`Coalesced request into in-flight task: ${key}`);
+      return existing as Promise<T>;
+    }
+
+    this.executions++;
+    const promise = (async () => {
+      try {
+        return await task();
+      } finally {
+        this.inFlight.delete(key);
+      }
+    })();
+
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * 디듀플리케이션 통계를 반환합니다.
+   */
+  getMetrics(): SingleFlightMetrics {
+    return {
+      inFlight: this.inFlight.size,
+      executions: this.executions,
+      coalesced: this.coalesced,
+    };
+  }
+}
@@ -0,0 +1,281 @@
+import { createHmac } from 'crypto';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+import type { WineSearchJob } from './search-job.service';
+import { InMemorySearchJobStoreAdapter } from '../../infrastructure/jobs/in-memory-search-job-store.adapter';
+import {
+  NetworkError,
+  ValidationError,
+} from '../../domain/errors/crawler.errors';
+import { WineSearchResponseDto } from '../dto/wine-search-response.dto';
+import { WineSearchRequestDto } from '../dto/wine-search-request.dto';
+
+describe('WebhookDeliveryService', () => {
+  const secret = 'test-secret';
+  const callbackUrl = 'https://hooks.example.com/wine';
+  let post: jest.Mock;
+  let resolve: jest.Mock;
+  let store: InMemorySearchJobStoreAdapter;
+  let service: WebhookDeliveryService;
+
+  const finishedJob = (
+    overrides: Partial<WineSearchJob> = {},
+  ): WineSearchJob => ({
+    id: 'job-1',
+    status: 'succeeded',
+    request: { winery: 'Opus One' } as WineSearchRequestDto,
+    result: { wine: { name: 'Opus One 2018' } } as WineSearchResponseDto,
+    error: null,
+    callbackUrl,
+    deliveries: [],
+    createdAt: new Date('2025-11-09T12:00:00Z'),
+    startedAt: new Date('2025-11-09T12:00:00Z'),
+    finishedAt: new Date('2025-11-09T12:00:01Z'),
+    ...overrides,
+  });
+
+  const deliver = async (job: WineSearchJob) => {
+    await store.save(job);
+    await service.deliver(job);
+    return (await store.get(job.id))!.deliveries;
+  };
+
+  beforeEach(() => {
+    post = jest.fn();
+    resolve = jest.fn().mockResolvedValue(['93.184.215.14']);
+    // Keep the fixed-date jobs from expiring out of the store
+    store = new InMemorySearchJobStoreAdapter({
+      ttlMs: Number.MAX_SAFE_INTEGER,
+    });
+    service = new WebhookDeliveryService({ post, resolve }, store, {
+      secret,
+      maxAttempts: 3,
+      baseDelayMs: 1,
+    });
+  });
+
+  it('should post the search result with a verifiable signature', async () => {
+    post.mockResolvedValue(200);
+
+    const deliveries = await deliver(finishedJob());
+
+    const [url, body, headers] = post.mock.calls[0];
+    expect(url).toBe(callbackUrl);
+    expect(JSON.parse(body)).toEqual({ wine: { name: 'Opus One 2018' } });
+    expect(headers).toMatchObject({
+      'X-Webhook-Id': 'job-1',
+      'X-Webhook-Event': 'search.succeeded',
+    });
+    expect(headers['X-Webhook-Signature']).toBe(
+      `sha256=${createHmac('sha256', secret)
+        .update(`${headers['X-Webhook-Timestamp']}.${body}`)
+        .digest('hex')}`,
+    );
+    expect(deliveries).toEqual([
+      expect.objectContaining({
+        attempt: 1,
+        event: 'search.succeeded',
+        statusCode: 200,
+        error: null,
+        succeeded: true,
+      }),
+    ]);
+  });
+
+  it('should post failures in the HTTP error response shape', async () => {
+    post.mockResolvedValue(204);
+
+    await deliver(
+      finishedJob({
+        status: 'failed',
+        result: null,
+        error: {
+          statusCode: 300,
+          message: 'Multiple wines match',
+          error: 'Multiple Choices',
+          details: { candidates: [] },
+        },
+      }),
+    );
+
+    expect(JSON.parse(post.mock.calls[0][1])).toEqual({
+      statusCode: 300,
+      message: 'Multiple wines match',
+      error: 'Multiple Choices',
+      timestamp: '2025-11-09T12:00:01.000Z',
+      path: '/wines/search/jobs/job-1',
+      candidates: [],
+    });
+    expect(post.mock.calls[0][2]['X-Webhook-Event']).toBe('search.failed');
+  });
+
+  it('should retry server errors and connection failures', async () => {
+    post
+      .mockResolvedValueOnce(503)
+      .mockRejectedValueOnce(
+        new NetworkError('connect ECONNREFUSED', callbackUrl),
+      )
+      .mockResolvedValueOnce(200);
+
+    const deliveries = await deliver(finishedJob());
+
+    expect(post).toHaveBeenCalledTimes(3);
+    expect(deliveries.map((delivery) => delivery.statusCode)).toEqual([
+      503,
+      null,
+      200,
+    ]);
+    expect(deliveries[0].error).toBe('Callback responded with HTTP 503');
+    expect(deliveries[1].error).toBe('connect ECONNREFUSED');
+  });
+
+  it('should not retry client errors', async () => {
+    post.mockResolvedValue(400);
+
+    const deliveries = await deliver(finishedJob());
+
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(deliveries).toEqual([
+      expect.objectContaining({ statusCode: 400, succeeded: false }),
+    ]);
+  });
+
+  it('should give up after the maximum number of attempts', async () => {
+    post.mockResolvedValue(500);
+
+    const deliveries = await deliver(finishedJob());
+
+    expect(post).toHaveBeenCalledTimes(3);
+    expect(deliveries).toHaveLength(3);
+  });
+
+  it('should skip jobs without a callback URL', async () => {
+    await deliver(finishedJob({ callbackUrl: null }));
+
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('should be disabled without a secret', () => {
+    expect(service.enabled).toBe(true);
+    expect(new WebhookDeliveryService({ post, resolve }, store).enabled).toBe(
+      false,
+    );
+  });
+
+  describe('callback targets', () => {
+    it('should accept hosts that resolve to public addresses', async () => {
+      await expect(
+        service.assertDeliverable(callbackUrl),
+      ).resolves.toBeUndefined();
+      expect(resolve).toHaveBeenCalledWith('hooks.example.com');
+    });
+
+    it.each([
+      ['loopback', 'http://localhost:8080/hook', ['127.0.0.1']],
+      ['private', 'http://intranet.example.com/hook', ['10.1.2.3']],
+      [
+        'link-local metadata',
+        'http://169.254.169.254/latest',
+        ['169.254.169.254'],
+      ],
+      ['IPv6 loopback', 'http://[::1]:3000/hook', ['::1']],
+      ['IPv4-mapped IPv6', 'http://mapped.example.com/', ['::ffff:127.0.0.1']],
+      [
+        'partially private',
+        'http://mixed.example.com/',
+        ['93.184.215.14', '192.168.0.10'],
+      ],
+    ])('should reject %s targets', async (_, url, addresses) => {
+      resolve.mockResolvedValue(addresses);
+
+      await expect(service.assertDeliverable(url)).rejects.toBeInstanceOf(
+        ValidationError,
+      );
+    });
+
+    it('should reject hosts that cannot be resolved and non-http URLs', async () => {
+      resolve.mockRejectedValue(new NetworkError('ENOTFOUND', 'nowhere'));
+
+      await expect(
+        service.assertDeliverable('http://nowhere.invalid/'),
+      ).rejects.toThrow('could not be resolved');
+      await expect(
+        service.assertDeliverable('ftp://hooks.example.com/'),
+      ).rejects.toThrow('http or https');
+    });
+
+    it('should only accept listed hosts when allowed hosts are configured', async () => {
+      const allowlisted = new WebhookDeliveryService({ post, resolve }, store, {
+        secret,
+        allowedHosts: ['127.0.0.1', 'Hooks.Internal'],
+      });
+
+      await expect(
+        allowlisted.assertDeliverable('http://127.0.0.1:9000/hook'),
+      ).resolves.toBeUndefined();
+      await expect(
+        allowlisted.assertDeliverable('http://hooks.internal/hook'),
+      ).resolves.toBeUndefined();
+      await expect(allowlisted.assertDeliverable(callbackUrl)).rejects.toThrow(
+        'not an allowed webhook host',
+      );
+      expect(resolve).not.toHaveBeenCalled();
+    });
+
+    it('should refuse delivery when the host no longer resolves publicly', async () => {
+      resolve.mockResolvedValue(['10.0.0.1']);
+
+      const deliveries = await deliver(finishedJob());
+
+      expect(post).not.toHaveBeenCalled();
+      expect(deliveries).toEqual([
+        expect.objectContaining({
+          attempt: 1,
+          statusCode: null,
+          error: expect.stringContaining('public addresses'),
+          succeeded: false,
+        }),
+      ]);
+    });
+
+    it('should check the addresses used for the connection, not only the validated ones', async () => {
+      // DNS rebinding: public when validated, internal when the callback connects
+      post.mockImplementation(
+        async (url, body, headers, timeoutMs, allowAddress) => {
+          if (!allowAddress('169.254.169.254')) {
+            throw new NetworkError(
+              'Webhook host hooks.example.com resolved to a disallowed address 169.254.169.254',
+              url,
+            );
+          }
+          return 200;
+        },
+      );
+
+      const deliveries = await deliver(finishedJob());
+
+      expect(resolve).toHaveBeenCalledWith('hooks.example.com');
+      const allowAddress = post.mock.calls[0][4];
+      expect(allowAddress('93.184.215.14')).toBe(true);
+      expect(allowAddress('127.0.0.1')).toBe(false);
+      expect(deliveries[0]).toMatchObject({
+        statusCode: null,
+        error: expect.stringContaining('disallowed address'),
+        succeeded: false,
+      });
+    });
+
+    it('should not filter connection addresses of allowed hosts', async () => {
+      const allowlisted = new WebhookDeliveryService({ post, resolve }, store, {
+        secret,
+        allowedHosts: ['hooks.example.com'],
+      });
+      post.mockResolvedValue(200);
+      const job = finishedJob();
+      await store.save(job);
+
+      await allowlisted.deliver(job);
+
+      expect(post.mock.calls[0][4]).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,359 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHmac } from 'crypto';
+import { BlockList, isIP } from 'net';
+import type { SearchJobStorePort } from '../../domain/ports/search-job-store.port';
+import type {
+  WebhookDeliveryAttempt,
+  WebhookPort,
+} from '../../domain/ports/webhook.port';
+import { ValidationError } from '../../domain/errors/crawler.errors';
+import type { WineSearchJob } from './search-job.service';
+
+export interface WebhookDeliveryOptions {
+  /**
+   * HMAC-SHA256 서명 키, 비어 있으면 콜백을 받지 않습니다.
+   */
+  secret?: string;
+
+  /**
+   * 최대 전송 시도 횟수 (최초 시도 포함)
+   * @default 5
+   */
+  maxAttempts?: number;
+
+  /**
+   * 첫 재시도 대기 시간 (밀리초), 시도마다 2배씩 증가합니다.
+   * @default 1000
+   */
+  baseDelayMs?: number;
+
+  /**
+   * 재시도 대기 시간 상한 (밀리초)
+   * @default 60000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * 콜백 응답 대기 시간 (밀리초)
+   * @default 5000
+   */
+  timeoutMs?: number;
+
+  /**
+   * 콜백을 허용하는 호스트 목록. 비어 있으면 공인 IP로만 해석되는 호스트를 허용합니다.
+   * @default []
+   */
+  allowedHosts?: string[];
+}
+
+/**
+ * 재시도하는 콜백 응답 상태 코드 (그 밖의 4xx는 영구 실패로 봅니다)
+ */
+const RETRYABLE_STATUSES = new Set([408, 429]);
+
+/**
+ * 콜백 대상으로 허용하지 않는 주소 대역
+ * 루프백, 사설망, 링크 로컬(클라우드 메타데이터 포함), CGNAT, 멀티캐스트, 예약 대역
+ * (IPv4-mapped IPv6 주소는 BlockList가 IPv4 대역으로 검사합니다)
+ */
+const INTERNAL_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * 내부 대역이 아닌 IP 주소인지 여부
+ */
+function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  return (
+    family !== 0 &&
+    !INTERNAL_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6')
+  );
+}
+
+/**
+ * WebhookDeliveryService
+ *
+ * 끝난 검색 작업의 결과(WineSearchResponseDto) 또는 에러 본문을 작업의 콜백 URL로 전송합니다.
+ * 모든 시도는 작업의 전송 기록(deliveries)에 남습니다.
+ *
+ * @remarks
+ * 수신 측은 `X-Webhook-Signature`를 `${X-Webhook-Timestamp}.${본문}`의 HMAC-SHA256(hex)과
+ * 비교하여 발신자를 검증할 수 있습니다.
+ * 연결 실패, 시간 초과, 5xx/408/429 응답은 지수 백오프로 재시도합니다.
+ */
+@Injectable()
+export class WebhookDeliveryService {
+  private readonly logger = new Logger(WebhookDeliveryService.name);
+  private readonly secret: string;
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly timeoutMs: number;
+  private readonly allowedHosts: Set<string>;
+
+  constructor(
+    private readonly webhook: WebhookPort,
+    private readonly store: SearchJobStorePort,
+    options: WebhookDeliveryOptions = {},
+  ) {
+    this.secret = options.secret ?? '';
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 5);
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 60000;
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.allowedHosts = new Set(
+      (options.allowedHosts ?? []).map((host) => host.toLowerCase()),
+    );
+  }
+
+  /**
+   * 서명 키가 설정되어 콜백을 보낼 수 있는지 여부
+   */
+  get enabled(): boolean {
+    return this.secret.length > 0;
+  }
+
+  /**
+   * 콜백 URL이 전송 가능한 대상인지 확인합니다.
+   * 허용 호스트 목록이 있으면 목록의 호스트만, 없으면 공인 IP로만 해석되는 호스트만 허용하여
+   * 콜백이 내부망 요청에 쓰이지 않도록 합니다.
+   *
+   * @param url - 콜백 URL
+   * @throws ValidationError 허용하지 않는 대상인 경우
+   */
+  async assertDeliverable(url: string): Promise<void> {
+    const reason = await this.checkTarget(url);
+    if (reason) {
+      throw new ValidationError(reason, 'callbackUrl');
+    }
+  }
+
+  /**
+   * 끝난 작업을 콜백 URL로 전송합니다. 실패해도 예외를 던지지 않고 전송 기록에만 남깁니다.
+   *
+   * @param job - 성공 또는 실패한 작업
+   */
+  async deliver(job: WineSearchJob): Promise<void> {
+    if (!job.callbackUrl) {
+      return;
+    }
+
+    const url = job.callbackUrl;
+    const event =
+      job.status === 'succeeded' ? 'search.succeeded' : 'search.failed';
+    const body = JSON.stringify(this.buildPayload(job));
+
+    try {
+      for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+        // Checked before every attempt as DNS may change between retries
+        const refused = await this.checkTarget(url);
+        if (refused) {
+          await this.record(job.id, {
+            attempt,
+            event,
+            attemptedAt: new Date(),
+            statusCode: null,
+            error: refused,
+            succeeded: false,
+          });
+          this.logger.warn(`Refused webhook for job ${job.id}: ${refused}`);
+          return;
+        }
+
+        const delivery = await this.attempt(job.id, url, event, body, attempt);
+        await this.record(job.id, delivery);
+
+        if (delivery.succeeded) {
+          this.logger.log(
+            `Delivered ${event} for job ${job.id} to ${url} (attempt ${attempt})`,
+          );
+          return;
+        }
+
+        if (!this.isRetryable(delivery) || attempt === this.maxAttempts) {
+          this.logger.warn(
+            `Giving up webhook for job ${job.id} after ${attempt} attempt(s): ${delivery.error}`,
+          );
+          return;
+        }
+
+        const delayMs = Math.min(
+          this.baseDelayMs * 2 ** (attempt - 1),
+          this.maxDelayMs,
+        );
+        this.logger.debug(
+          `Webhook for job ${job.id} failed (${delivery.error}); retrying in ${delayMs}ms`,
+        );
+        await this.sleep(delayMs);
+      }
+    } catch (error) {
+      // The delivery log could not be written; nothing left to report to
+      this.logger.error(
+        `Failed to deliver webhook for job ${job.id}: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * 전송을 한 번 시도하고 결과를 기록 형태로 반환합니다.
+   */
+  private async attempt(
+    jobId: string,
+    url: string,
+    event: string,
+    body: string,
+    attempt: number,
+  ): Promise<WebhookDeliveryAttempt> {
+    const attemptedAt = new Date();
+    const timestamp = Math.floor(attemptedAt.getTime() / 1000).toString();
+    const headers = {
+      'X-Webhook-Id': jobId,
+      'X-Webhook-Event': event,
+      'X-Webhook-Timestamp': timestamp,
+      'X-Webhook-Signature': `sha256=${this.sign(timestamp, body)}`,
+    };
+
+    try {
+      // The host is resolved again when connecting, so check the addresses actually used
+      const statusCode = await this.webhook.post(
+        url,
+        body,
+        headers,
+        this.timeoutMs,
+        this.allowedHosts.size > 0 ? undefined : isPublicAddress,
+      );
+      const succeeded = statusCode >= 200 && statusCode < 300;
+
+      return {
+        attempt,
+        event,
+        attemptedAt,
+        statusCode,
+        error: succeeded ? null : `Callback responded with HTTP ${statusCode}`,
+        succeeded,
+      };
+    } catch (error) {
+      return {
+        attempt,
+        event,
+        attemptedAt,
+        statusCode: null,
+        error: error instanceof Error ? error.message : String(error),
+        succeeded: false,
+      };
+    }
+  }
+
+  /**
+   * 성공한 작업은 검색 결과를, 실패한 작업은 HTTP 에러 응답과 같은 형태의 본문을 만듭니다.
+   */
+  private buildPayload(job: WineSearchJob): unknown {
+    if (job.status === 'succeeded') {
+      return job.result;
+    }
+
+    return {
+      statusCode: job.error?.statusCode,
+      message: job.error?.message,
+      error: job.error?.error,
+      timestamp: (job.finishedAt ?? new Date()).toISOString(),
+      path: `/wines/search/jobs/${job.id}`,
+      ...job.error?.details,
+    };
+  }
+
+  /**
+   * 전송 시도를 작업의 전송 기록에 추가합니다.
+   */
+  private async record(
+    jobId: string,
+    delivery: WebhookDeliveryAttempt,
+  ): Promise<void> {
+    const job = await this.store.get(jobId);
+    if (!job) {
+      return; // expired from the store while retrying
+    }
+
+    await this.store.save({
+      ...job,
+      deliveries: [...job.deliveries, delivery],
+    });
+  }
+
+  /**
+   * 콜백 대상을 허용하지 않는 이유를 반환합니다. 허용하면 null
+   */
+  private async checkTarget(url: string): Promise<string | null> {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      return 'callbackUrl must be a valid URL';
+    }
+
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      return 'callbackUrl must use http or https';
+    }
+
+    // IPv6 literals keep their brackets in URL.hostname
+    const hostname = target.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    if (this.allowedHosts.size > 0) {
+      return this.allowedHosts.has(hostname)
+        ? null
+        : `callbackUrl host ${hostname} is not an allowed webhook host`;
+    }
+
+    let addresses: string[];
+    try {
+      addresses = await this.webhook.resolve(hostname);
+    } catch {
+      return `callbackUrl host ${hostname} could not be resolved`;
+    }
+
+    return addresses.length === 0 || !addresses.every(isPublicAddress)
+      ? `callbackUrl host ${hostname} must resolve to public addresses only`
+      : null;
+  }
+
+  private isRetryable(delivery: WebhookDeliveryAttempt): boolean {
+    return (
+      delivery.statusCode === null ||
+      delivery.statusCode >= 500 ||
+      RETRYABLE_STATUSES.has(delivery.statusCode)
+    );
+  }
+
+  private sign(timestamp: string, body: string): string {
+    return createHmac('sha256', this.secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
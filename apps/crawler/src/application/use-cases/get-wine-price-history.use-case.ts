@@ -0,0 +1,119 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import type { WineRepositoryPort } from '../../domain/ports/wine-repository.port';
+import { PriceSeriesAggregator } from '../../domain/services/price-series-aggregator';
+import { WineId } from '../../domain/value-objects/wine-id.vo';
+import { ValidationError } from '../../domain/errors/crawler.errors';
+import { WinePriceHistoryQueryDto } from '../dto/wine-price-history-query.dto';
+import { WinePriceHistoryResponseDto } from '../dto/wine-price-history-response.dto';
+
+/**
+ * 날짜만 있는 ISO 8601 표기
+ * @example "2025-01-31"
+ */
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GetWinePriceHistoryUseCase
+ *
+ * 카탈로그에 저장된 와인의 가격 스냅샷을 기간별 시계열로 조회하는 유스케이스입니다.
+ * 크롤링하지 않으며, 검색으로 카탈로그에 쌓인 가격만 사용합니다.
+ */
+@Injectable()
+export class GetWinePriceHistoryUseCase {
+  private readonly logger = new Logger(GetWinePriceHistoryUseCase.name);
+
+  constructor(
+    @Inject('WineRepositoryPort')
+    private readonly repository: WineRepositoryPort,
+    private readonly aggregator: PriceSeriesAggregator,
+  ) {}
+
+  /**
+   * 와인의 가격 시계열을 조회합니다.
+   *
+   * @param id - 와인 카탈로그 id (검색 응답의 wine.id)
+   * @param query - 조회 기간과 집계 단위
+   * @returns 통화별 가격 시계열, 카탈로그에 없는 와인이면 null
+   * @throws ValidationError id 형식이 잘못됐거나 from이 to보다 늦은 경우
+   */
+  async execute(
+    id: string,
+    query: WinePriceHistoryQueryDto,
+  ): Promise<WinePriceHistoryResponseDto | null> {
+    const wineId = this.parseWineId(id);
+    const from = query.from ? this.parseDate(query.from, 'from') : undefined;
+    const to = query.to ? this.parseRangeEnd(query.to) : undefined;
+    if (from && to && from > to) {
+      throw new ValidationError('from must not be later than to', 'from');
+    }
+
+    const record = await this.repository.findById(wineId.value);
+    if (!record) {
+      return null;
+    }
+
+    const interval = query.interval ?? 'day';
+    const series = this.aggregator.aggregate(record.prices, interval, {
+      from,
+      to,
+    });
+    this.logger.debug(
+      `Aggregated ${record.prices.length} price snapshot(s) of ${record.id} into ${series.length} series`,
+    );
+
+    return {
+      wine: {
+        id: record.id,
+        name: record.wine.name.value,
+        region: record.wine.region,
+        winery: record.wine.winery,
+        variety: record.wine.variety,
+        vintage: record.wine.vintage?.value ?? null,
+      },
+      interval,
+      from: from?.toISOString() ?? null,
+      to: to?.toISOString() ?? null,
+      series: series.map((item) => ({
+        currency: item.currency,
+        points: item.points.map((point) => ({
+          period: point.periodStart.toISOString(),
+          average: point.average,
+          min: point.min,
+          max: point.max,
+          samples: point.samples,
+        })),
+        min: item.min,
+        max: item.max,
+        changePercent: item.changePercent,
+      })),
+    };
+  }
+
+  private parseWineId(id: string): WineId {
+    try {
+      return WineId.create(id);
+    } catch (error) {
+      throw new ValidationError((error as Error).message, 'id');
+    }
+  }
+
+  /**
+   * 조회 끝 시각을 계산합니다. 날짜만 지정하면 그 날의 마지막 밀리초(UTC)로 봅니다.
+   */
+  private parseRangeEnd(value: string): Date {
+    const date = this.parseDate(value, 'to');
+    if (DATE_ONLY_PATTERN.test(value)) {
+      date.setUTCHours(23, 59, 59, 999);
+    }
+    return date;
+  }
+
+  // ISO 8601 also allows forms such as week dates that Date cannot parse
+  private parseDate(value: string, field: string): Date {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new ValidationError(`${field} must be a calendar date`, field);
+    }
+    return date;
+  }
+}
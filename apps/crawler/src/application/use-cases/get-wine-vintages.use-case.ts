@@ -0,0 +1,199 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import type { CrawlerPort } from '../../domain/ports/crawler.port';
+import type {
+  ParserPort,
+  VintageChartEntry,
+} from '../../domain/ports/parser.port';
+import type { WineRepositoryPort } from '../../domain/ports/wine-repository.port';
+import { WineMatcher } from '../../domain/services/wine-matcher';
+import {
+  AmbiguousWineError,
+  NotFoundError,
+} from '../../domain/errors/crawler.errors';
+import { WineVintagesRequestDto } from '../dto/wine-vintages-request.dto';
+import {
+  WineVintageDto,
+  WineVintagesResponseDto,
+} from '../dto/wine-vintages-response.dto';
+import { buildWineSearcherSearchUrl } from '../utils/wine-searcher-url.util';
+
+/**
+ * 모호한 검색 결과에서 반환하는 최대 후보 수
+ */
+const MAX_CANDIDATES = 10;
+
+/**
+ * GetWineVintagesUseCase
+ *
+ * 와인의 모든 빈티지에 대한 평균 가격, 평론가 점수, 판매 현황을 조회하는 유스케이스입니다.
+ * 빈티지 하나만 다루는 SearchWineUseCase와 달리 구매 결정을 위한 빈티지 비교에 사용합니다.
+ * 빈티지별 가격은 카탈로그의 가격 시계열에도 추가합니다.
+ */
+@Injectable()
+export class GetWineVintagesUseCase {
+  private readonly logger = new Logger(GetWineVintagesUseCase.name);
+
+  constructor(
+    @Inject('CrawlerPort') private readonly crawler: CrawlerPort,
+    @Inject('ParserPort') private readonly parser: ParserPort,
+    @Inject('WineRepositoryPort')
+    private readonly repository: WineRepositoryPort,
+    private readonly matcher: WineMatcher,
+  ) {}
+
+  /**
+   * 와인의 빈티지 차트를 조회합니다.
+   *
+   * @param request - 빈티지 조회 요청 DTO
+   * @returns 빈티지별 시세와 평점 (최신 빈티지 순)
+   * @throws NotFoundError 검색 결과나 빈티지 차트가 없는 경우
+   * @throws AmbiguousWineError 명확하게 일치하는 후보가 없는 경우
+   */
+  async execute(
+    request: WineVintagesRequestDto,
+  ): Promise<WineVintagesResponseDto> {
+    // Search without a vintage so the wine page covers every vintage
+    const searchUrl = buildWineSearcherSearchUrl([
+      request.winery,
+      request.variety,
+      request.region,
+    ]);
+    this.logger.log(`Listing wine vintages: ${searchUrl}`);
+
+    const searchHtml = await this.crawler.fetch(searchUrl, { timeout: 5000 });
+    const page = await this.resolveWinePage(request, searchUrl, searchHtml);
+
+    const entries = await this.parser.parseVintageChart(page.html, page.url);
+    if (entries === null || entries.length === 0) {
+      throw new NotFoundError(
+        `No vintage chart on Wine-Searcher page ${page.url}`,
+        page.url,
+      );
+    }
+
+    this.logger.log(
+      `Found ${entries.length} vintage(s) for ${request.winery} on ${page.url}`,
+    );
+
+    const crawledAt = new Date();
+    await this.recordPrices(entries, page.url, crawledAt);
+
+    const { wine } = entries[0];
+    return {
+      wine: {
+        name: wine.name.value,
+        region: wine.region,
+        winery: wine.winery,
+        variety: wine.variety,
+      },
+      vintages: entries.map((entry) => this.mapToVintageDto(entry)),
+      source: {
+        site: 'Wine-Searcher',
+        url: page.url,
+        crawledAt: crawledAt.toISOString(),
+      },
+    };
+  }
+
+  /**
+   * 빈티지별 가격을 카탈로그의 가격 시계열에 추가합니다.
+   * 카탈로그 저장에 실패해도 빈티지 차트는 그대로 반환합니다.
+   */
+  private async recordPrices(
+    entries: VintageChartEntry[],
+    pageUrl: string,
+    crawledAt: Date,
+  ): Promise<void> {
+    for (const { wine, price, url } of entries) {
+      if (!price) {
+        continue;
+      }
+
+      try {
+        await this.repository.recordPrice({
+          wine,
+          price,
+          sourceUrl: url ?? pageUrl,
+          crawledAt,
+        });
+      } catch (error) {
+        this.logger.warn(
+          `Failed to record the ${wine.vintage} price of ${wine.name.value} in the wine catalog: ${error}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * 검색 결과 목록이면 요청과 가장 일치하는 후보의 와인 페이지를 크롤링합니다.
+   * 검색 URL이 곧바로 와인 페이지를 반환한 경우에는 그대로 사용합니다.
+   *
+   * @throws NotFoundError 검색 결과가 없는 경우
+   * @throws AmbiguousWineError 명확하게 일치하는 후보가 없는 경우
+   */
+  private async resolveWinePage(
+    request: WineVintagesRequestDto,
+    searchUrl: string,
+    searchHtml: string,
+  ): Promise<{ html: string; url: string }> {
+    const candidates = await this.parser.parseSearchResults(
+      searchHtml,
+      searchUrl,
+    );
+    if (candidates === null) {
+      return { html: searchHtml, url: searchUrl };
+    }
+
+    if (candidates.length === 0) {
+      throw new NotFoundError(
+        `No Wine-Searcher results for ${searchUrl}`,
+        searchUrl,
+      );
+    }
+
+    const { best, candidates: ranked } = this.matcher.match(
+      request,
+      candidates,
+    );
+    if (!best) {
+      throw new AmbiguousWineError(
+        `No clear match among ${ranked.length} Wine-Searcher results for ${request.winery} ${request.variety ?? ''}`.trim(),
+        searchUrl,
+        ranked.slice(0, MAX_CANDIDATES),
+      );
+    }
+
+    return {
+      html: await this.crawler.fetch(best.url, { timeout: 5000 }),
+      url: best.url,
+    };
+  }
+
+  /**
+   * 빈티지 차트 항목을 Response DTO로 변환합니다.
+   */
+  private mapToVintageDto(entry: VintageChartEntry): WineVintageDto {
+    return {
+      vintage: entry.wine.vintage!.value, // chart rows always carry a vintage
+      price: entry.price
+        ? {
+            average: entry.price.average,
+            currency: entry.price.currency,
+            priceRange: entry.price.priceRange,
+            updatedAt: entry.price.updatedAt.toISOString(),
+          }
+        : null,
+      rating: entry.rating
+        ? {
+            source: entry.rating.source,
+            score: entry.rating.score.value,
+            critic: entry.rating.critic,
+            reviewCount: entry.rating.reviewCount,
+          }
+        : null,
+      available: entry.offers > 0,
+      offers: entry.offers,
+      url: entry.url,
+    };
+  }
+}
@@ -0,0 +1,153 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import type { CrawlerPort } from '../../domain/ports/crawler.port';
+import type {
+  ParserPort,
+  WineSearchCandidate,
+} from '../../domain/ports/parser.port';
+import {
+  ScoredWineCandidate,
+  WineMatcher,
+} from '../../domain/services/wine-matcher';
+import { WineCandidatesRequestDto } from '../dto/wine-candidates-request.dto';
+import {
+  WineCandidateDto,
+  WineCandidatesResponseDto,
+} from '../dto/wine-candidates-response.dto';
+import { buildWineSearcherSearchUrl } from '../utils/wine-searcher-url.util';
+
+/**
+ * 기본 반환 후보 수
+ */
+const DEFAULT_LIMIT = 10;
+
+/**
+ * ListWineCandidatesUseCase
+ *
+ * Wine-Searcher 검색 결과에서 요청과 일치하는 와인 후보를 순위순으로 반환하는 유스케이스입니다.
+ * 정확한 이름을 모르는 사용자에게 전체 검색 전에 "이 와인을 찾으셨나요?"를 제안하는 데 사용합니다.
+ */
+@Injectable()
+export class ListWineCandidatesUseCase {
+  private readonly logger = new Logger(ListWineCandidatesUseCase.name);
+
+  constructor(
+    @Inject('CrawlerPort') private readonly crawler: CrawlerPort,
+    @Inject('ParserPort') private readonly parser: ParserPort,
+    private readonly matcher: WineMatcher,
+  ) {}
+
+  /**
+   * 와인 후보 목록을 반환합니다.
+   *
+   * @param request - 와인 후보 조회 요청 DTO
+   * @returns 점수순 와인 후보 목록 (일치하는 와인이 없으면 빈 목록)
+   */
+  async execute(
+    request: WineCandidatesRequestDto,
+  ): Promise<WineCandidatesResponseDto> {
+    const url = buildWineSearcherSearchUrl([
+      request.winery,
+      request.variety,
+      request.vintage,
+      request.region,
+    ]);
+    this.logger.log(`Listing wine candidates: ${url}`);
+
+    const html = await this.crawler.fetch(url, { timeout: 5000 });
+    const listings =
+      (await this.parser.parseSearchResults(html, url)) ??
+      (await this.fromWinePage(html, url));
+
+    const { candidates } = this.matcher.match(
+      {
+        winery: request.winery,
+        variety: request.variety,
+        vintage: request.vintage,
+        region: request.region,
+      },
+      this.mergeVintages(listings),
+    );
+
+    this.logger.log(
+      `Found ${candidates.length} wine candidate(s) for ${request.winery}`,
+    );
+
+    return {
+      candidates: candidates
+        .slice(0, request.limit ?? DEFAULT_LIMIT)
+        .map((candidate) => this.mapToCandidateDto(candidate)),
+      source: {
+        site: 'Wine-Searcher',
+        url,
+        crawledAt: new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * 검색 URL이 곧바로 와인 페이지를 반환한 경우 해당 와인을 유일한 후보로 만듭니다.
+   */
+  private async fromWinePage(
+    html: string,
+    url: string,
+  ): Promise<WineSearchCandidate[]> {
+    const { wine, availableVintages, sourceUrl } = await this.parser.parse(
+      html,
+      url,
+    );
+    const vintage = wine.vintage?.year ?? null;
+
+    return [
+      {
+        name: wine.name.value,
+        url: sourceUrl,
+        vintage,
+        vintages: [
+          ...new Set([
+            ...(vintage !== null ? [vintage] : []),
+            ...availableVintages.map((link) => link.vintage),
+          ]),
+        ].sort((a, b) => b - a),
+        producer: wine.winery,
+        region: wine.region,
+      },
+    ];
+  }
+
+  /**
+   * 빈티지별로 나뉘어 나열된 같은 와인을 하나의 후보로 합칩니다.
+   */
+  private mergeVintages(
+    listings: WineSearchCandidate[],
+  ): WineSearchCandidate[] {
+    const merged = new Map<string, WineSearchCandidate>();
+
+    for (const listing of listings) {
+      const key = `${listing.name.toLowerCase()}|${listing.producer?.toLowerCase() ?? ''}`;
+      const existing = merged.get(key);
+
+      if (!existing) {
+        merged.set(key, { ...listing, vintages: [...listing.vintages] });
+        continue;
+      }
+
+      existing.vintages = [
+        ...new Set([...existing.vintages, ...listing.vintages]),
+      ].sort((a, b) => b - a);
+      existing.region = existing.region ?? listing.region;
+    }
+
+    return [...merged.values()];
+  }
+
+  private mapToCandidateDto(candidate: ScoredWineCandidate): WineCandidateDto {
+    return {
+      name: candidate.name,
+      producer: candidate.producer,
+      region: candidate.region,
+      vintages: candidate.vintages,
+      url: candidate.url,
+      score: candidate.score,
+    };
+  }
+}
@@ -0,0 +1,95 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { WineSearchRequestDto } from '../dto/wine-search-request.dto';
+import { WineSearchResponseDto } from '../dto/wine-search-response.dto';
+import { SearchWineOptions, SearchWineUseCase } from './search-wine.use-case';
+
+export interface SearchWineBatchOptions {
+  /**
+   * 동시에 처리하는 최대 검색 수
+   * @default 4
+   */
+  concurrency?: number;
+}
+
+/**
+ * 배치 검색 항목의 처리 결과 (요청 순서 유지)
+ */
+export type SearchWineBatchOutcome =
+  | { status: 'fulfilled'; result: WineSearchResponseDto }
+  | { status: 'rejected'; error: Error };
+
+/**
+ * SearchWineBatchUseCase
+ *
+ * 여러 와인을 제한된 동시성으로 검색하는 유스케이스입니다.
+ * 항목마다 SearchWineUseCase를 거치므로 캐시, 요청 디듀플리케이션, 호스트별 속도 제한이 그대로 적용되며,
+ * 실패한 항목은 배치 전체를 실패시키지 않고 항목별 에러로 반환합니다.
+ */
+@Injectable()
+export class SearchWineBatchUseCase {
+  private readonly logger = new Logger(SearchWineBatchUseCase.name);
+  private readonly concurrency: number;
+
+  constructor(
+    private readonly searchWineUseCase: SearchWineUseCase,
+    options: SearchWineBatchOptions = {},
+  ) {
+    this.concurrency = Math.max(1, options.concurrency ?? 4);
+  }
+
+  /**
+   * 검색 요청들을 처리하고 요청 순서대로 결과를 반환합니다.
+   *
+   * @param requests - 와인 검색 요청 목록
+   * @param options - 모든 항목에 적용할 검색 옵션
+   * @returns 항목별 결과 또는 에러
+   */
+  async execute(
+    requests: WineSearchRequestDto[],
+    options: SearchWineOptions = {},
+  ): Promise<SearchWineBatchOutcome[]> {
+    this.logger.log(
+      `Searching ${requests.length} wine(s), ${this.concurrency} at a time`,
+    );
+
+    const outcomes: SearchWineBatchOutcome[] = new Array(requests.length);
+    let next = 0;
+
+    // Each worker keeps picking the next pending request until none are left
+    const worker = async (): Promise<void> => {
+      while (next < requests.length) {
+        const index = next++;
+        try {
+          outcomes[index] = {
+            status: 'fulfilled',
+            result: await this.searchWineUseCase.execute(
+              requests[index],
+              options,
+            ),
+          };
+        } catch (error) {
+          const reason =
+            error instanceof Error ? error : new Error(String(error));
+          this.logger.warn(`Batch search #${index} failed: ${reason.message}`);
+          outcomes[index] = { status: 'rejected', error: reason };
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from(
+        { length: Math.min(this.concurrency, requests.length) },
+        worker,
+      ),
+    );
+
+    const failed = outcomes.filter(
+      (outcome) => outcome.status === 'rejected',
+    ).length;
+    this.logger.log(
+      `Batch search completed: ${requests.length - failed} succeeded, ${failed} failed`,
+    );
+
+    return outcomes;
+  }
+}
@@ -1,8 +1,49 @@
 import { Injectable, Inject, Logger } from '@nestjs/common';
 import type { CrawlerPort } from '../../domain/ports/crawler.port';
-import type { ParserPort } from '../../domain/ports/parser.port';
+import type { ParserPort, WineData } from '../../domain/ports/parser.port';
+import type { WineCachePort } from '../../domain/ports/wine-cache.port';
+import type { WineRepositoryPort } from '../../domain/ports/wine-repository.port';
+import { WineMatcher } from '../../domain/services/wine-matcher';
+import { Vintage } from '../../domain/value-objects/vintage.vo';
+import { WineId } from '../../domain/value-objects/wine-id.vo';
+import {
+  WineConfidence,
+  WineConfidenceScorer,
+} from '../../domain/services/wine-confidence-scorer';
+import {
+  AmbiguousWineError,
+  NotFoundError,
+  VintageMismatchError,
+  WineMismatchError,
+} from '../../domain/errors/crawler.errors';
 import { WineSearchRequestDto } from '../dto/wine-search-request.dto';
-import { WineSearchResponseDto } from '../dto/wine-search-response.dto';
+import {
+  VintageMatchDto,
+  VintageStatus,
+  WineSearchResponseDto,
+} from '../dto/wine-search-response.dto';
+import { WineSearchProgressEvent } from '../dto/wine-search-progress.dto';
+import { SingleFlightService } from '../services/single-flight.service';
+import { buildWineSearcherSearchUrl } from '../utils/wine-searcher-url.util';
+
+/**
+ * 모호한 검색 결과에서 반환하는 최대 후보 수
+ */
+const MAX_CANDIDATES = 10;
+
+export interface SearchWineOptions {
+  /**
+   * 캐시를 무시하고 새로 크롤링합니다 (결과는 캐시에 다시 저장됩니다).
+   * @default false
+   */
+  bypassCache?: boolean;
+
+  /**
+   * 크롤링 단계마다 호출됩니다 (URL 생성, 요청 시작/완료, 파싱, 일치도 계산).
+   * 캐시에서 응답하거나 진행 중인 같은 검색에 합류한 경우에는 호출되지 않습니다.
+   */
+  onProgress?: (event: WineSearchProgressEvent) => void;
+}
 
 /**
  * SearchWineUseCase
@@ -17,81 +58,405 @@ export class SearchWineUseCase {
   constructor(
     @Inject('CrawlerPort') private readonly crawler: CrawlerPort,
     @Inject('ParserPort') private readonly parser: ParserPort,
+    @Inject('WineCachePort') private readonly cache: WineCachePort,
+    @Inject('WineRepositoryPort')
+    private readonly repository: WineRepositoryPort,
+    private readonly singleFlight: SingleFlightService,
+    private readonly matcher: WineMatcher,
+    private readonly confidenceScorer: WineConfidenceScorer,
   ) {}
 
   /**
    * 와인을 검색하고 정보를 반환합니다.
    *
    * @param request - 와인 검색 요청 DTO
+   * @param options - 검색 옵션
    * @returns 와인 검색 결과 DTO
    */
   async execute(
     request: WineSearchRequestDto,
+    options: SearchWineOptions = {},
   ): Promise<WineSearchResponseDto> {
     this.logger.log(
       `Searching wine: ${request.winery} ${request.variety} ${request.vintage}, ${request.region}`,
     );
 
-    // 1. Construct Wine-Searcher URL
-    const url = this.constructWineSearcherUrl(request);
-    this.logger.debug(`Wine-Searcher URL: ${url}`);
+    // 0. Serve from cache unless bypassed
+    const cacheKey = this.buildCacheKey(request);
+    if (!options.bypassCache) {
+      const cached = await this.cache.get<WineSearchResponseDto>(cacheKey);
+      if (cached) {
+        this.logger.debug(`Cache hit: ${cacheKey}`);
+        return {
+          ...cached.value,
+          source: {
+            ...cached.value.source,
+            cached: true,
+            cachedAt: cached.cachedAt.toISOString(),
+          },
+        };
+      }
+    }
 
-    // 2. Crawl HTML from Wine-Searcher
-    const html = await this.crawler.fetch(url, {
-      browser: 'chrome116',
-      timeout: 5000,
-    });
+    // Concurrent identical searches share a single crawl
+    return this.singleFlight.run(cacheKey, () =>
+      this.crawlAndCache(request, cacheKey, options.onProgress),
+    );
+  }
+
+  /**
+   * Wine-Searcher를 크롤링하고 결과를 캐시에 저장합니다.
+   */
+  private async crawlAndCache(
+    request: WineSearchRequestDto,
+    cacheKey: string,
+    onProgress: (event: WineSearchProgressEvent) => void = () => undefined,
+  ): Promise<WineSearchResponseDto> {
+    // 1. Construct Wine-Searcher search URL
+    const searchUrl = this.constructWineSearcherUrl(request);
+    this.logger.debug(`Wine-Searcher URL: ${searchUrl}`);
+    onProgress({ type: 'url-constructed', url: searchUrl });
+
+    // 2. Crawl HTML from Wine-Searcher (browser fingerprint is picked by rotation)
+    let attempts = 0;
+    const fetchHtml = async (url: string): Promise<string> => {
+      let used = 1;
+      onProgress({ type: 'fetch-started', url });
+      const html = await this.crawler.fetch(url, {
+        timeout: 5000,
+        onRetry: (attempt) => {
+          used = attempt + 1;
+        },
+      });
+      attempts += used;
+      onProgress({
+        type: 'fetched',
+        url,
+        bytes: Buffer.byteLength(html),
+        attempts: used,
+      });
+      return html;
+    };
+
+    const searchHtml = await fetchHtml(searchUrl);
+
+    // 3. Resolve a search results list to the canonical wine page
+    const page = await this.resolveWinePage(
+      request,
+      searchUrl,
+      searchHtml,
+      fetchHtml,
+    );
 
     this.logger.debug(
-      `Fetched ${html.length} bytes of HTML from Wine-Searcher`,
+      `Fetched ${page.html.length} bytes of HTML from Wine-Searcher (${attempts} attempt(s))`,
     );
 
-    // 3. Parse HTML to extract wine data
-    const wineData = await this.parser.parse(html, url);
+    // 4. Parse HTML to extract wine data
+    const pageData = await this.parser.parse(page.html, page.url);
+
+    // 5. Switch to the requested (or nearest allowed) vintage page if needed
+    const { wineData, vintage } = await this.resolveVintage(
+      request,
+      pageData,
+      fetchHtml,
+    );
 
     this.logger.log(
-      `Successfully parsed wine: ${wineData.wine.name.value}, ${wineData.ratings.length} ratings`,
+      `Successfully parsed wine: ${wineData.wine.name.value}, ${wineData.ratings.length} ratings, vintage ${vintage.actual ?? 'n/a'} (${vintage.status})`,
     );
+    onProgress({
+      type: 'parsed',
+      url: wineData.sourceUrl,
+      vintage,
+      ...this.mapWineData(wineData),
+    });
 
-    // 4. Convert domain model to DTO
-    const response = this.mapToResponseDto(wineData);
+    // 6. Make sure the page is the wine that was asked for
+    const match = this.confidenceScorer.score(
+      vintage.status === 'nearest'
+        ? { ...request, vintage: vintage.actual ?? request.vintage }
+        : request,
+      wineData.wine,
+    );
+    onProgress({ type: 'matched', match });
+    if (!this.confidenceScorer.isAcceptable(match)) {
+      throw new WineMismatchError(
+        `Parsed wine "${wineData.wine.name.value}" does not match ${request.winery} ${request.variety} ${request.vintage} (confidence ${match.confidence}): ${match.reasons.join('; ')}`,
+        wineData.sourceUrl,
+        match,
+      );
+    }
+
+    // 7. Convert domain model to DTO
+    const response = this.mapToResponseDto(wineData, vintage, match, attempts);
+
+    // 8. Store in cache for subsequent lookups
+    await this.cache.set(cacheKey, response);
+
+    // 9. Keep the wine, its ratings and price snapshot in the catalog
+    await this.recordInCatalog(wineData);
 
     return response;
   }
 
+  /**
+   * 크롤링한 와인을 카탈로그에 반영합니다.
+   * 카탈로그 저장에 실패해도 검색 결과는 그대로 반환합니다.
+   */
+  private async recordInCatalog(wineData: WineData): Promise<void> {
+    try {
+      const record = await this.repository.upsert(wineData);
+      this.logger.debug(
+        `Recorded ${record.id} in the wine catalog (${record.prices.length} price snapshot(s))`,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record ${wineData.wine.name.value} in the wine catalog: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * 검색 결과 목록이면 요청과 가장 일치하는 후보의 와인 페이지를 크롤링합니다.
+   * 검색 URL이 곧바로 와인 페이지를 반환한 경우에는 그대로 사용합니다.
+   *
+   * @throws NotFoundError 검색 결과가 없는 경우
+   * @throws AmbiguousWineError 명확하게 일치하는 후보가 없는 경우
+   */
+  private async resolveWinePage(
+    request: WineSearchRequestDto,
+    searchUrl: string,
+    searchHtml: string,
+    fetchHtml: (url: string) => Promise<string>,
+  ): Promise<{ html: string; url: string }> {
+    const candidates = await this.parser.parseSearchResults(
+      searchHtml,
+      searchUrl,
+    );
+    if (candidates === null) {
+      return { html: searchHtml, url: searchUrl };
+    }
+
+    if (candidates.length === 0) {
+      throw new NotFoundError(
+        `No Wine-Searcher results for ${searchUrl}`,
+        searchUrl,
+      );
+    }
+
+    const { best, candidates: ranked } = this.matcher.match(
+      request,
+      candidates,
+    );
+    if (!best) {
+      throw new AmbiguousWineError(
+        `No clear match among ${ranked.length} Wine-Searcher results for ${request.winery} ${request.variety} ${request.vintage}`,
+        searchUrl,
+        ranked.slice(0, MAX_CANDIDATES),
+      );
+    }
+
+    this.logger.debug(
+      `Matched "${best.name}" (score ${best.score}) among ${ranked.length} search results`,
+    );
+
+    return { html: await fetchHtml(best.url), url: best.url };
+  }
+
+  /**
+   * 파싱한 페이지가 요청한 빈티지가 아니면 페이지에 링크된 요청 빈티지 페이지를,
+   * 그마저 없고 allowNearestVintage이면 가장 가까운 빈티지 페이지를 크롤링합니다.
+   *
+   * @throws VintageMismatchError 요청한 빈티지 페이지가 없거나 링크된 페이지가 다른 빈티지이고 allowNearestVintage가 아닌 경우
+   */
+  private async resolveVintage(
+    request: WineSearchRequestDto,
+    wineData: WineData,
+    fetchHtml: (url: string) => Promise<string>,
+  ): Promise<{ wineData: WineData; vintage: VintageMatchDto }> {
+    const requested = Vintage.parse(request.vintage);
+    const actual = wineData.wine.vintage;
+    const describe = (resolved: Vintage | null): VintageMatchDto => ({
+      requested: requested.value,
+      actual: resolved?.value ?? null,
+      status: this.vintageStatus(requested, resolved),
+    });
+
+    if (actual === null || actual.equals(requested)) {
+      return { wineData, vintage: describe(actual) };
+    }
+
+    const links = wineData.availableVintages;
+    const available = [
+      ...new Set([
+        ...(actual.year !== null ? [actual.year] : []),
+        ...links.map((link) => link.vintage),
+      ]),
+    ].sort((a, b) => b - a);
+
+    // Linked pages are single years, so NV and ranges can only keep the current page
+    const target =
+      request.allowNearestVintage && requested.year !== null
+        ? this.nearestVintage(requested.year, available)
+        : requested.year;
+    const link = links.find((candidate) => candidate.vintage === target);
+
+    if (!link) {
+      if (
+        request.allowNearestVintage &&
+        (target === null || target === actual.year)
+      ) {
+        return { wineData, vintage: describe(actual) };
+      }
+
+      throw new VintageMismatchError(
+        `No ${requested} vintage of ${wineData.wine.name.value} on Wine-Searcher, page is for ${actual} (available: ${available.join(', ')})`,
+        wineData.sourceUrl,
+        requested.value,
+        actual.value,
+        available,
+      );
+    }
+
+    this.logger.debug(
+      `Page is for vintage ${actual}, following vintage ${link.vintage}: ${link.url}`,
+    );
+
+    const vintageData = await this.parser.parse(
+      await fetchHtml(link.url),
+      link.url,
+    );
+    const followed = vintageData.wine.vintage;
+
+    if (
+      !request.allowNearestVintage &&
+      followed !== null &&
+      !followed.equals(requested)
+    ) {
+      throw new VintageMismatchError(
+        `No ${requested} vintage of ${wineData.wine.name.value} on Wine-Searcher, its ${link.vintage} link leads to a page for ${followed}`,
+        link.url,
+        requested.value,
+        followed.value,
+        available,
+      );
+    }
+
+    return {
+      wineData: vintageData,
+      vintage: describe(vintageData.wine.vintage),
+    };
+  }
+
+  private vintageStatus(
+    requested: Vintage,
+    actual: Vintage | null,
+  ): VintageStatus {
+    if (actual === null) {
+      return 'missing';
+    }
+
+    return actual.equals(requested) ? 'exact' : 'nearest';
+  }
+
+  /**
+   * 요청한 빈티지와 가장 가까운 빈티지를 반환합니다 (차이가 같으면 오래된 빈티지).
+   */
+  private nearestVintage(
+    requested: number,
+    available: number[],
+  ): number | null {
+    return available.reduce<number | null>((nearest, vintage) => {
+      if (nearest === null) {
+        return vintage;
+      }
+
+      const distance = Math.abs(vintage - requested);
+      const best = Math.abs(nearest - requested);
+      return distance < best || (distance === best && vintage < nearest)
+        ? vintage
+        : nearest;
+    }, null);
+  }
+
+  /**
+   * 정규화된 검색 조건으로 캐시 키를 생성합니다.
+   * @example "wine:napa valley|opus one|cabernet sauvignon|2018"
+   */
+  private buildCacheKey(request: WineSearchRequestDto): string {
+    const normalize = (value: string) =>
+      value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+    return `wine:${[
+      normalize(request.region),
+      normalize(request.winery),
+      normalize(request.variety),
+      Vintage.parse(request.vintage).toString(),
+      ...(request.allowNearestVintage ? ['nearest'] : []),
+    ].join('|')}`;
+  }
+
   /**
    * Wine-Searcher URL을 생성합니다.
+   * 논빈티지와 빈티지 범위는 검색어에 포함하지 않습니다.
    */
   private constructWineSearcherUrl(request: WineSearchRequestDto): string {
-    // Wine-Searcher URL format:
-    // https://www.wine-searcher.com/find/{winery}+{variety}+{vintage}+{region}
-    const query = [
+    return buildWineSearcherSearchUrl([
       request.winery,
       request.variety,
-      request.vintage.toString(),
+      Vintage.parse(request.vintage).year,
       request.region,
-    ]
-      .join(' ')
-      .toLowerCase()
-      .replace(/\s+/g, '+')
-      .replace(/[^a-z0-9+]/g, ''); // Remove special characters
-
-    return `https://www.wine-searcher.com/find/${query}`;
+    ]);
   }
 
   /**
    * Domain model을 Response DTO로 변환합니다.
    */
-  private mapToResponseDto(wineData: any): WineSearchResponseDto {
+  private mapToResponseDto(
+    wineData: WineData,
+    vintage: VintageMatchDto,
+    match: WineConfidence,
+    attempts: number,
+  ): WineSearchResponseDto {
+    const { wine, ratings, price } = this.mapWineData(wineData);
+
+    return {
+      wine,
+      vintage,
+      match: {
+        confidence: match.confidence,
+        reasons: match.reasons,
+      },
+      ratings,
+      price,
+      source: {
+        site: 'Wine-Searcher',
+        url: wineData.sourceUrl,
+        crawledAt: wineData.crawledAt.toISOString(),
+        attempts,
+        cached: false,
+        cachedAt: null,
+      },
+    };
+  }
+
+  /**
+   * 파싱된 와인, 평점, 가격을 Response DTO 형태로 변환합니다.
+   */
+  private mapWineData(
+    wineData: WineData,
+  ): Pick<WineSearchResponseDto, 'wine' | 'ratings' | 'price'> {
     return {
       wine: {
+        id: WineId.fromWine(wineData.wine).value,
         name: wineData.wine.name.value,
         region: wineData.wine.region,
         winery: wineData.wine.winery,
         variety: wineData.wine.variety,
-        vintage: wineData.wine.vintage.value,
+        vintage: wineData.wine.vintage?.value ?? null,
       },
-      ratings: wineData.ratings.map((rating: any) => ({
+      ratings: wineData.ratings.map((rating) => ({
         source: rating.source,
         score: rating.score.value,
         critic: rating.critic,
@@ -105,11 +470,6 @@ export class SearchWineUseCase {
             updatedAt: wineData.price.updatedAt.toISOString(),
           }
         : null,
-      source: {
-        site: 'Wine-Searcher',
-        url: wineData.sourceUrl,
-        crawledAt: wineData.crawledAt.toISOString(),
-      },
     };
   }
 }
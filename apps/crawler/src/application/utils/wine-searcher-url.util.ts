@@ -0,0 +1,20 @@
+/**
+ * 검색어로 Wine-Searcher 검색 URL을 생성합니다. 비어 있는 검색어는 건너뜁니다.
+ *
+ * @example buildWineSearcherSearchUrl(['Opus One', 'Cabernet Sauvignon', 2018])
+ * // "https://www.wine-searcher.com/find/opus+one+cabernet+sauvignon+2018"
+ */
+export function buildWineSearcherSearchUrl(
+  terms: Array<string | number | null | undefined>,
+): string {
+  // Wine-Searcher URL format:
+  // https://www.wine-searcher.com/find/{winery}+{variety}+{vintage}+{region}
+  const query = terms
+    .filter((term) => term !== null && term !== undefined && term !== '')
+    .join(' ')
+    .toLowerCase()
+    .replace(/\s+/g, '+')
+    .replace(/[^a-z0-9+]/g, ''); // Remove special characters
+
+  return `https://www.wine-searcher.com/find/${query}`;
+}
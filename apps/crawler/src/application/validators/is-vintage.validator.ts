@@ -0,0 +1,38 @@
+import {
+  registerDecorator,
+  ValidationArguments,
+  ValidationOptions,
+} from 'class-validator';
+import { Vintage } from '../../domain/value-objects/vintage.vo';
+
+/**
+ * 빈티지 연도(1900 ~ 현재년도+5), 논빈티지("NV"), 연도 범위("1990-2010")를 허용합니다.
+ * 허용 규칙은 Vintage.parse와 같습니다.
+ */
+export function IsVintage(validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string): void => {
+    registerDecorator({
+      name: 'isVintage',
+      target: object.constructor,
+      propertyName,
+      options: validationOptions,
+      validator: {
+        validate(value: unknown): boolean {
+          if (typeof value !== 'number' && typeof value !== 'string') {
+            return false;
+          }
+
+          try {
+            Vintage.parse(value);
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        defaultMessage(args: ValidationArguments): string {
+          return `${args.property} must be a year between 1900 and ${new Date().getFullYear() + 5}, "NV" or a range such as "1990-2010"`;
+        },
+      },
+    });
+  };
+}
@@ -8,7 +8,13 @@ describe('CrawlerController', () => {
   beforeEach(async () => {
     const app: TestingModule = await Test.createTestingModule({
       controllers: [CrawlerController],
-      providers: [CrawlerService],
+      providers: [
+        CrawlerService,
+        {
+          provide: 'CrawlerPort',
+          useValue: { fetch: jest.fn(), fetchPage: jest.fn() },
+        },
+      ],
     }).compile();
 
     crawlerController = app.get<CrawlerController>(CrawlerController);
@@ -7,7 +7,8 @@ import {
   Get,
 } from '@nestjs/common';
 import { CrawlerService } from './crawler.service';
-import { CrawlRequest, CrawlResponse } from '@winescope/contracts/crawler';
+import { CrawlResponse } from '@winescope/contracts/crawler';
+import { CrawlRequestDto } from './application/dto/crawl-request.dto';
 
 @Controller('crawl')
 export class CrawlerController {
@@ -15,7 +16,7 @@ export class CrawlerController {
 
   @Post()
   @HttpCode(HttpStatus.OK)
-  async crawl(@Body() request: CrawlRequest): Promise<CrawlResponse> {
+  async crawl(@Body() request: CrawlRequestDto): Promise<CrawlResponse> {
     return this.crawlerService.crawl(request);
   }
 
@@ -3,6 +3,7 @@ import { ConfigModule } from '@nestjs/config';
 import { CrawlerController } from './crawler.controller';
 import { CrawlerService } from './crawler.service';
 import { WineModule } from './presentation/wine.module';
+import { crawlerConfig } from './config/crawler.config';
 
 @Module({
   imports: [
@@ -10,6 +11,7 @@ import { WineModule } from './presentation/wine.module';
     ConfigModule.forRoot({
       isGlobal: true,
       envFilePath: '.env',
+      load: [crawlerConfig],
     }),
 
     // Feature modules
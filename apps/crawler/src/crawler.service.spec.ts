@@ -0,0 +1,78 @@
+import { CrawlerService } from './crawler.service';
+import { CrawlerPort, FetchResult } from './domain/ports/crawler.port';
+import { TimeoutError } from './domain/errors/crawler.errors';
+
+describe('CrawlerService', () => {
+  let crawler: jest.Mocked<CrawlerPort>;
+  let service: CrawlerService;
+
+  const page: FetchResult = {
+    body: '<html>moved</html>',
+    statusCode: 200,
+    finalUrl: 'https://example.com/final',
+    headers: { 'content-type': 'text/html' },
+    redirects: [{ statusCode: 301, location: 'https://example.com/final' }],
+    bytes: 18,
+    durationMs: 42,
+  };
+
+  beforeEach(() => {
+    crawler = {
+      fetch: jest.fn(),
+      fetchPage: jest.fn().mockResolvedValue(page),
+    };
+    service = new CrawlerService(crawler);
+  });
+
+  it('should report upstream status, headers, redirects and bytes', async () => {
+    const result = await service.crawl({ url: 'https://example.com' });
+
+    expect(result).toMatchObject({
+      html: '<html>moved</html>',
+      statusCode: 200,
+      headers: { 'content-type': 'text/html' },
+      finalUrl: 'https://example.com/final',
+      redirects: [{ statusCode: 301, location: 'https://example.com/final' }],
+      bytes: 18,
+    });
+    expect(result.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should request error statuses as-is and leave the browser to rotation', async () => {
+    await service.crawl({
+      url: 'https://example.com',
+      headers: { Accept: 'text/html' },
+    });
+
+    expect(crawler.fetchPage).toHaveBeenCalledWith('https://example.com', {
+      browser: undefined,
+      timeout: 5000,
+      headers: { Accept: 'text/html' },
+      userAgent: undefined,
+      sessionId: undefined,
+      acceptAnyStatus: true,
+    });
+  });
+
+  it('should pass through non-2xx upstream responses', async () => {
+    crawler.fetchPage.mockResolvedValue({
+      ...page,
+      statusCode: 404,
+      redirects: [],
+    });
+
+    const result = await service.crawl({ url: 'https://example.com/missing' });
+
+    expect(result.statusCode).toBe(404);
+  });
+
+  it('should propagate transport failures instead of faking a 500', async () => {
+    crawler.fetchPage.mockRejectedValue(
+      new TimeoutError('timed out', 'https://example.com', 5000),
+    );
+
+    await expect(service.crawl({ url: 'https://example.com' })).rejects.toThrow(
+      TimeoutError,
+    );
+  });
+});
@@ -1,82 +1,46 @@
-import { Injectable } from '@nestjs/common';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { Inject, Injectable } from '@nestjs/common';
 import {
   CrawlRequest,
   CrawlResponse,
   Crawler,
 } from '@winescope/contracts/crawler';
 import { CRAWLER_CONSTANTS } from '@winescope/common/constants';
-
-const execAsync = promisify(exec);
+import type { CrawlerPort } from './domain/ports/crawler.port';
 
 @Injectable()
 export class CrawlerService implements Crawler {
+  constructor(
+    @Inject('CrawlerPort')
+    private readonly crawler: CrawlerPort,
+  ) {}
+
+  /**
+   * Crawl a URL and report the upstream response as-is.
+   *
+   * 4xx/5xx responses are returned with their real status code; network
+   * failures and timeouts are thrown and mapped by the exception filter.
+   */
   async crawl(request: CrawlRequest): Promise<CrawlResponse> {
     const startTime = Date.now();
-    const browser = request.browser || CRAWLER_CONSTANTS.DEFAULT_BROWSER;
-    const timeout = request.timeout || CRAWLER_CONSTANTS.DEFAULT_TIMEOUT;
-
-    try {
-      // Build curl-impersonate command
-      const curlCommand = this.buildCurlCommand(request, browser, timeout);
-
-      // Execute curl-impersonate
-      const { stdout, stderr } = await execAsync(curlCommand, {
-        timeout,
-        maxBuffer: 10 * 1024 * 1024, // 10MB buffer
-      });
-
-      if (stderr) {
-        console.warn('curl-impersonate stderr:', stderr);
-      }
-
-      return {
-        html: stdout,
-        statusCode: 200, // TODO: Parse actual status code from curl output
-        headers: {}, // TODO: Parse headers from curl output
-        timestamp: new Date(),
-        duration: Date.now() - startTime,
-      };
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : 'Unknown error occurred';
-      return {
-        html: '',
-        statusCode: 500,
-        headers: {},
-        timestamp: new Date(),
-        duration: Date.now() - startTime,
-        error: errorMessage,
-      };
-    }
-  }
-
-  private buildCurlCommand(
-    request: CrawlRequest,
-    browser: string,
-    timeout: number,
-  ): string {
-    const curlBinary = `curl_${browser}`;
-    const escapedUrl = request.url.replace(/"/g, '\\"');
-
-    let command = `${curlBinary} -s -L "${escapedUrl}"`;
-
-    // Add timeout
-    command += ` --max-time ${Math.ceil(timeout / 1000)}`;
-
-    // Add custom headers
-    if (request.headers) {
-      Object.entries(request.headers).forEach(([key, value]) => {
-        command += ` -H "${key}: ${value}"`;
-      });
-    }
-
-    // Add custom user agent if provided
-    if (request.userAgent) {
-      command += ` -A "${request.userAgent}"`;
-    }
 
-    return command;
+    const page = await this.crawler.fetchPage(request.url, {
+      browser: request.browser,
+      timeout: request.timeout || CRAWLER_CONSTANTS.DEFAULT_TIMEOUT,
+      headers: request.headers,
+      userAgent: request.userAgent,
+      sessionId: request.sessionId,
+      acceptAnyStatus: true,
+    });
+
+    return {
+      html: page.body,
+      statusCode: page.statusCode,
+      headers: page.headers,
+      finalUrl: page.finalUrl,
+      redirects: page.redirects,
+      bytes: page.bytes,
+      timestamp: new Date(),
+      duration: Date.now() - startTime,
+    };
   }
 }
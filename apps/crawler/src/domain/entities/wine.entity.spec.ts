@@ -17,7 +17,7 @@ describe('Wine Entity', () => {
       expect(wine.region).toBe('Napa Valley');
       expect(wine.winery).toBe('Opus One Winery');
       expect(wine.variety).toBe('Cabernet Sauvignon');
-      expect(wine.vintage.value).toBe(2018);
+      expect(wine.vintage!.value).toBe(2018);
     });
 
     it('should throw error for empty region', () => {
@@ -88,6 +88,36 @@ describe('Wine Entity', () => {
         'Opus One 2018, Napa Valley, Cabernet Sauvignon',
       );
     });
+
+    it('should omit the vintage when the wine has none', () => {
+      const wine = new Wine(
+        WineName.create('Opus One'),
+        'Napa Valley',
+        'Opus One Winery',
+        'Cabernet Sauvignon',
+        null,
+      );
+
+      expect(wine.getFullDescription()).toBe(
+        'Opus One, Napa Valley, Cabernet Sauvignon',
+      );
+      expect(wine.toJSON().vintage).toBeNull();
+    });
+
+    it('should describe non-vintage wines as NV', () => {
+      const wine = new Wine(
+        WineName.create('Krug Grande Cuvee'),
+        'Champagne',
+        'Krug',
+        'Champagne Blend',
+        Vintage.nonVintage(),
+      );
+
+      expect(wine.getFullDescription()).toBe(
+        'Krug Grande Cuvee NV, Champagne, Champagne Blend',
+      );
+      expect(wine.toJSON().vintage).toBe('NV');
+    });
   });
 
   describe('isFromRegion', () => {
@@ -1,5 +1,5 @@
 import { WineName } from '../value-objects/wine-name.vo';
-import { Vintage } from '../value-objects/vintage.vo';
+import { Vintage, VintageValue } from '../value-objects/vintage.vo';
 
 /**
  * Wine Entity
@@ -13,7 +13,7 @@ export class Wine {
     public readonly region: string,
     public readonly winery: string,
     public readonly variety: string,
-    public readonly vintage: Vintage,
+    public readonly vintage: Vintage | null, // null when the page lists no vintage
   ) {
     this.validate();
   }
@@ -45,11 +45,12 @@ export class Wine {
   }
 
   /**
-   * 와인의 전체 설명을 반환합니다.
+   * 와인의 전체 설명을 반환합니다 (빈티지가 없으면 생략).
    * @example "Opus One 2018, Napa Valley, Cabernet Sauvignon"
    */
   getFullDescription(): string {
-    return `${this.name.value} ${this.vintage.value}, ${this.region}, ${this.variety}`;
+    const vintage = this.vintage ? ` ${this.vintage.value}` : '';
+    return `${this.name.value}${vintage}, ${this.region}, ${this.variety}`;
   }
 
   /**
@@ -71,14 +72,14 @@ export class Wine {
     region: string;
     winery: string;
     variety: string;
-    vintage: number;
+    vintage: VintageValue | null;
   } {
     return {
       name: this.name.value,
       region: this.region,
       winery: this.winery,
       variety: this.variety,
-      vintage: this.vintage.value,
+      vintage: this.vintage?.value ?? null,
     };
   }
 }
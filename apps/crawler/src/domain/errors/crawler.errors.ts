@@ -1,3 +1,7 @@
+import type { ScoredWineCandidate } from '../services/wine-matcher';
+import type { WineConfidence } from '../services/wine-confidence-scorer';
+import type { VintageValue } from '../value-objects/vintage.vo';
+
 /**
  * Domain Errors for Crawler
  *
@@ -11,6 +15,55 @@ export class NetworkError extends Error {
   }
 }
 
+/**
+ * 대상 사이트가 4xx/5xx HTTP 상태 코드로 응답한 경우 발생합니다.
+ */
+export class HttpStatusError extends NetworkError {
+  constructor(
+    message: string,
+    url: string,
+    public readonly statusCode: number,
+  ) {
+    super(message, url);
+    this.name = 'HttpStatusError';
+  }
+}
+
+/**
+ * 대상 페이지가 존재하지 않는 경우(404) 발생합니다.
+ */
+export class NotFoundError extends HttpStatusError {
+  constructor(message: string, url: string) {
+    super(message, url, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * 대상 사이트가 접근을 거부한 경우(403) 발생합니다.
+ */
+export class AccessDeniedError extends HttpStatusError {
+  constructor(message: string, url: string) {
+    super(message, url, 403);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+/**
+ * 대상 사이트가 요청을 제한(429)한 경우 발생합니다.
+ * Retry-After 값이 있으면 retryAfterMs로 전달됩니다.
+ */
+export class RateLimitedError extends HttpStatusError {
+  constructor(
+    message: string,
+    url: string,
+    public readonly retryAfterMs?: number,
+  ) {
+    super(message, url, 429);
+    this.name = 'RateLimitedError';
+  }
+}
+
 export class TimeoutError extends Error {
   constructor(
     message: string,
@@ -29,9 +82,125 @@ export class ParsingError extends Error {
   }
 }
 
+/**
+ * 크롤러 실행 환경이 설정과 맞지 않는 경우 발생합니다 (예: curl-impersonate 바이너리 누락).
+ * 요청마다 같은 결과가 나오므로 재시도하거나 프록시 실패로 기록하지 않습니다.
+ */
+export class CrawlerConfigurationError extends Error {
+  constructor(
+    message: string,
+    public readonly setting: string,
+  ) {
+    super(message);
+    this.name = 'CrawlerConfigurationError';
+  }
+}
+
 export class ValidationError extends Error {
   constructor(message: string, public readonly field: string) {
     super(message);
     this.name = 'ValidationError';
   }
 }
+
+/**
+ * 호스트별 요청 대기열이 가득 차 더 이상 크롤링 요청을 받을 수 없는 경우 발생합니다.
+ */
+export class CrawlerSaturatedError extends Error {
+  constructor(
+    message: string,
+    public readonly host: string,
+    public readonly queueDepth: number,
+  ) {
+    super(message);
+    this.name = 'CrawlerSaturatedError';
+  }
+}
+
+/**
+ * 봇 차단 솔루션 제공자
+ */
+export type BlockVendor =
+  | 'cloudflare'
+  | 'perimeterx'
+  | 'datadome'
+  | 'akamai'
+  | 'captcha';
+
+/**
+ * 대상 사이트가 실제 페이지 대신 봇 챌린지/캡차 페이지를 반환한 경우 발생합니다.
+ * HTTP 상태 코드와 무관하게(200 포함) 응답 내용으로 판별합니다.
+ */
+export class BlockedError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+    public readonly vendor: BlockVendor,
+    public readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = 'BlockedError';
+  }
+}
+
+/**
+ * robots.txt가 크롤링을 허용하지 않는 URL을 요청한 경우 발생합니다.
+ * robots.txt를 가져올 수 없는(5xx, 네트워크 오류) 경우에도 전체 금지로 간주합니다.
+ */
+export class RobotsDisallowedError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+    public readonly userAgent: string,
+  ) {
+    super(message);
+    this.name = 'RobotsDisallowedError';
+  }
+}
+
+/**
+ * 검색 결과에서 요청과 명확하게 일치하는 와인을 고를 수 없는 경우 발생합니다.
+ * 점수순 후보 목록을 함께 전달하여 클라이언트가 선택할 수 있도록 합니다.
+ */
+export class AmbiguousWineError extends Error {
+  constructor(
+    message: string,
+    public readonly searchUrl: string,
+    public readonly candidates: ScoredWineCandidate[],
+  ) {
+    super(message);
+    this.name = 'AmbiguousWineError';
+  }
+}
+
+/**
+ * 크롤링한 와인 페이지가 요청한 와인과 충분히 일치하지 않는 경우 발생합니다.
+ * 일치 신뢰도와 불일치 사유를 함께 전달합니다.
+ */
+export class WineMismatchError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+    public readonly match: WineConfidence,
+  ) {
+    super(message);
+    this.name = 'WineMismatchError';
+  }
+}
+
+/**
+ * 요청한 빈티지의 페이지를 찾을 수 없는 경우 발생합니다 (allowNearestVintage가 아닌 경우).
+ * 크롤링한 페이지의 빈티지와 링크된 다른 빈티지 목록을 함께 전달합니다.
+ */
+export class VintageMismatchError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+    public readonly requestedVintage: VintageValue,
+    public readonly actualVintage: VintageValue,
+    public readonly availableVintages: number[],
+  ) {
+    super(message);
+    this.name = 'VintageMismatchError';
+  }
+}
@@ -1,2 +1,6 @@
 export * from './crawler.port';
 export * from './parser.port';
+export * from './wine-cache.port';
+export * from './search-job-store.port';
+export * from './webhook.port';
+export * from './wine-repository.port';
@@ -11,10 +11,48 @@ export interface WineData {
   wine: Wine;
   ratings: Rating[];
   price: Price | null;
+  availableVintages: VintageLink[]; // other vintages linked from the page, newest first
   sourceUrl: string;
   crawledAt: Date;
 }
 
+/**
+ * VintageLink Interface
+ *
+ * 와인 페이지에서 링크된 다른 빈티지 페이지입니다.
+ */
+export interface VintageLink {
+  vintage: number;
+  url: string; // absolute URL of the vintage page
+}
+
+/**
+ * WineSearchCandidate Interface
+ *
+ * 검색 결과 목록에서 추출한 와인 후보입니다.
+ */
+export interface WineSearchCandidate {
+  name: string;
+  url: string; // absolute URL of the wine page
+  vintage: number | null; // null when the listing is not vintage specific
+  vintages: number[]; // vintages listed for the wine, newest first
+  producer: string | null;
+  region: string | null;
+}
+
+/**
+ * VintageChartEntry Interface
+ *
+ * 빈티지 차트에서 추출한 빈티지별 시세, 평점, 판매 현황입니다.
+ */
+export interface VintageChartEntry {
+  wine: Wine; // the charted wine with this row's vintage
+  price: Price | null; // average price across current offers
+  rating: Rating | null; // aggregated critic score
+  offers: number; // number of current offers, 0 when not available
+  url: string | null; // absolute URL of the vintage page
+}
+
 /**
  * ParserPort Interface
  *
@@ -34,4 +72,29 @@ export interface ParserPort {
    * @throws ParsingError 파싱 실패 시
    */
   parse(html: string, sourceUrl: string): Promise<WineData>;
+
+  /**
+   * 검색 결과 목록 페이지에서 와인 후보를 추출합니다.
+   *
+   * @param html - 파싱할 HTML 문자열
+   * @param sourceUrl - HTML의 원본 URL (후보 링크의 기준 URL)
+   * @returns 와인 후보 목록 (결과가 없으면 빈 배열), 검색 결과 페이지가 아니면 null
+   */
+  parseSearchResults(
+    html: string,
+    sourceUrl: string,
+  ): Promise<WineSearchCandidate[] | null>;
+
+  /**
+   * 와인 페이지의 빈티지 차트에서 빈티지별 시세와 평점을 추출합니다.
+   *
+   * @param html - 파싱할 HTML 문자열
+   * @param sourceUrl - HTML의 원본 URL (빈티지 링크의 기준 URL)
+   * @returns 빈티지별 항목 (최신 빈티지 순), 빈티지 차트가 없으면 null
+   * @throws ParsingError 와인 정보를 파싱할 수 없는 경우
+   */
+  parseVintageChart(
+    html: string,
+    sourceUrl: string,
+  ): Promise<VintageChartEntry[] | null>;
 }
@@ -0,0 +1,60 @@
+import type { WebhookDeliveryAttempt } from './webhook.port';
+
+/**
+ * SearchJobStorePort Interface
+ *
+ * 비동기 와인 검색 작업의 상태를 저장하기 위한 포트 인터페이스입니다.
+ * 인프라 계층의 InMemorySearchJobStoreAdapter가 이 인터페이스를 구현하며,
+ * Redis나 SQLite 같은 영속 저장소 어댑터로 교체할 수 있습니다.
+ *
+ * @remarks
+ * NestJS 컨벤션을 따라 I prefix를 사용하지 않습니다.
+ */
+
+/**
+ * 검색 작업 상태
+ * - pending: 대기열에서 실행을 기다리는 중
+ * - running: 크롤링 중
+ * - succeeded: 결과 저장됨
+ * - failed: 에러 저장됨
+ */
+export type SearchJobStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+export interface SearchJob<TRequest = unknown, TResult = unknown> {
+  id: string;
+  status: SearchJobStatus;
+  request: TRequest;
+  result: TResult | null; // set when succeeded
+  error: SearchJobError | null; // set when failed
+  callbackUrl: string | null; // notified when the job finishes
+  deliveries: WebhookDeliveryAttempt[]; // webhook delivery log, oldest first
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+export interface SearchJobError {
+  statusCode: number; // status the synchronous search would respond with
+  message: string;
+  error: string;
+  details: Record<string, unknown>;
+}
+
+export interface SearchJobStorePort {
+  /**
+   * 작업을 저장합니다 (같은 id가 있으면 덮어씁니다).
+   *
+   * @param job - 저장할 작업 (request, result는 JSON 직렬화 가능해야 함)
+   */
+  save(job: SearchJob): Promise<void>;
+
+  /**
+   * 작업을 조회합니다.
+   *
+   * @param id - 작업 id
+   * @returns 작업, 없거나 보관 기간이 지난 경우 null
+   */
+  get<TRequest, TResult>(
+    id: string,
+  ): Promise<SearchJob<TRequest, TResult> | null>;
+}
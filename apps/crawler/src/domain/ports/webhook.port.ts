@@ -0,0 +1,57 @@
+/**
+ * WebhookPort Interface
+ *
+ * 검색 작업 완료 알림을 콜백 URL로 전송하기 위한 포트 인터페이스입니다.
+ * 인프라 계층의 HttpWebhookAdapter가 이 인터페이스를 구현합니다.
+ *
+ * @remarks
+ * NestJS 컨벤션을 따라 I prefix를 사용하지 않습니다.
+ */
+
+/**
+ * 웹훅 전송 시도 한 번의 기록
+ */
+export interface WebhookDeliveryAttempt {
+  attempt: number; // 1-based
+  event: string; // e.g. "search.succeeded"
+  attemptedAt: Date;
+  statusCode: number | null; // null when no response was received
+  error: string | null; // transport error or non-2xx status description
+  succeeded: boolean;
+}
+
+/**
+ * 연결해도 되는 IP 주소인지 판별합니다.
+ */
+export type WebhookAddressFilter = (address: string) => boolean;
+
+export interface WebhookPort {
+  /**
+   * JSON 본문을 콜백 URL로 POST합니다.
+   *
+   * @param url - 콜백 URL
+   * @param body - 직렬화된 JSON 본문
+   * @param headers - 추가 요청 헤더 (서명 등)
+   * @param timeoutMs - 응답 대기 시간 (밀리초)
+   * @param allowAddress - 연결 시점에 조회한 주소 검사 (생략하면 검사하지 않음)
+   * @returns 응답 상태 코드
+   * @throws TimeoutError 시간 초과 시
+   * @throws NetworkError 연결 실패 또는 허용하지 않는 주소로 해석된 경우
+   */
+  post(
+    url: string,
+    body: string,
+    headers: Record<string, string>,
+    timeoutMs: number,
+    allowAddress?: WebhookAddressFilter,
+  ): Promise<number>;
+
+  /**
+   * 콜백 호스트의 IP 주소를 조회합니다.
+   *
+   * @param hostname - 호스트 이름 또는 IP 리터럴
+   * @returns 호스트가 가리키는 모든 IPv4/IPv6 주소
+   * @throws NetworkError 조회 실패 시
+   */
+  resolve(hostname: string): Promise<string[]>;
+}
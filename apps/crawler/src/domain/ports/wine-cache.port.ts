@@ -0,0 +1,55 @@
+/**
+ * WineCachePort Interface
+ *
+ * 와인 검색 결과 캐싱을 위한 포트 인터페이스입니다.
+ * 인프라 계층의 InMemoryWineCacheAdapter, FileWineCacheAdapter가 이 인터페이스를 구현합니다.
+ *
+ * @remarks
+ * NestJS 컨벤션을 따라 I prefix를 사용하지 않습니다.
+ */
+
+export interface CacheEntry<T> {
+  /**
+   * 캐시된 값
+   */
+  value: T;
+
+  /**
+   * 캐시에 저장된 시각
+   */
+  cachedAt: Date;
+
+  /**
+   * 캐시 만료 시각
+   */
+  expiresAt: Date;
+}
+
+export interface WineCachePort {
+  /**
+   * 캐시된 값을 조회합니다.
+   *
+   * @param key - 캐시 키
+   * @returns 캐시 엔트리, 없거나 만료된 경우 null
+   */
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+
+  /**
+   * 값을 캐시에 저장합니다.
+   *
+   * @param key - 캐시 키
+   * @param value - 저장할 값 (JSON 직렬화 가능해야 함)
+   * @param ttlMs - 만료 시간 (밀리초), 생략 시 어댑터 기본값 사용
+   */
+  set<T>(key: string, value: T, ttlMs?: number): Promise<void>;
+
+  /**
+   * 캐시 엔트리를 삭제합니다.
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * 모든 캐시 엔트리를 삭제합니다.
+   */
+  clear(): Promise<void>;
+}
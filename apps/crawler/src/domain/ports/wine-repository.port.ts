@@ -0,0 +1,68 @@
+import type { Wine } from '../entities/wine.entity';
+import type { Rating } from '../entities/rating.entity';
+import type { Price } from '../entities/price.entity';
+import type { WineData } from './parser.port';
+
+/**
+ * WineRepositoryPort Interface
+ *
+ * 크롤링한 와인을 카탈로그에 저장하기 위한 포트 인터페이스입니다.
+ * 인프라 계층의 InMemoryWineRepositoryAdapter, FileWineRepositoryAdapter가 이 인터페이스를 구현합니다.
+ *
+ * @remarks
+ * NestJS 컨벤션을 따라 I prefix를 사용하지 않습니다.
+ */
+
+/**
+ * 한 번의 크롤링으로 얻은 와인 데이터
+ */
+export type WineObservation = Pick<
+  WineData,
+  'wine' | 'ratings' | 'price' | 'sourceUrl' | 'crawledAt'
+>;
+
+/**
+ * 빈티지 차트처럼 가격만 얻은 크롤링 데이터
+ */
+export type PriceObservation = Pick<
+  WineObservation,
+  'wine' | 'sourceUrl' | 'crawledAt'
+> & { price: Price };
+
+export interface WineRecord {
+  id: string; // WineId slug, e.g. "opus-one-2018"
+  wine: Wine;
+  ratings: Rating[]; // as of the latest crawl
+  prices: Price[]; // every distinct price snapshot, oldest first
+  sourceUrl: string; // latest Wine-Searcher page
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+export interface WineRepositoryPort {
+  /**
+   * 크롤링 결과를 카탈로그에 반영합니다.
+   * 와인 정보와 평점은 최신 값으로 바꾸고, 새 가격은 스냅샷으로 추가합니다.
+   *
+   * @param observation - 크롤링한 와인 데이터
+   * @returns 반영된 카탈로그 레코드
+   */
+  upsert(observation: WineObservation): Promise<WineRecord>;
+
+  /**
+   * 가격 스냅샷을 카탈로그에 추가합니다.
+   * 기존 레코드의 와인 정보와 평점은 그대로 두고, 레코드가 없으면 평점 없이 새로 만듭니다.
+   *
+   * @param observation - 크롤링한 가격
+   * @returns 반영된 카탈로그 레코드
+   */
+  recordPrice(observation: PriceObservation): Promise<WineRecord>;
+
+  /**
+   * 카탈로그 레코드를 조회합니다.
+   *
+   * @param id - WineId 슬러그
+   * @returns 레코드, 없는 경우 null
+   */
+  findById(id: string): Promise<WineRecord | null>;
+}
@@ -0,0 +1,95 @@
+import { PriceSeriesAggregator } from './price-series-aggregator';
+import { Price } from '../entities/price.entity';
+
+describe('PriceSeriesAggregator', () => {
+  const aggregator = new PriceSeriesAggregator();
+
+  const price = (average: number, updatedAt: string, currency = 'USD') =>
+    new Price(average, currency, null, new Date(updatedAt));
+
+  const prices = [
+    price(300, '2025-01-06T09:00:00Z'), // Monday
+    price(310, '2025-01-06T18:00:00Z'),
+    price(320, '2025-01-09T12:00:00Z'),
+    price(360, '2025-02-03T12:00:00Z'),
+    price(250, '2025-01-07T12:00:00Z', 'GBP'),
+  ];
+
+  it('should average snapshots per day', () => {
+    const [, usd] = aggregator.aggregate(prices, 'day');
+
+    expect(usd.currency).toBe('USD');
+    expect(usd.points).toEqual([
+      {
+        periodStart: new Date('2025-01-06T00:00:00Z'),
+        average: 305,
+        min: 300,
+        max: 310,
+        samples: 2,
+      },
+      {
+        periodStart: new Date('2025-01-09T00:00:00Z'),
+        average: 320,
+        min: 320,
+        max: 320,
+        samples: 1,
+      },
+      {
+        periodStart: new Date('2025-02-03T00:00:00Z'),
+        average: 360,
+        min: 360,
+        max: 360,
+        samples: 1,
+      },
+    ]);
+    expect(usd.min).toBe(300);
+    expect(usd.max).toBe(360);
+    expect(usd.changePercent).toBe(18.03);
+  });
+
+  it('should group weeks from Monday and months from the first day', () => {
+    const [, weekly] = aggregator.aggregate(
+      [...prices, price(330, '2025-01-12T23:00:00Z')], // Sunday
+      'week',
+    );
+    const [, monthly] = aggregator.aggregate(prices, 'month');
+
+    expect(
+      weekly.points.map((point) => [point.periodStart, point.samples]),
+    ).toEqual([
+      [new Date('2025-01-06T00:00:00Z'), 4],
+      [new Date('2025-02-03T00:00:00Z'), 1],
+    ]);
+    expect(monthly.points.map((point) => point.average)).toEqual([310, 360]);
+  });
+
+  it('should keep currencies in separate series', () => {
+    const series = aggregator.aggregate(prices, 'month');
+
+    expect(series.map((item) => item.currency)).toEqual(['GBP', 'USD']);
+    expect(series[0]).toMatchObject({
+      min: 250,
+      max: 250,
+      changePercent: null,
+    });
+  });
+
+  it('should only include snapshots within the range', () => {
+    const series = aggregator.aggregate(prices, 'day', {
+      from: new Date('2025-01-06T12:00:00Z'),
+      to: new Date('2025-01-09T12:00:00Z'),
+    });
+
+    expect(series.find((item) => item.currency === 'USD')!.points).toEqual([
+      expect.objectContaining({ average: 310, samples: 1 }),
+      expect.objectContaining({ average: 320, samples: 1 }),
+    ]);
+  });
+
+  it('should return no series without snapshots', () => {
+    expect(aggregator.aggregate([], 'day')).toEqual([]);
+    expect(
+      aggregator.aggregate(prices, 'day', { from: new Date('2026-01-01') }),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+import { Price } from '../entities/price.entity';
+
+/**
+ * 가격 시계열 집계 단위 (UTC 기준, 주는 월요일 시작)
+ */
+export const PRICE_INTERVALS = ['day', 'week', 'month'] as const;
+export type PriceInterval = (typeof PRICE_INTERVALS)[number];
+
+/**
+ * 집계 구간 하나의 가격 통계
+ */
+export interface PricePoint {
+  periodStart: Date;
+  average: number; // mean of the snapshot averages in the period
+  min: number;
+  max: number;
+  samples: number; // number of price snapshots in the period
+}
+
+/**
+ * 통화 하나의 가격 시계열
+ */
+export interface PriceSeries {
+  currency: string;
+  points: PricePoint[]; // oldest first
+  min: number;
+  max: number;
+  changePercent: number | null; // first to last period average, null with a single period
+}
+
+export interface PriceSeriesRange {
+  from?: Date; // inclusive
+  to?: Date; // inclusive
+}
+
+/**
+ * PriceSeriesAggregator
+ *
+ * 가격 스냅샷을 통화별 시계열로 묶어 구간별 평균, 최저, 최고 가격과 변동률을 계산합니다.
+ *
+ * @remarks
+ * 통화가 다른 가격은 환산하지 않고 별도 시계열로 나눕니다.
+ * 스냅샷 시각은 Price.updatedAt을 사용합니다.
+ */
+export class PriceSeriesAggregator {
+  /**
+   * 가격 스냅샷을 통화별 시계열로 집계합니다.
+   *
+   * @param prices - 가격 스냅샷
+   * @param interval - 집계 단위
+   * @param range - 집계할 기간 (생략하면 전체)
+   * @returns 통화 코드 순으로 정렬된 시계열, 기간 안에 스냅샷이 없는 통화는 제외
+   */
+  aggregate(
+    prices: Price[],
+    interval: PriceInterval,
+    range: PriceSeriesRange = {},
+  ): PriceSeries[] {
+    const byCurrency = new Map<string, Map<number, Price[]>>();
+
+    for (const price of prices) {
+      if (!this.isInRange(price.updatedAt, range)) {
+        continue;
+      }
+
+      const periods = byCurrency.get(price.currency) ?? new Map();
+      const periodStart = this.startOfPeriod(price.updatedAt, interval);
+      periods.set(periodStart, [...(periods.get(periodStart) ?? []), price]);
+      byCurrency.set(price.currency, periods);
+    }
+
+    return [...byCurrency.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([currency, periods]) => this.toSeries(currency, periods));
+  }
+
+  private toSeries(
+    currency: string,
+    periods: Map<number, Price[]>,
+  ): PriceSeries {
+    const points = [...periods.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([periodStart, snapshots]) => {
+        const averages = snapshots.map((snapshot) => snapshot.average);
+        return {
+          periodStart: new Date(periodStart),
+          average: round(
+            averages.reduce((sum, value) => sum + value, 0) / averages.length,
+          ),
+          min: Math.min(...averages),
+          max: Math.max(...averages),
+          samples: snapshots.length,
+        };
+      });
+
+    const first = points[0].average;
+    const last = points[points.length - 1].average;
+
+    return {
+      currency,
+      points,
+      min: Math.min(...points.map((point) => point.min)),
+      max: Math.max(...points.map((point) => point.max)),
+      changePercent:
+        points.length > 1 && first > 0
+          ? round(((last - first) / first) * 100)
+          : null,
+    };
+  }
+
+  private isInRange(date: Date, range: PriceSeriesRange): boolean {
+    return (
+      (!range.from || date >= range.from) && (!range.to || date <= range.to)
+    );
+  }
+
+  /**
+   * 시각이 속한 집계 구간의 시작 시각 (UTC, 밀리초)
+   */
+  private startOfPeriod(date: Date, interval: PriceInterval): number {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+
+    switch (interval) {
+      case 'day':
+        return Date.UTC(year, month, day);
+      case 'week':
+        // getUTCDay() is 0 for Sunday; weeks start on Monday
+        return Date.UTC(year, month, day - ((date.getUTCDay() + 6) % 7));
+      case 'month':
+        return Date.UTC(year, month, 1);
+    }
+  }
+}
+
+// Prices and percentages are reported to two decimals
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
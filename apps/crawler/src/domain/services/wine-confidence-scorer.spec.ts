@@ -0,0 +1,121 @@
+import { WineConfidenceScorer } from './wine-confidence-scorer';
+import { Wine } from '../entities/wine.entity';
+import { WineName } from '../value-objects/wine-name.vo';
+import { Vintage } from '../value-objects/vintage.vo';
+
+describe('WineConfidenceScorer', () => {
+  const scorer = new WineConfidenceScorer();
+  const query = {
+    winery: 'Opus One',
+    variety: 'Cabernet Sauvignon',
+    vintage: 2018,
+    region: 'Napa Valley',
+  };
+
+  const wine = (
+    overrides: Partial<{
+      name: string;
+      region: string;
+      winery: string;
+      variety: string;
+      vintage: number | null;
+    }> = {},
+  ): Wine => {
+    const fields = {
+      name: 'Opus One 2018',
+      region: 'Napa Valley, California',
+      winery: 'Opus One Winery',
+      variety: 'Cabernet Sauvignon',
+      vintage: 2018,
+      ...overrides,
+    };
+    return new Wine(
+      WineName.create(fields.name),
+      fields.region,
+      fields.winery,
+      fields.variety,
+      fields.vintage !== null ? Vintage.create(fields.vintage) : null,
+    );
+  };
+
+  it('should be fully confident when every field matches', () => {
+    expect(scorer.score(query, wine())).toEqual({
+      confidence: 1,
+      reasons: [],
+    });
+  });
+
+  it('should report a different vintage', () => {
+    const result = scorer.score(query, wine({ vintage: 2017 }));
+
+    expect(result.confidence).toBe(0.75);
+    expect(result.reasons).toEqual(['vintage: requested 2018, found 2017']);
+  });
+
+  it('should report a different winery and unrequested name words', () => {
+    const result = scorer.score(
+      query,
+      wine({ name: 'Ridge Monte Bello', winery: 'Ridge Vineyards' }),
+    );
+
+    expect(result.confidence).toBeLessThan(0.6);
+    expect(result.reasons).toEqual([
+      'winery: requested "Opus One", found "Ridge Vineyards"',
+      'name: "Ridge Monte Bello" includes words not in the request (ridge, monte, bello)',
+    ]);
+  });
+
+  it('should not count a missing vintage against the wine', () => {
+    const result = scorer.score(query, wine({ vintage: null }));
+
+    expect(result).toEqual({
+      confidence: 1,
+      reasons: ['vintage: requested 2018, page lists no vintage'],
+    });
+  });
+
+  it('should accept region aliases', () => {
+    const result = scorer.score(
+      { ...query, region: 'Napa' },
+      wine({ region: 'Napa Valley' }),
+    );
+
+    expect(result.reasons).toEqual([]);
+  });
+
+  it('should match tokens case- and accent-insensitively', () => {
+    const result = scorer.score(
+      {
+        winery: 'Chateau Leoville Las Cases',
+        variety: 'Bordeaux Blend',
+        vintage: 2016,
+        region: 'Saint-Julien',
+      },
+      wine({
+        name: 'Château Léoville Las Cases Saint-Julien',
+        winery: 'Château Léoville Las Cases',
+        variety: 'Bordeaux Blend',
+        region: 'Saint-Julien, Bordeaux, France',
+        vintage: 2016,
+      }),
+    );
+
+    expect(result.confidence).toBe(1);
+  });
+
+  it('should only score the fields present in the query', () => {
+    const result = scorer.score({ winery: 'Opus One' }, wine());
+
+    expect(result).toEqual({ confidence: 1, reasons: [] });
+  });
+
+  it('should reject results below the configured minimum confidence', () => {
+    const strict = new WineConfidenceScorer({ minConfidence: 0.8 });
+
+    expect(strict.isAcceptable(strict.score(query, wine()))).toBe(true);
+    expect(
+      strict.isAcceptable(strict.score(query, wine({ vintage: 2017 }))),
+    ).toBe(false);
+    expect(scorer.isAcceptable({ confidence: 0, reasons: [] })).toBe(true);
+  });
+});
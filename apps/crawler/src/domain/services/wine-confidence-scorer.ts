@@ -0,0 +1,249 @@
+import { Wine } from '../entities/wine.entity';
+import { Vintage } from '../value-objects/vintage.vo';
+import type { WineMatchQuery } from './wine-matcher';
+import { GENERIC_TOKENS, tokenize } from './wine-tokens';
+
+export interface WineConfidenceScorerOptions {
+  /**
+   * 허용하는 최소 신뢰도 (0 ~ 1, 0이면 거부하지 않음)
+   * @default 0
+   */
+  minConfidence?: number;
+}
+
+/**
+ * 파싱된 와인이 검색 조건과 일치하는 정도
+ */
+export interface WineConfidence {
+  confidence: number; // 0 ~ 1
+
+  /**
+   * 일치하지 않는 항목에 대한 설명
+   * @example ['vintage: requested 2018, found 2017']
+   */
+  reasons: string[];
+}
+
+/**
+ * 항목별 신뢰도 가중치 (합계 1)
+ */
+const WEIGHTS = {
+  winery: 0.3,
+  vintage: 0.25,
+  name: 0.2, // share of the wine name explained by the query
+  variety: 0.15,
+  region: 0.1,
+};
+
+/**
+ * 같은 지역을 가리키는 이름 묶음 (소문자, 악센트 제거)
+ */
+const REGION_ALIASES: string[][] = [
+  ['napa valley', 'napa'],
+  ['sonoma county', 'sonoma'],
+  ['california', 'ca'],
+  ['united states', 'usa'],
+  ['barossa valley', 'barossa'],
+  ['burgundy', 'bourgogne'],
+  ['rhone', 'rhone valley', 'vallee du rhone'],
+  ['loire', 'loire valley', 'val de loire'],
+  ['alsace', 'elsass'],
+  ['tuscany', 'toscana'],
+  ['piedmont', 'piemonte'],
+  ['sicily', 'sicilia'],
+  ['mosel', 'moselle', 'mosel saar ruwer'],
+  ['rioja', 'la rioja'],
+  ['catalonia', 'catalunya'],
+];
+
+/**
+ * WineConfidenceScorer
+ *
+ * 크롤링한 와인 페이지가 실제로 요청한 와인인지 신뢰도를 계산합니다.
+ *
+ * @remarks
+ * 와이너리와 품종 토큰 포함 비율, 별칭을 고려한 지역 일치 여부, 빈티지 정확 일치 여부,
+ * 와인 이름 중 검색 조건으로 설명되는 비율을 가중 합산합니다.
+ * 검색 조건에서 생략한 항목과 페이지에 없는 빈티지는 제외하고 나머지 가중치로 정규화합니다.
+ */
+export class WineConfidenceScorer {
+  private readonly minConfidence: number;
+
+  constructor(options: WineConfidenceScorerOptions = {}) {
+    this.minConfidence = options.minConfidence ?? 0;
+  }
+
+  /**
+   * 와인과 검색 조건의 일치 신뢰도를 계산합니다.
+   *
+   * @param query - 검색 조건
+   * @param wine - 파싱된 와인
+   * @returns 신뢰도와 불일치 사유
+   */
+  score(query: WineMatchQuery, wine: Wine): WineConfidence {
+    const reasons: string[] = [];
+    // [weight, value] of every component the query asks for
+    const components: Array<[number, number]> = [];
+
+    const nameTokens = tokenize(wine.name.value);
+
+    const winery = wine.isFromWinery(query.winery)
+      ? 1
+      : this.coverage(query.winery, [...nameTokens, ...tokenize(wine.winery)]);
+    components.push([WEIGHTS.winery, winery]);
+    if (winery < 1) {
+      reasons.push(
+        `winery: requested "${query.winery}", found "${wine.winery}"`,
+      );
+    }
+
+    if (query.variety !== undefined) {
+      const variety = this.coverage(query.variety, [
+        ...nameTokens,
+        ...tokenize(wine.variety),
+      ]);
+      components.push([WEIGHTS.variety, variety]);
+      if (variety < 1) {
+        reasons.push(
+          `variety: requested "${query.variety}", found "${wine.variety}"`,
+        );
+      }
+    }
+
+    if (query.region !== undefined) {
+      const region = this.regionMatches(query.region, wine)
+        ? 1
+        : this.coverage(query.region, tokenize(wine.region));
+      components.push([WEIGHTS.region, region]);
+      if (region < 1) {
+        reasons.push(
+          `region: requested "${query.region}", found "${wine.region}"`,
+        );
+      }
+    }
+
+    if (query.vintage !== undefined && wine.vintage === null) {
+      // A page without a vintage neither confirms nor contradicts the request
+      reasons.push(
+        `vintage: requested ${query.vintage}, page lists no vintage`,
+      );
+    } else if (query.vintage !== undefined && wine.vintage !== null) {
+      const matches = this.vintageMatches(query.vintage, wine.vintage);
+      components.push([WEIGHTS.vintage, matches ? 1 : 0]);
+      if (!matches) {
+        reasons.push(
+          `vintage: requested ${query.vintage}, found ${wine.vintage.value}`,
+        );
+      }
+    }
+
+    const unexplained = this.unexplainedNameTokens(query, nameTokens);
+    const meaningful = new Set(
+      nameTokens.filter((token) => this.isMeaningful(token)),
+    );
+    components.push([
+      WEIGHTS.name,
+      meaningful.size === 0 ? 1 : 1 - unexplained.length / meaningful.size,
+    ]);
+    if (unexplained.length > 0) {
+      reasons.push(
+        `name: "${wine.name.value}" includes words not in the request (${unexplained.join(', ')})`,
+      );
+    }
+
+    const totalWeight = components.reduce((sum, [weight]) => sum + weight, 0);
+    const confidence =
+      components.reduce((sum, [weight, value]) => sum + weight * value, 0) /
+      totalWeight;
+
+    return { confidence: Math.round(confidence * 1000) / 1000, reasons };
+  }
+
+  /**
+   * 신뢰도가 설정된 최소 기준 이상인지 확인합니다.
+   */
+  isAcceptable(result: WineConfidence): boolean {
+    return result.confidence >= this.minConfidence;
+  }
+
+  /**
+   * 검색 항목의 토큰 중 대상 토큰에 포함된 비율을 반환합니다.
+   */
+  private coverage(field: string, available: string[]): number {
+    const tokens = tokenize(field);
+    if (tokens.length === 0) {
+      return 1;
+    }
+
+    const availableSet = new Set(available);
+    return (
+      tokens.filter((token) => availableSet.has(token)).length / tokens.length
+    );
+  }
+
+  /**
+   * 요청한 지역(또는 그 별칭)이 와인의 지역에 포함되는지 확인합니다.
+   */
+  private regionMatches(region: string, wine: Wine): boolean {
+    if (wine.isFromRegion(region)) {
+      return true;
+    }
+
+    const found = ` ${tokenize(wine.region).join(' ')} `;
+
+    return this.regionAliases(region).some((alias) =>
+      found.includes(` ${alias} `),
+    );
+  }
+
+  /**
+   * 지역 이름과 그 별칭을 비교용 형태로 반환합니다.
+   */
+  private regionAliases(region: string): string[] {
+    const requested = tokenize(region).join(' ');
+    return (
+      REGION_ALIASES.find((group) => group.includes(requested)) ?? [requested]
+    );
+  }
+
+  private vintageMatches(requested: number | string, found: Vintage): boolean {
+    try {
+      return Vintage.parse(requested).equals(found);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 와인 이름에서 검색 조건(지역 별칭 포함)으로 설명되지 않는 단어를 반환합니다.
+   */
+  private unexplainedNameTokens(
+    query: WineMatchQuery,
+    nameTokens: string[],
+  ): string[] {
+    const regionAliases =
+      query.region !== undefined ? this.regionAliases(query.region) : [];
+    const queryTokens = new Set(
+      tokenize(
+        [query.winery, query.variety, query.vintage, ...regionAliases].join(
+          ' ',
+        ),
+      ),
+    );
+
+    return [
+      ...new Set(
+        nameTokens.filter(
+          (token) => this.isMeaningful(token) && !queryTokens.has(token),
+        ),
+      ),
+    ];
+  }
+
+  /**
+   * 이름 일치도 계산 대상 단어인지 확인합니다 (흔한 단어와 연도 제외).
+   */
+  private isMeaningful(token: string): boolean {
+    return !GENERIC_TOKENS.has(token) && !/^(19|20)\d{2}$/.test(token);
+  }
+}
@@ -0,0 +1,109 @@
+import { WineMatcher } from './wine-matcher';
+import { WineSearchCandidate } from '../ports/parser.port';
+
+describe('WineMatcher', () => {
+  const matcher = new WineMatcher();
+  const query = {
+    winery: 'Caymus',
+    variety: 'Cabernet Sauvignon',
+    vintage: 2019,
+    region: 'Napa Valley',
+  };
+
+  const candidate = (
+    name: string,
+    overrides: Partial<WineSearchCandidate> = {},
+  ): WineSearchCandidate => ({
+    name,
+    url: `https://www.wine-searcher.com/find/${encodeURIComponent(name)}`,
+    vintage: 2019,
+    vintages: [],
+    producer: null,
+    region: 'Napa Valley, California',
+    ...overrides,
+  });
+
+  it('should pick the candidate that matches every field', () => {
+    const { best, candidates } = matcher.match(query, [
+      candidate('Caymus-Suisun Grand Durif'),
+      candidate('Caymus Vineyards Special Selection Cabernet Sauvignon'),
+      candidate('Caymus Vineyards Cabernet Sauvignon'),
+    ]);
+
+    expect(best?.name).toBe('Caymus Vineyards Cabernet Sauvignon');
+    expect(best?.score).toBe(1);
+    expect(candidates.map((c) => c.score)).toEqual(
+      [...candidates.map((c) => c.score)].sort((a, b) => b - a),
+    );
+  });
+
+  it('should prefer the requested vintage', () => {
+    const { best } = matcher.match(query, [
+      candidate('Caymus Cabernet Sauvignon', { vintage: 2018 }),
+      candidate('Caymus Cabernet Sauvignon', { vintage: 2019 }),
+    ]);
+
+    expect(best?.vintage).toBe(2019);
+  });
+
+  it('should match names case- and accent-insensitively', () => {
+    const { best } = matcher.match(
+      { ...query, winery: 'Chateau Leoville Las Cases', variety: 'Bordeaux' },
+      [candidate('Château Léoville Las Cases Bordeaux')],
+    );
+
+    expect(best?.score).toBeGreaterThan(0.8);
+  });
+
+  it('should not pick a candidate when the top scores are too close', () => {
+    const { best, candidates } = matcher.match(query, [
+      candidate('Caymus Cabernet Sauvignon Napa'),
+      candidate('Caymus Cabernet Sauvignon Valley'),
+    ]);
+
+    expect(best).toBeNull();
+    expect(candidates).toHaveLength(2);
+  });
+
+  it('should not pick a weak match', () => {
+    const { best, candidates } = matcher.match(query, [
+      candidate('Silver Oak Alexander Valley', { vintage: null }),
+    ]);
+
+    expect(best).toBeNull();
+    expect(candidates[0].score).toBeLessThan(0.6);
+  });
+
+  it('should score invalid names and vintages as non-matching', () => {
+    const { candidates } = matcher.match(query, [
+      candidate('   ', { vintage: 2199 }),
+    ]);
+
+    expect(candidates[0].score).toBe(0);
+  });
+
+  it('should match producers and vintages listed for the candidate', () => {
+    const { best } = matcher.match(query, [
+      candidate('Special Selection Cabernet Sauvignon', {
+        producer: 'Caymus Vineyards',
+        vintage: null,
+        vintages: [2021, 2019],
+      }),
+      candidate('Special Selection Cabernet Sauvignon', {
+        producer: 'Caymus Vineyards',
+        vintage: null,
+        vintages: [2021, 2020],
+      }),
+    ]);
+
+    expect(best?.vintages).toEqual([2021, 2019]);
+  });
+
+  it('should score only the fields present in the query', () => {
+    const { best } = matcher.match({ winery: 'Caymus' }, [
+      candidate('Caymus', { vintage: null, region: null }),
+    ]);
+
+    expect(best?.score).toBe(1);
+  });
+});
@@ -0,0 +1,189 @@
+import { WineName } from '../value-objects/wine-name.vo';
+import { Vintage } from '../value-objects/vintage.vo';
+import type { WineSearchCandidate } from '../ports/parser.port';
+import { GENERIC_TOKENS, tokenize } from './wine-tokens';
+
+/**
+ * 매칭 기준이 되는 검색 조건 (생략한 항목은 점수 계산에서 제외)
+ */
+export interface WineMatchQuery {
+  winery: string;
+  variety?: string;
+  vintage?: number | string; // year, "NV" or a range such as "1990-2010"
+  region?: string;
+}
+
+/**
+ * 검색 조건과의 일치도가 계산된 와인 후보
+ */
+export interface ScoredWineCandidate extends WineSearchCandidate {
+  score: number; // 0 ~ 1
+}
+
+export interface WineMatchResult {
+  /**
+   * 명확하게 선택된 후보, 모호하거나 일치하는 후보가 없으면 null
+   */
+  best: ScoredWineCandidate | null;
+
+  /**
+   * 점수 내림차순으로 정렬된 전체 후보
+   */
+  candidates: ScoredWineCandidate[];
+}
+
+/**
+ * 항목별 점수 가중치 (합계 1)
+ */
+const WEIGHTS = {
+  winery: 0.3,
+  variety: 0.25,
+  region: 0.1,
+  vintage: 0.15,
+  precision: 0.2, // share of the candidate name explained by the query
+};
+
+/**
+ * 자동 선택에 필요한 최소 점수
+ */
+const MIN_SCORE = 0.6;
+
+/**
+ * 자동 선택 시 1위와 2위 후보 사이에 필요한 최소 점수 차
+ */
+const MIN_MARGIN = 0.05;
+
+/**
+ * WineMatcher
+ *
+ * 검색 결과 후보를 검색 조건과 비교하여 점수를 매기고, 명확한 최선의 후보를 선택합니다.
+ *
+ * @remarks
+ * 와이너리, 품종, 지역 토큰이 후보 이름(와이너리는 생산자, 지역은 후보 지역 포함)에 얼마나 포함되는지와
+ * 빈티지 일치 여부, 후보 이름 중 검색 조건으로 설명되는 비율을 가중 합산합니다.
+ * 검색 조건에서 생략한 항목은 제외하고 나머지 가중치로 정규화합니다.
+ * 최고 점수가 기준에 못 미치거나 2위와의 차이가 작으면 모호한 것으로 보고 선택하지 않습니다.
+ */
+export class WineMatcher {
+  /**
+   * 후보 목록을 검색 조건과 비교합니다.
+   *
+   * @param query - 검색 조건
+   * @param candidates - 검색 결과 후보
+   * @returns 선택된 후보와 점수순 후보 목록
+   */
+  match(
+    query: WineMatchQuery,
+    candidates: WineSearchCandidate[],
+  ): WineMatchResult {
+    const vintage =
+      query.vintage !== undefined ? this.toVintage(query.vintage) : null;
+
+    const scored = candidates
+      .map((candidate) => ({
+        ...candidate,
+        score: this.score(query, vintage, candidate),
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    const [first, second] = scored;
+    const isClear =
+      first !== undefined &&
+      first.score >= MIN_SCORE &&
+      (second === undefined || first.score - second.score >= MIN_MARGIN);
+
+    return { best: isClear ? first : null, candidates: scored };
+  }
+
+  private score(
+    query: WineMatchQuery,
+    vintage: Vintage | null,
+    candidate: WineSearchCandidate,
+  ): number {
+    let name: WineName;
+    try {
+      name = WineName.create(candidate.name);
+    } catch {
+      return 0;
+    }
+
+    const nameTokens = tokenize(name.value);
+    const nameTokenSet = new Set(nameTokens);
+    const wineryTokens = new Set([
+      ...nameTokens,
+      ...tokenize(candidate.producer ?? ''),
+    ]);
+    const regionTokens = new Set([
+      ...nameTokens,
+      ...tokenize(candidate.region ?? ''),
+    ]);
+
+    const coverage = (field: string, available: Set<string>) => {
+      const tokens = tokenize(field);
+      return tokens.length === 0
+        ? 0
+        : tokens.filter((token) => available.has(token)).length / tokens.length;
+    };
+
+    const queryTokens = new Set(
+      tokenize(
+        [query.winery, query.variety, query.region, query.vintage].join(' '),
+      ),
+    );
+    const meaningful = nameTokens.filter((token) => !GENERIC_TOKENS.has(token));
+    const precision =
+      meaningful.length === 0
+        ? 0
+        : meaningful.filter((token) => queryTokens.has(token)).length /
+          meaningful.length;
+
+    // [weight, value] of every component the query asks for
+    const components: Array<[number, number]> = [
+      [WEIGHTS.winery, coverage(query.winery, wineryTokens)],
+      [WEIGHTS.precision, precision],
+    ];
+    if (query.variety !== undefined) {
+      components.push([WEIGHTS.variety, coverage(query.variety, nameTokenSet)]);
+    }
+    if (query.region !== undefined) {
+      components.push([WEIGHTS.region, coverage(query.region, regionTokens)]);
+    }
+    if (vintage) {
+      components.push([
+        WEIGHTS.vintage,
+        this.offersVintage(candidate, vintage) ? 1 : 0,
+      ]);
+    }
+
+    const totalWeight = components.reduce((sum, [weight]) => sum + weight, 0);
+    const score =
+      components.reduce((sum, [weight, value]) => sum + weight * value, 0) /
+      totalWeight;
+
+    return Math.round(score * 1000) / 1000;
+  }
+
+  /**
+   * 후보가 요청한 빈티지의 페이지이거나 해당 빈티지를 제공하는지 확인합니다.
+   */
+  private offersVintage(
+    candidate: WineSearchCandidate,
+    vintage: Vintage,
+  ): boolean {
+    return [candidate.vintage, ...candidate.vintages].some(
+      (value) => this.toVintage(value)?.equals(vintage) ?? false,
+    );
+  }
+
+  private toVintage(value: number | string | null): Vintage | null {
+    if (value === null) {
+      return null;
+    }
+
+    try {
+      return Vintage.parse(value);
+    } catch {
+      return null;
+    }
+  }
+}
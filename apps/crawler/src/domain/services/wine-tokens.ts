@@ -0,0 +1,30 @@
+/**
+ * 와인 이름에 흔히 붙어 일치도 계산에서 제외하는 단어
+ */
+export const GENERIC_TOKENS = new Set([
+  'vineyards',
+  'vineyard',
+  'winery',
+  'wines',
+  'estate',
+  'cellars',
+  'chateau',
+  'domaine',
+  'the',
+  'de',
+  'du',
+  'la',
+  'le',
+]);
+
+/**
+ * 문자열을 비교용 토큰으로 나눕니다 (소문자, 악센트 제거).
+ */
+export function tokenize(value: string): string[] {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 0);
+}
@@ -40,6 +40,69 @@ describe('Vintage Value Object', () => {
     });
   });
 
+  describe('nonVintage', () => {
+    it('should represent a non-vintage wine as NV', () => {
+      const vintage = Vintage.nonVintage();
+
+      expect(vintage.value).toBe('NV');
+      expect(vintage.year).toBeNull();
+      expect(vintage.isNonVintage()).toBe(true);
+      expect(vintage.isRange()).toBe(false);
+    });
+  });
+
+  describe('range', () => {
+    it('should represent a multi-vintage range', () => {
+      const vintage = Vintage.range(1990, 2010);
+
+      expect(vintage.value).toBe('1990-2010');
+      expect(vintage.year).toBeNull();
+      expect(vintage.isRange()).toBe(true);
+    });
+
+    it('should throw error when the range does not start before it ends', () => {
+      expect(() => Vintage.range(2010, 1990)).toThrow(
+        'Vintage range must start before it ends',
+      );
+      expect(() => Vintage.range(2010, 2010)).toThrow(
+        'Vintage range must start before it ends',
+      );
+    });
+
+    it('should validate both years of the range', () => {
+      expect(() => Vintage.range(1850, 2010)).toThrow(
+        'Vintage must be between 1900 and',
+      );
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse years from numbers and strings', () => {
+      expect(Vintage.parse(2018).year).toBe(2018);
+      expect(Vintage.parse('2018').year).toBe(2018);
+    });
+
+    it.each(['NV', 'nv', 'N.V.', 'Non-Vintage', 'non vintage'])(
+      'should parse %s as non-vintage',
+      (value) => {
+        expect(Vintage.parse(value).isNonVintage()).toBe(true);
+      },
+    );
+
+    it.each(['1990-2010', '1990 - 2010', '1990\u20132010', '1990 to 2010'])(
+      'should parse %s as a range',
+      (value) => {
+        expect(Vintage.parse(value).value).toBe('1990-2010');
+      },
+    );
+
+    it('should throw error for unrecognized values', () => {
+      expect(() => Vintage.parse('not-a-number')).toThrow(
+        'Vintage must be a year, "NV" or a range',
+      );
+    });
+  });
+
   describe('equals', () => {
     it('should return true for equal vintages', () => {
       const vintage1 = Vintage.create(2018);
@@ -47,6 +110,17 @@ describe('Vintage Value Object', () => {
       expect(vintage1.equals(vintage2)).toBe(true);
     });
 
+    it('should compare non-vintage and ranges by kind and years', () => {
+      expect(Vintage.nonVintage().equals(Vintage.parse('NV'))).toBe(true);
+      expect(Vintage.range(1990, 2010).equals(Vintage.parse('1990-2010'))).toBe(
+        true,
+      );
+      expect(Vintage.nonVintage().equals(Vintage.create(2018))).toBe(false);
+      expect(Vintage.range(2017, 2018).equals(Vintage.create(2018))).toBe(
+        false,
+      );
+    });
+
     it('should return false for different vintages', () => {
       const vintage1 = Vintage.create(2018);
       const vintage2 = Vintage.create(2019);
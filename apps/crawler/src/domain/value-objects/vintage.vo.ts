@@ -1,15 +1,38 @@
+/**
+ * 빈티지의 직렬화 형태
+ * - 단일 연도: 2018
+ * - 논빈티지: "NV"
+ * - 여러 해의 블렌드/솔레라: "1990-2010"
+ */
+export type VintageValue = number | 'NV' | `${number}-${number}`;
+
+/**
+ * 논빈티지 표기 (대소문자, 마침표, 공백/하이픈 무시)
+ * @example "NV", "N.V.", "Non-Vintage", "non vintage"
+ */
+const NON_VINTAGE_PATTERN = /^(n\.?\s*v\.?|non[\s-]*vintage)$/i;
+
+/**
+ * 연도 범위 표기 (하이픈, en dash, "to" 허용)
+ * @example "1990-2010", "1990–2010", "1990 to 2010"
+ */
+const RANGE_PATTERN = /^(\d{4})\s*(?:-|\u2013|to)\s*(\d{4})$/i;
+
 /**
  * Vintage Value Object
  *
  * 빈티지 연도를 나타내는 값 객체입니다.
  * 1900년부터 현재+5년까지의 범위를 허용합니다.
+ *
+ * @remarks
+ * 샴페인, 주정강화 와인처럼 빈티지가 없는 논빈티지(NV)와
+ * 솔레라/블렌드처럼 여러 해에 걸친 연도 범위도 표현합니다.
  */
 export class Vintage {
-  private readonly _value: number;
-
-  private constructor(value: number) {
-    this._value = value;
-  }
+  private constructor(
+    private readonly from: number | null,
+    private readonly to: number | null,
+  ) {}
 
   /**
    * 빈티지 값 객체를 생성합니다.
@@ -18,6 +41,68 @@ export class Vintage {
    * @throws Error 유효하지 않은 빈티지 값인 경우
    */
   static create(value: number): Vintage {
+    Vintage.validateYear(value);
+    return new Vintage(value, value);
+  }
+
+  /**
+   * 논빈티지(NV) 값 객체를 생성합니다.
+   */
+  static nonVintage(): Vintage {
+    return new Vintage(null, null);
+  }
+
+  /**
+   * 여러 해에 걸친 빈티지 범위 값 객체를 생성합니다.
+   *
+   * @param from - 시작 연도 (1900 ~ 현재년도+5)
+   * @param to - 끝 연도 (시작 연도보다 커야 함)
+   * @throws Error 연도가 유효하지 않거나 범위가 올바르지 않은 경우
+   */
+  static range(from: number, to: number): Vintage {
+    Vintage.validateYear(from);
+    Vintage.validateYear(to);
+
+    if (from >= to) {
+      throw new Error(
+        `Vintage range must start before it ends, got: ${from}-${to}`,
+      );
+    }
+
+    return new Vintage(from, to);
+  }
+
+  /**
+   * 연도, "NV", "1990-2010" 형태의 값에서 빈티지 값 객체를 생성합니다.
+   *
+   * @param value - 빈티지 연도 또는 빈티지 표기 문자열
+   * @throws Error 유효하지 않은 빈티지 값인 경우
+   */
+  static parse(value: number | string): Vintage {
+    if (typeof value === 'number') {
+      return Vintage.create(value);
+    }
+
+    const text = value.trim();
+    if (NON_VINTAGE_PATTERN.test(text)) {
+      return Vintage.nonVintage();
+    }
+
+    const range = text.match(RANGE_PATTERN);
+    if (range) {
+      return Vintage.range(parseInt(range[1], 10), parseInt(range[2], 10));
+    }
+
+    if (/^\d{4}$/.test(text)) {
+      return Vintage.create(parseInt(text, 10));
+    }
+
+    throw new Error(
+      `Vintage must be a year, "NV" or a range like "1990-2010", got: ${value}`,
+    );
+  }
+
+  private static validateYear(value: number): void {
     const currentYear = new Date().getFullYear();
     const minYear = 1900;
     const maxYear = currentYear + 5; // 미래 빈티지 고려
@@ -31,19 +116,39 @@ export class Vintage {
         `Vintage must be between ${minYear} and ${maxYear}, got: ${value}`,
       );
     }
+  }
+
+  /**
+   * 직렬화 형태의 빈티지 값 (연도, "NV", "1990-2010")
+   */
+  get value(): VintageValue {
+    if (this.from === null || this.to === null) {
+      return 'NV';
+    }
+
+    return this.from === this.to ? this.from : `${this.from}-${this.to}`;
+  }
+
+  /**
+   * 단일 연도 빈티지의 연도, 논빈티지나 범위이면 null
+   */
+  get year(): number | null {
+    return this.from !== null && this.from === this.to ? this.from : null;
+  }
 
-    return new Vintage(value);
+  isNonVintage(): boolean {
+    return this.from === null;
   }
 
-  get value(): number {
-    return this._value;
+  isRange(): boolean {
+    return this.from !== null && this.from !== this.to;
   }
 
   equals(other: Vintage): boolean {
-    return this._value === other._value;
+    return this.from === other.from && this.to === other.to;
   }
 
   toString(): string {
-    return this._value.toString();
+    return this.value.toString();
   }
 }
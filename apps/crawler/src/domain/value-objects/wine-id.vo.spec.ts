@@ -0,0 +1,127 @@
+import { WineId } from './wine-id.vo';
+import { Wine } from '../entities/wine.entity';
+import { WineName } from './wine-name.vo';
+import { Vintage } from './vintage.vo';
+
+describe('WineId Value Object', () => {
+  const wine = (name: string, winery: string, vintage: Vintage | null) =>
+    new Wine(
+      WineName.create(name),
+      'Napa Valley',
+      winery,
+      'Cabernet Sauvignon',
+      vintage,
+    );
+
+  describe('create', () => {
+    it('should create wine id with a valid slug', () => {
+      expect(WineId.create('opus-one-2018').value).toBe('opus-one-2018');
+    });
+
+    it.each(['', 'Opus-One', 'opus one', 'opus--one', '-opus', 'opus-'])(
+      'should throw error for invalid slug "%s"',
+      (value) => {
+        expect(() => WineId.create(value)).toThrow(
+          'Wine id must be a lowercase slug',
+        );
+      },
+    );
+
+    it('should throw error for id exceeding 200 characters', () => {
+      expect(() => WineId.create('a'.repeat(201))).toThrow(
+        'Wine id cannot exceed 200 characters',
+      );
+    });
+  });
+
+  describe('fromWine', () => {
+    it('should move the vintage in the name to the end', () => {
+      const id = WineId.fromWine(
+        wine('Opus One 2018', 'Opus One Winery', Vintage.create(2018)),
+      );
+
+      expect(id.value).toBe('opus-one-2018');
+    });
+
+    it('should prefix winery words missing from the name', () => {
+      const id = WineId.fromWine(
+        wine('Lytton Springs', 'Ridge Vineyards', Vintage.create(2019)),
+      );
+
+      expect(id.value).toBe('ridge-lytton-springs-2019');
+    });
+
+    it('should identify non-vintage and multi-vintage wines', () => {
+      expect(
+        WineId.fromWine(
+          wine('Krug Grande Cuvée NV', 'Krug', Vintage.nonVintage()),
+        ).value,
+      ).toBe('krug-grande-cuvee-nv');
+      expect(
+        WineId.fromWine(
+          wine('Solera Reserva', 'Bodegas Toro', Vintage.range(1927, 2007)),
+        ).value,
+      ).toBe('bodegas-toro-solera-reserva-1927-2007');
+    });
+
+    it('should leave out the vintage when the page lists none', () => {
+      expect(WineId.fromWine(wine('Opus One', 'Opus One', null)).value).toBe(
+        'opus-one',
+      );
+    });
+
+    it('should keep wines with non-Latin names apart', () => {
+      const koshu = WineId.fromWine(
+        wine('甲州', '中央葡萄酒', Vintage.create(2018)),
+      );
+      const xinomavro = WineId.fromWine(
+        wine('Ξινόμαυρο', 'Κτήμα Άλφα', Vintage.create(2018)),
+      );
+
+      expect(koshu.value).toMatch(/^[0-9a-f]{8}-2018$/);
+      expect(xinomavro.value).toMatch(/^[0-9a-f]{8}-2018$/);
+      expect(koshu.equals(xinomavro)).toBe(false);
+      expect(
+        WineId.fromWine(wine('甲州', '中央葡萄酒', Vintage.create(2018))).value,
+      ).toBe(koshu.value);
+    });
+
+    it('should hash partly non-Latin names instead of dropping characters', () => {
+      const first = WineId.fromWine(
+        wine('Grace 甲州', 'Grace Winery', Vintage.create(2018)),
+      );
+      const second = WineId.fromWine(
+        wine('Grace 明野甲州', 'Grace Winery', Vintage.create(2018)),
+      );
+
+      expect(first.value).toMatch(/^grace-[0-9a-f]{8}-2018$/);
+      expect(first.equals(second)).toBe(false);
+    });
+
+    it('should never be empty without slug words or a vintage', () => {
+      const id = WineId.fromWine(wine('甲州', '中央葡萄酒', null));
+
+      expect(id.value).toMatch(/^[0-9a-f]{8}$/);
+    });
+
+    it('should keep the vintage when trimming long names', () => {
+      const id = WineId.fromWine(
+        wine('Reserve '.repeat(12), 'Bodega '.repeat(14), Vintage.create(2018)),
+      );
+
+      expect(id.value.length).toBeLessThanOrEqual(200);
+      expect(id.value).toMatch(/-2018$/);
+    });
+
+    it('should return the same id for the same wine', () => {
+      const first = WineId.fromWine(
+        wine('Opus One 2018', 'Opus One', Vintage.create(2018)),
+      );
+      const second = WineId.fromWine(
+        wine('OPUS ONE  2018', 'Opus One Winery', Vintage.create(2018)),
+      );
+
+      expect(first.equals(second)).toBe(true);
+    });
+  });
+});
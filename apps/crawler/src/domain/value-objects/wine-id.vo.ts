@@ -0,0 +1,125 @@
+import { createHash } from 'crypto';
+import type { Wine } from '../entities/wine.entity';
+import { GENERIC_TOKENS, tokenize } from '../services/wine-tokens';
+
+/**
+ * 소문자, 숫자를 하이픈으로 이은 슬러그
+ * @example "opus-one-2018", "krug-grande-cuvee-nv"
+ */
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const MAX_LENGTH = 200;
+
+/**
+ * WineId Value Object
+ *
+ * 와인 카탈로그에서 와인을 식별하는 값 객체입니다.
+ * 와이너리, 와인 이름, 빈티지로 만든 슬러그로, 같은 와인을 다시 크롤링해도 같은 값이 나옵니다.
+ */
+export class WineId {
+  private readonly _value: string;
+
+  private constructor(value: string) {
+    this._value = value;
+  }
+
+  /**
+   * 와인 식별자 값 객체를 생성합니다.
+   *
+   * @param value - 슬러그 (소문자, 숫자, 하이픈, 1-200자)
+   * @throws Error 유효하지 않은 식별자인 경우
+   */
+  static create(value: string): WineId {
+    if (typeof value !== 'string') {
+      throw new Error(`Wine id must be a string, got: ${typeof value}`);
+    }
+
+    if (value.length > MAX_LENGTH) {
+      throw new Error(
+        `Wine id cannot exceed ${MAX_LENGTH} characters, got: ${value.length}`,
+      );
+    }
+
+    if (!SLUG_PATTERN.test(value)) {
+      throw new Error(
+        `Wine id must be a lowercase slug like "opus-one-2018", got: ${value}`,
+      );
+    }
+
+    return new WineId(value);
+  }
+
+  /**
+   * 와인의 식별자를 만듭니다.
+   * 이름에 없는 와이너리 단어를 앞에 붙이고, 이름에 들어 있는 빈티지는 끝으로 옮깁니다.
+   * 슬러그로 옮길 수 없는 글자(한자, 그리스 문자 등)가 있으면 이름|와이너리|지역의
+   * 짧은 해시를 붙여 서로 다른 와인이 같은 식별자를 갖지 않도록 합니다.
+   *
+   * @example "Opus One 2018" (Opus One Winery) → "opus-one-2018"
+   * @example "Lytton Springs" (Ridge Vineyards, 2019) → "ridge-lytton-springs-2019"
+   * @example "甲州" (中央葡萄酒, 2018) → "<해시 8자리>-2018"
+   */
+  static fromWine(wine: Wine): WineId {
+    const vintageTokens = wine.vintage
+      ? tokenize(wine.vintage.value.toString())
+      : [];
+    const nameTokens = tokenize(wine.name.value).filter(
+      (token) => !vintageTokens.includes(token),
+    );
+    const wineryTokens = tokenize(wine.winery).filter(
+      (token) => !GENERIC_TOKENS.has(token) && !nameTokens.includes(token),
+    );
+
+    const words = [...wineryTokens, ...nameTokens];
+    const lossy =
+      words.length === 0 ||
+      hasUnsluggableCharacters(wine.name.value) ||
+      hasUnsluggableCharacters(wine.winery);
+    const suffix = [
+      ...(lossy ? [WineId.digest(wine)] : []),
+      ...vintageTokens,
+    ].join('-');
+
+    // Trim the words rather than the hash or vintage to stay within 200 chars
+    const head = words
+      .join('-')
+      .slice(0, MAX_LENGTH - suffix.length - 1)
+      .replace(/-+$/, '');
+
+    return WineId.create([head, suffix].filter(Boolean).join('-'));
+  }
+
+  /**
+   * 이름, 와이너리, 지역의 SHA-256 해시 앞 8자리
+   */
+  private static digest(wine: Wine): string {
+    return createHash('sha256')
+      .update(`${wine.name.value}|${wine.winery}|${wine.region}`.toLowerCase())
+      .digest('hex')
+      .slice(0, 8);
+  }
+
+  get value(): string {
+    return this._value;
+  }
+
+  equals(other: WineId): boolean {
+    return this._value === other._value;
+  }
+
+  toString(): string {
+    return this._value;
+  }
+}
+
+/**
+ * 악센트를 제거해도 영문자, 숫자로 바꿀 수 없는 글자나 숫자가 있는지 확인합니다.
+ */
+function hasUnsluggableCharacters(value: string): boolean {
+  return /[^a-z0-9]/i.test(
+    value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^\p{L}\p{N}]/gu, ''),
+  );
+}
@@ -0,0 +1,90 @@
+import { BlockDetectingCrawlerAdapter } from './block-detecting-crawler.adapter';
+import { BlockDetector } from '../detection/block-detector';
+import { CrawlerPort, FetchResult } from '../../domain/ports/crawler.port';
+import {
+  BlockedError,
+  NetworkError,
+  NotFoundError,
+} from '../../domain/errors/crawler.errors';
+
+describe('BlockDetectingCrawlerAdapter', () => {
+  const url = 'https://www.wine-searcher.com/find/opus+one';
+  let inner: jest.Mocked<CrawlerPort>;
+  let adapter: BlockDetectingCrawlerAdapter;
+
+  const page = (overrides: Partial<FetchResult> = {}): FetchResult => ({
+    body: '<html><h1>Opus One 2018</h1></html>',
+    statusCode: 200,
+    finalUrl: url,
+    headers: {},
+    redirects: [],
+    bytes: 35,
+    durationMs: 100,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    inner = {
+      fetch: jest.fn(),
+      fetchPage: jest.fn().mockResolvedValue(page()),
+    };
+    adapter = new BlockDetectingCrawlerAdapter(inner, new BlockDetector());
+  });
+
+  it('should pass regular pages through', async () => {
+    await expect(adapter.fetch(url, { timeout: 1000 })).resolves.toBe(
+      '<html><h1>Opus One 2018</h1></html>',
+    );
+    expect(inner.fetchPage).toHaveBeenCalledWith(url, {
+      timeout: 1000,
+      acceptAnyStatus: true,
+    });
+  });
+
+  it('should throw BlockedError for challenge pages served with 200', async () => {
+    inner.fetchPage.mockResolvedValue(
+      page({ body: '<html><div id="px-captcha"></div></html>' }),
+    );
+
+    const error = await adapter.fetch(url).catch((e) => e);
+
+    expect(error).toBeInstanceOf(BlockedError);
+    expect(error.vendor).toBe('perimeterx');
+    expect(error.statusCode).toBe(200);
+    expect(error.url).toBe(url);
+  });
+
+  it('should throw BlockedError even when acceptAnyStatus is set', async () => {
+    inner.fetchPage.mockResolvedValue(
+      page({ statusCode: 403, headers: { 'cf-mitigated': 'challenge' } }),
+    );
+
+    await expect(
+      adapter.fetchPage(url, { acceptAnyStatus: true }),
+    ).rejects.toThrow(BlockedError);
+  });
+
+  it('should map regular error statuses to domain errors', async () => {
+    inner.fetchPage.mockResolvedValue(
+      page({ statusCode: 404, body: 'missing' }),
+    );
+
+    await expect(adapter.fetch(url)).rejects.toThrow(NotFoundError);
+  });
+
+  it('should return regular error statuses when acceptAnyStatus is set', async () => {
+    inner.fetchPage.mockResolvedValue(
+      page({ statusCode: 404, body: 'missing' }),
+    );
+
+    await expect(
+      adapter.fetchPage(url, { acceptAnyStatus: true }),
+    ).resolves.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should reject empty bodies', async () => {
+    inner.fetchPage.mockResolvedValue(page({ body: ' ' }));
+
+    await expect(adapter.fetch(url)).rejects.toThrow(NetworkError);
+  });
+});
@@ -0,0 +1,73 @@
+import { Logger } from '@nestjs/common';
+import {
+  CrawlerPort,
+  CrawlOptions,
+  FetchResult,
+} from '../../domain/ports/crawler.port';
+import { BlockedError, NetworkError } from '../../domain/errors/crawler.errors';
+import { BlockDetector } from '../detection/block-detector';
+import { toHttpStatusError } from './http-status.util';
+
+/**
+ * BlockDetectingCrawlerAdapter
+ *
+ * 다른 CrawlerPort를 감싸 봇 챌린지/캡차 응답을 BlockedError로 변환하는 데코레이터입니다.
+ *
+ * @remarks
+ * 챌린지 페이지는 403/503뿐 아니라 200으로도 응답하므로, 내부 어댑터에는 항상
+ * `acceptAnyStatus`로 요청하여 상태 코드 검사 전에 본문을 확인합니다.
+ * 차단이 아닌 응답은 호출자의 `acceptAnyStatus` 설정에 따라 기존과 동일하게 처리합니다.
+ */
+export class BlockDetectingCrawlerAdapter implements CrawlerPort {
+  private readonly logger = new Logger(BlockDetectingCrawlerAdapter.name);
+
+  constructor(
+    private readonly inner: CrawlerPort,
+    private readonly detector: BlockDetector,
+  ) {}
+
+  async fetch(url: string, options: CrawlOptions = {}): Promise<string> {
+    const result = await this.fetchPage(url, options);
+    return result.body;
+  }
+
+  /**
+   * @throws BlockedError 챌린지/캡차 페이지로 판별된 경우
+   */
+  async fetchPage(
+    url: string,
+    options: CrawlOptions = {},
+  ): Promise<FetchResult> {
+    const result = await this.inner.fetchPage(url, {
+      ...options,
+      acceptAnyStatus: true,
+    });
+
+    const detection = this.detector.detect(result);
+    if (detection) {
+      this.logger.warn(
+        `Blocked by ${detection.vendor} (${detection.reason}, HTTP ${result.statusCode}): ${url}`,
+      );
+      throw new BlockedError(
+        `Blocked by ${detection.vendor} bot protection: ${url}`,
+        url,
+        detection.vendor,
+        result.statusCode,
+      );
+    }
+
+    if (options.acceptAnyStatus) {
+      return result;
+    }
+
+    if (result.statusCode >= 400) {
+      throw toHttpStatusError(url, result.statusCode, result.headers);
+    }
+
+    if (result.body.trim().length === 0) {
+      throw new NetworkError(`Empty response from URL: ${url}`, url);
+    }
+
+    return result;
+  }
+}
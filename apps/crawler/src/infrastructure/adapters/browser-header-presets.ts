@@ -0,0 +1,56 @@
+import { SupportedBrowser } from '@winescope/common/constants';
+
+const CHROME_ACCEPT =
+  'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7';
+
+/**
+ * Chrome 메이저 버전별 기본 요청 헤더를 생성합니다.
+ */
+function chromeHeaders(version: number): Record<string, string> {
+  return {
+    'User-Agent': `Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/${version}.0.0.0 Safari/537.36`,
+    Accept: CHROME_ACCEPT,
+    'Accept-Language': 'en-US,en;q=0.9',
+    'Accept-Encoding': 'gzip, deflate, br',
+    'Sec-Ch-Ua': `"Chromium";v="${version}", "Google Chrome";v="${version}", "Not;A=Brand";v="99"`,
+    'Sec-Ch-Ua-Mobile': '?0',
+    'Sec-Ch-Ua-Platform': '"Windows"',
+    'Sec-Fetch-Dest': 'document',
+    'Sec-Fetch-Mode': 'navigate',
+    'Sec-Fetch-Site': 'none',
+    'Sec-Fetch-User': '?1',
+    'Upgrade-Insecure-Requests': '1',
+  };
+}
+
+/**
+ * 브라우저 핑거프린트별 기본 요청 헤더
+ *
+ * @remarks
+ * curl-impersonate는 TLS/HTTP2 핑거프린트까지 흉내내지만, 네이티브 어댑터는 헤더만 맞출 수 있습니다.
+ */
+export const BROWSER_HEADER_PRESETS: Record<
+  SupportedBrowser,
+  Record<string, string>
+> = {
+  chrome116: chromeHeaders(116),
+  chrome110: chromeHeaders(110),
+  chrome107: chromeHeaders(107),
+  chrome104: chromeHeaders(104),
+  chrome101: chromeHeaders(101),
+  chrome100: chromeHeaders(100),
+  chrome99: chromeHeaders(99),
+  firefox109: {
+    'User-Agent':
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:109.0) Gecko/20100101 Firefox/109.0',
+    Accept:
+      'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
+    'Accept-Language': 'en-US,en;q=0.5',
+    'Accept-Encoding': 'gzip, deflate, br',
+    'Sec-Fetch-Dest': 'document',
+    'Sec-Fetch-Mode': 'navigate',
+    'Sec-Fetch-Site': 'none',
+    'Sec-Fetch-User': '?1',
+    'Upgrade-Insecure-Requests': '1',
+  },
+};
@@ -1,16 +1,72 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { exec } from 'child_process';
+import { execFile } from 'child_process';
+import { constants as fsConstants, promises as fs } from 'fs';
+import * as path from 'path';
 import { promisify } from 'util';
-import { CrawlerPort, CrawlOptions } from '../../domain/ports/crawler.port';
-import { NetworkError, TimeoutError } from '../../domain/errors/crawler.errors';
+import {
+  SUPPORTED_BROWSERS,
+  SupportedBrowser,
+} from '@winescope/common/constants';
+import {
+  CrawlerPort,
+  CrawlOptions,
+  FetchResult,
+  RedirectHop,
+} from '../../domain/ports/crawler.port';
+import {
+  CrawlerConfigurationError,
+  NetworkError,
+  TimeoutError,
+} from '../../domain/errors/crawler.errors';
+import { toHttpStatusError } from './http-status.util';
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+/**
+ * curl `-w` 출력 앞에 붙는 구분자입니다. 본문과 메타데이터를 분리하는 데 사용합니다.
+ */
+const META_MARKER = '\n__WINESCOPE_CURL_META__';
+
+/**
+ * curl `-w` 포맷: 상태 코드, 리다이렉트 수, 다운로드 크기, 소요 시간(초), 최종 URL
+ */
+const WRITE_OUT_FORMAT = `${META_MARKER}%{http_code} %{num_redirects} %{size_download} %{time_total} %{url_effective}`;
+
+/**
+ * curl 종료 코드 28: Operation timeout
+ */
+const CURL_EXIT_TIMEOUT = 28;
+
+/**
+ * 핑거프린트별 curl-impersonate 실행 파일 이름 (Firefox 빌드는 `curl_ff*`)
+ */
+export const CURL_BINARIES: Record<SupportedBrowser, string> = {
+  chrome116: 'curl_chrome116',
+  chrome110: 'curl_chrome110',
+  chrome107: 'curl_chrome107',
+  chrome104: 'curl_chrome104',
+  chrome101: 'curl_chrome101',
+  chrome100: 'curl_chrome100',
+  chrome99: 'curl_chrome99',
+  firefox109: 'curl_ff109',
+};
+
+/**
+ * CRAWLER_FINGERPRINTS를 비워 둔 경우의 로테이션 대상입니다.
+ * Docker 이미지에는 curl-impersonate의 Chrome 빌드만 들어 있습니다.
+ */
+export const CURL_DEFAULT_BROWSERS: readonly SupportedBrowser[] =
+  SUPPORTED_BROWSERS.filter((browser) => browser.startsWith('chrome'));
 
 /**
  * CurlCrawlerAdapter
  *
  * curl-impersonate를 사용하여 HTTP 요청을 수행하는 어댑터입니다.
  * CrawlerPort 인터페이스를 구현하여 도메인 계층과 인프라 계층을 분리합니다.
+ *
+ * @remarks
+ * 셸을 거치지 않고 argv 배열로 바이너리를 실행하므로 인자 이스케이프가 필요하지 않습니다.
+ * `-D -`로 응답 헤더를, `-w`로 상태 코드와 최종 URL 등 메타데이터를 함께 수집합니다.
  */
 @Injectable()
 export class CurlCrawlerAdapter implements CrawlerPort {
@@ -26,110 +82,276 @@ export class CurlCrawlerAdapter implements CrawlerPort {
    * @throws TimeoutError 타임아웃 발생 시
    */
   async fetch(url: string, options: CrawlOptions = {}): Promise<string> {
+    const result = await this.fetchPage(url, options);
+    return result.body;
+  }
+
+  /**
+   * 주어진 URL을 크롤링하고 HTTP 메타데이터와 함께 응답을 반환합니다.
+   *
+   * @param url - 크롤링할 URL
+   * @param options - 크롤링 옵션
+   * @returns 응답 본문과 상태 코드, 헤더, 최종 URL 등
+   * @throws HttpStatusError 4xx/5xx 응답 시 (NotFoundError, AccessDeniedError, RateLimitedError 포함)
+   * @throws NetworkError 네트워크 오류 발생 시
+   * @throws TimeoutError 타임아웃 발생 시
+   * @throws CrawlerConfigurationError 핑거프린트의 curl-impersonate 바이너리가 없는 경우
+   */
+  async fetchPage(
+    url: string,
+    options: CrawlOptions = {},
+  ): Promise<FetchResult> {
     const browser = options.browser || 'chrome116';
+    const binary = CURL_BINARIES[browser];
     const timeout = options.timeout || 5000;
+    const startTime = Date.now();
 
     this.logger.debug(
       `Fetching URL: ${url} with browser: ${browser}, timeout: ${timeout}ms`,
     );
 
+    let stdout: string;
     try {
-      const curlCommand = this.buildCurlCommand(url, browser, timeout, options);
-
-      const { stdout, stderr } = await execAsync(curlCommand, {
-        timeout,
-        maxBuffer: 10 * 1024 * 1024, // 10MB buffer
-      });
+      const output = await execFileAsync(
+        binary,
+        this.buildCurlArgs(url, timeout, options),
+        {
+          timeout,
+          maxBuffer: 10 * 1024 * 1024, // 10MB buffer
+        },
+      );
 
-      if (stderr) {
-        this.logger.warn(`curl-impersonate stderr: ${stderr}`);
+      if (output.stderr) {
+        this.logger.warn(`curl-impersonate stderr: ${output.stderr}`);
       }
 
-      if (!stdout || stdout.trim().length === 0) {
-        throw new NetworkError(`Empty response from URL: ${url}`, url);
-      }
+      stdout = output.stdout;
+    } catch (error) {
+      throw this.toDomainError(error, url, timeout, binary);
+    }
 
-      this.logger.debug(`Successfully fetched ${stdout.length} bytes from ${url}`);
+    const result = this.parseCurlOutput(stdout, url, startTime);
 
-      return stdout;
-    } catch (error) {
-      if (error instanceof NetworkError || error instanceof TimeoutError) {
-        throw error;
-      }
+    if (options.acceptAnyStatus) {
+      return result;
+    }
 
-      // Check if it's a timeout error
-      if (
-        error instanceof Error &&
-        (error.message.includes('ETIMEDOUT') ||
-          error.message.includes('timeout') ||
-          (error as any).code === 'ETIMEDOUT')
-      ) {
-        throw new TimeoutError(
-          `Request to ${url} timed out after ${timeout}ms`,
-          url,
-          timeout,
-        );
+    if (result.statusCode >= 400) {
+      throw toHttpStatusError(url, result.statusCode, result.headers);
+    }
+
+    if (result.body.trim().length === 0) {
+      throw new NetworkError(`Empty response from URL: ${url}`, url);
+    }
+
+    this.logger.debug(
+      `Fetched ${result.bytes} bytes from ${result.finalUrl} (HTTP ${result.statusCode}, ${result.durationMs}ms)`,
+    );
+
+    return result;
+  }
+
+  /**
+   * 핑거프린트별 curl-impersonate 바이너리가 PATH에 있는지 확인합니다.
+   *
+   * @param browsers - 사용할 브라우저 핑거프린트
+   * @throws CrawlerConfigurationError 바이너리가 없는 핑거프린트가 있는 경우
+   */
+  async assertInstalled(browsers: readonly SupportedBrowser[]): Promise<void> {
+    const missing: string[] = [];
+    for (const browser of browsers) {
+      if (!(await this.isOnPath(CURL_BINARIES[browser]))) {
+        missing.push(CURL_BINARIES[browser]);
       }
+    }
 
-      // Generic network error
-      const errorMessage =
-        error instanceof Error ? error.message : 'Unknown error';
-      throw new NetworkError(
-        `Failed to fetch URL ${url}: ${errorMessage}`,
-        url,
+    if (missing.length > 0) {
+      throw new CrawlerConfigurationError(
+        `curl-impersonate binaries not found on PATH: ${missing.join(', ')}; install them, adjust CRAWLER_FINGERPRINTS or set CRAWLER_ADAPTER=native`,
+        'CRAWLER_FINGERPRINTS',
       );
     }
   }
 
+  private async isOnPath(binary: string): Promise<boolean> {
+    const dirs = (process.env.PATH ?? '')
+      .split(path.delimiter)
+      .filter((dir) => dir.length > 0);
+
+    for (const dir of dirs) {
+      try {
+        await fs.access(path.join(dir, binary), fsConstants.X_OK);
+        return true;
+      } catch {
+        // Not in this directory
+      }
+    }
+    return false;
+  }
+
   /**
-   * curl-impersonate 명령어를 생성합니다.
+   * curl-impersonate 인자 배열을 생성합니다.
    */
-  private buildCurlCommand(
+  private buildCurlArgs(
     url: string,
-    browser: string,
     timeout: number,
     options: CrawlOptions,
-  ): string {
-    const curlBinary = `curl_${browser}`;
-    const escapedUrl = this.escapeShellArg(url);
-
-    let command = `${curlBinary} -s -L ${escapedUrl}`;
+  ): string[] {
+    const args = ['-s', '-L', '-D', '-', '-w', WRITE_OUT_FORMAT];
 
     // Add timeout (convert ms to seconds)
-    command += ` --max-time ${Math.ceil(timeout / 1000)}`;
+    args.push('--max-time', Math.ceil(timeout / 1000).toString());
 
     // Add custom headers
     if (options.headers) {
       Object.entries(options.headers).forEach(([key, value]) => {
-        const escapedKey = this.escapeShellArg(key);
-        const escapedValue = this.escapeShellArg(value);
-        command += ` -H "${escapedKey}: ${escapedValue}"`;
+        args.push('-H', `${key}: ${value}`);
       });
     }
 
     // Add custom user agent if provided
     if (options.userAgent) {
-      const escapedUA = this.escapeShellArg(options.userAgent);
-      command += ` -A "${escapedUA}"`;
+      args.push('-A', options.userAgent);
+    }
+
+    // Route through outbound proxy (http, https, socks5, socks5h with credentials)
+    if (options.proxy) {
+      args.push('--proxy', options.proxy);
     }
 
-    return command;
+    // Send cookies from the jar and write back cookies set by the response
+    if (options.cookieJar) {
+      args.push(
+        '--cookie',
+        options.cookieJar,
+        '--cookie-jar',
+        options.cookieJar,
+      );
+    }
+
+    // Pass URL via --url so values starting with "-" are never read as options
+    args.push('--url', url);
+
+    return args;
   }
 
   /**
-   * Shell argument를 이스케이프합니다 (command injection 방지).
+   * `-D -`와 `-w` 출력이 포함된 stdout을 헤더, 본문, 메타데이터로 분리합니다.
+   *
+   * @remarks
+   * 리다이렉트가 있으면 헤더 블록이 여러 개 출력되며, 마지막 블록이 최종 응답의 헤더입니다.
    */
-  private escapeShellArg(arg: string): string {
-    // Escape special shell characters to prevent command injection
-    return arg
-      .replace(/\\/g, '\\\\') // backslash first
-      .replace(/"/g, '\\"') // double quotes
-      .replace(/\$/g, '\\$') // dollar signs
-      .replace(/`/g, '\\`') // backticks
-      .replace(/;/g, '\\;') // semicolons
-      .replace(/&/g, '\\&') // ampersands
-      .replace(/\|/g, '\\|') // pipes
-      .replace(/>/g, '\\>') // redirects
-      .replace(/</g, '\\<'); // redirects
+  private parseCurlOutput(
+    stdout: string,
+    url: string,
+    startTime: number,
+  ): FetchResult {
+    const markerIndex = stdout.lastIndexOf(META_MARKER);
+    if (markerIndex === -1) {
+      throw new NetworkError(`Malformed curl output for URL: ${url}`, url);
+    }
+
+    const [statusCode, , bytes, timeTotal, ...finalUrlParts] = stdout
+      .slice(markerIndex + META_MARKER.length)
+      .trim()
+      .split(' ');
+
+    let rest = stdout.slice(0, markerIndex);
+    let headers: Record<string, string> = {};
+    let currentUrl = url;
+    const redirects: RedirectHop[] = [];
+
+    // Consume every leading header block (redirects, 100 Continue, proxy CONNECT)
+    while (rest.startsWith('HTTP/')) {
+      const separator = rest.match(/\r?\n\r?\n/);
+      const block =
+        separator?.index !== undefined ? rest.slice(0, separator.index) : rest;
+      rest =
+        separator?.index !== undefined
+          ? rest.slice(separator.index + separator[0].length)
+          : '';
+
+      headers = this.parseHeaderBlock(block);
+
+      const blockStatus = parseInt(block.split(' ')[1], 10);
+      if (blockStatus >= 300 && blockStatus < 400 && headers.location) {
+        currentUrl = new URL(headers.location, currentUrl).toString();
+        redirects.push({ statusCode: blockStatus, location: currentUrl });
+      }
+    }
+
+    const parsedTime = parseFloat(timeTotal);
+
+    return {
+      body: rest,
+      statusCode: parseInt(statusCode, 10) || 0,
+      finalUrl: finalUrlParts.join(' ') || currentUrl,
+      headers,
+      redirects,
+      bytes: parseInt(bytes, 10) || Buffer.byteLength(rest),
+      durationMs: Number.isNaN(parsedTime)
+        ? Date.now() - startTime
+        : Math.round(parsedTime * 1000),
+    };
+  }
+
+  /**
+   * 헤더 블록을 소문자 키의 객체로 변환합니다 (상태 줄 제외).
+   */
+  private parseHeaderBlock(block: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    block
+      .split(/\r?\n/)
+      .slice(1)
+      .forEach((line) => {
+        const colonIndex = line.indexOf(':');
+        if (colonIndex > 0) {
+          const name = line.slice(0, colonIndex).trim().toLowerCase();
+          const value = line.slice(colonIndex + 1).trim();
+          headers[name] = headers[name] ? `${headers[name]}, ${value}` : value;
+        }
+      });
+
+    return headers;
+  }
+
+  /**
+   * 프로세스 실행 에러를 도메인 에러로 변환합니다.
+   */
+  private toDomainError(
+    error: unknown,
+    url: string,
+    timeout: number,
+    binary: string,
+  ): Error {
+    const execError = error as { code?: string | number; killed?: boolean };
+
+    // A missing binary fails every request the same way, so it is not a network failure
+    if (execError.code === 'ENOENT') {
+      return new CrawlerConfigurationError(
+        `curl-impersonate binary ${binary} is not installed`,
+        'CRAWLER_FINGERPRINTS',
+      );
+    }
+
+    // Check if it's a timeout error
+    if (
+      execError.code === 'ETIMEDOUT' ||
+      execError.code === CURL_EXIT_TIMEOUT ||
+      execError.killed ||
+      (error instanceof Error && error.message.includes('timeout'))
+    ) {
+      return new TimeoutError(
+        `Request to ${url} timed out after ${timeout}ms`,
+        url,
+        timeout,
+      );
+    }
+
+    // Generic network error
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return new NetworkError(`Failed to fetch URL ${url}: ${errorMessage}`, url);
   }
 }
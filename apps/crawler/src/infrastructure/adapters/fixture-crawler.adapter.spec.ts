@@ -0,0 +1,122 @@
+import {
+  FixtureCrawlerAdapter,
+  FixtureNotFoundError,
+} from './fixture-crawler.adapter';
+import { CrawlerPort, FetchResult } from '../../domain/ports/crawler.port';
+import { NotFoundError } from '../../domain/errors/crawler.errors';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('FixtureCrawlerAdapter', () => {
+  const url = 'https://www.wine-searcher.com/find/opus+one';
+  let dir: string;
+  let inner: jest.Mocked<CrawlerPort>;
+
+  const page = (overrides: Partial<FetchResult> = {}): FetchResult => ({
+    body: '<html>Opus One</html>',
+    statusCode: 200,
+    finalUrl: url,
+    headers: { 'content-type': 'text/html' },
+    redirects: [],
+    bytes: 21,
+    durationMs: 120,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'crawler-fixtures-'));
+    inner = {
+      fetch: jest.fn(),
+      fetchPage: jest.fn().mockResolvedValue(page()),
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should require an inner adapter in record mode', () => {
+    expect(() => new FixtureCrawlerAdapter({ mode: 'record', dir })).toThrow(
+      'requires inner',
+    );
+  });
+
+  describe('record', () => {
+    it('should write body and metadata keyed by URL hash', async () => {
+      const adapter = new FixtureCrawlerAdapter({ mode: 'record', dir, inner });
+
+      const result = await adapter.fetch(url);
+
+      const key = FixtureCrawlerAdapter.fixtureKey(url);
+      expect(result).toBe('<html>Opus One</html>');
+      expect(fs.readFileSync(path.join(dir, `${key}.html`), 'utf-8')).toBe(
+        '<html>Opus One</html>',
+      );
+      const metadata = JSON.parse(
+        fs.readFileSync(path.join(dir, `${key}.json`), 'utf-8'),
+      );
+      expect(metadata).toMatchObject({
+        url,
+        statusCode: 200,
+        headers: { 'content-type': 'text/html' },
+      });
+    });
+
+    it('should record error statuses and still throw for the caller', async () => {
+      inner.fetchPage.mockResolvedValue(
+        page({ statusCode: 404, body: 'missing' }),
+      );
+      const adapter = new FixtureCrawlerAdapter({ mode: 'record', dir, inner });
+
+      await expect(adapter.fetch(url)).rejects.toThrow(NotFoundError);
+
+      expect(inner.fetchPage).toHaveBeenCalledWith(url, {
+        acceptAnyStatus: true,
+      });
+      const key = FixtureCrawlerAdapter.fixtureKey(url);
+      expect(fs.existsSync(path.join(dir, `${key}.json`))).toBe(true);
+    });
+  });
+
+  describe('replay', () => {
+    it('should serve recorded responses without calling the network', async () => {
+      await new FixtureCrawlerAdapter({ mode: 'record', dir, inner }).fetch(
+        url,
+      );
+      inner.fetchPage.mockClear();
+
+      const replay = new FixtureCrawlerAdapter({ mode: 'replay', dir });
+      const result = await replay.fetchPage(url);
+
+      expect(result).toEqual(page());
+      expect(inner.fetchPage).not.toHaveBeenCalled();
+    });
+
+    it('should replay recorded error statuses as domain errors', async () => {
+      inner.fetchPage.mockResolvedValue(
+        page({ statusCode: 404, body: 'missing' }),
+      );
+      await new FixtureCrawlerAdapter({ mode: 'record', dir, inner })
+        .fetch(url)
+        .catch(() => undefined);
+
+      const replay = new FixtureCrawlerAdapter({ mode: 'replay', dir });
+
+      await expect(replay.fetch(url)).rejects.toThrow(NotFoundError);
+      await expect(
+        replay.fetchPage(url, { acceptAnyStatus: true }),
+      ).resolves.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should fail loudly on a fixture miss', async () => {
+      const replay = new FixtureCrawlerAdapter({ mode: 'replay', dir });
+
+      const error = await replay.fetch(url).catch((e) => e);
+
+      expect(error).toBeInstanceOf(FixtureNotFoundError);
+      expect(error.message).toContain(url);
+      expect(error.message).toContain('CRAWLER_FIXTURE_MODE=record');
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  CrawlerPort,
+  CrawlOptions,
+  FetchResult,
+  RedirectHop,
+} from '../../domain/ports/crawler.port';
+import { toHttpStatusError } from './http-status.util';
+
+export type FixtureMode = 'record' | 'replay';
+
+export interface FixtureCrawlerOptions {
+  /**
+   * record: 실제 어댑터로 요청하고 응답을 디스크에 기록합니다.
+   * replay: 디스크에 기록된 응답만 반환합니다 (네트워크 사용 안 함).
+   */
+  mode: FixtureMode;
+
+  /**
+   * 픽스처 저장 디렉터리
+   */
+  dir: string;
+
+  /**
+   * record 모드에서 실제 요청을 수행할 어댑터
+   */
+  inner?: CrawlerPort;
+}
+
+/**
+ * 픽스처 메타데이터 파일(`<hash>.json`) 형식
+ */
+interface FixtureMetadata {
+  url: string;
+  statusCode: number;
+  finalUrl: string;
+  headers: Record<string, string>;
+  redirects: RedirectHop[];
+  bytes: number;
+  durationMs: number;
+  recordedAt: string; // ISO 8601 format
+}
+
+/**
+ * replay 모드에서 기록되지 않은 URL을 요청했을 때 발생하는 에러
+ *
+ * @remarks
+ * 네트워크 에러가 아니므로 재시도되지 않으며, 필터에서 500으로 처리됩니다.
+ */
+export class FixtureNotFoundError extends Error {
+  constructor(
+    public readonly url: string,
+    public readonly fixturePath: string,
+  ) {
+    super(
+      `No recorded fixture for ${url} (expected ${fixturePath}). ` +
+        'Record it with CRAWLER_FIXTURE_MODE=record.',
+    );
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+/**
+ * FixtureCrawlerAdapter
+ *
+ * HTTP 응답을 URL 해시 기준으로 기록(record)하거나 재생(replay)하는 어댑터입니다.
+ * 네트워크 없이 실제 파서를 대상으로 결정적인 테스트를 수행하기 위해 사용합니다.
+ *
+ * @remarks
+ * 응답 본문은 `<hash>.html`, 상태 코드와 헤더 등은 `<hash>.json`에 저장합니다.
+ * 4xx/5xx 응답도 그대로 기록하며, 재생 시 실제 어댑터와 동일하게 도메인 에러로 변환합니다.
+ */
+export class FixtureCrawlerAdapter implements CrawlerPort {
+  private readonly logger = new Logger(FixtureCrawlerAdapter.name);
+  private readonly mode: FixtureMode;
+  private readonly dir: string;
+  private readonly inner?: CrawlerPort;
+
+  constructor(options: FixtureCrawlerOptions) {
+    if (options.mode === 'record' && !options.inner) {
+      throw new Error('FixtureCrawlerAdapter in record mode requires inner');
+    }
+
+    this.mode = options.mode;
+    this.dir = path.resolve(options.dir);
+    this.inner = options.inner;
+  }
+
+  /**
+   * URL에 대응하는 픽스처 파일 이름 (확장자 제외)
+   */
+  static fixtureKey(url: string): string {
+    return createHash('sha256').update(url).digest('hex').slice(0, 16);
+  }
+
+  async fetch(url: string, options: CrawlOptions = {}): Promise<string> {
+    const result = await this.fetchPage(url, options);
+    return result.body;
+  }
+
+  async fetchPage(
+    url: string,
+    options: CrawlOptions = {},
+  ): Promise<FetchResult> {
+    const result =
+      this.mode === 'record'
+        ? await this.record(url, options)
+        : await this.replay(url);
+
+    if (!options.acceptAnyStatus && result.statusCode >= 400) {
+      throw toHttpStatusError(url, result.statusCode, result.headers);
+    }
+
+    return result;
+  }
+
+  /**
+   * 실제 어댑터로 요청하고 응답을 픽스처로 저장합니다.
+   */
+  private async record(
+    url: string,
+    options: CrawlOptions,
+  ): Promise<FetchResult> {
+    // Capture error statuses too so failure paths can be replayed
+    const result = await (this.inner as CrawlerPort).fetchPage(url, {
+      ...options,
+      acceptAnyStatus: true,
+    });
+
+    const metadata: FixtureMetadata = {
+      url,
+      statusCode: result.statusCode,
+      finalUrl: result.finalUrl,
+      headers: result.headers,
+      redirects: result.redirects,
+      bytes: result.bytes,
+      durationMs: result.durationMs,
+      recordedAt: new Date().toISOString(),
+    };
+
+    const basePath = this.basePath(url);
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(`${basePath}.html`, result.body, 'utf-8');
+    await fs.writeFile(
+      `${basePath}.json`,
+      JSON.stringify(metadata, null, 2) + '\n',
+      'utf-8',
+    );
+
+    this.logger.log(`Recorded fixture ${basePath}.html for ${url}`);
+
+    return result;
+  }
+
+  /**
+   * 기록된 픽스처를 읽어 응답으로 반환합니다.
+   *
+   * @throws FixtureNotFoundError 기록된 픽스처가 없을 때
+   */
+  private async replay(url: string): Promise<FetchResult> {
+    const basePath = this.basePath(url);
+
+    let metadata: FixtureMetadata;
+    let body: string;
+    try {
+      metadata = JSON.parse(
+        await fs.readFile(`${basePath}.json`, 'utf-8'),
+      ) as FixtureMetadata;
+      body = await fs.readFile(`${basePath}.html`, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.logger.error(`Fixture miss for ${url} (${basePath})`);
+        throw new FixtureNotFoundError(url, `${basePath}.json`);
+      }
+      throw error;
+    }
+
+    return {
+      body,
+      statusCode: metadata.statusCode,
+      finalUrl: metadata.finalUrl,
+      headers: metadata.headers,
+      redirects: metadata.redirects ?? [],
+      bytes: metadata.bytes,
+      durationMs: metadata.durationMs,
+    };
+  }
+
+  private basePath(url: string): string {
+    return path.join(this.dir, FixtureCrawlerAdapter.fixtureKey(url));
+  }
+}
@@ -0,0 +1,58 @@
+import { parseRetryAfter, toHttpStatusError } from './http-status.util';
+import {
+  AccessDeniedError,
+  HttpStatusError,
+  NotFoundError,
+  RateLimitedError,
+} from '../../domain/errors/crawler.errors';
+
+describe('http-status.util', () => {
+  describe('parseRetryAfter', () => {
+    it('should parse delay in seconds', () => {
+      expect(parseRetryAfter('120')).toBe(120000);
+    });
+
+    it('should parse HTTP-date relative to now', () => {
+      const now = Date.parse('2025-01-01T00:00:00Z');
+
+      expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT', now)).toBe(30000);
+    });
+
+    it('should not return negative delays for past dates', () => {
+      const now = Date.parse('2025-01-01T00:00:00Z');
+
+      expect(parseRetryAfter('Tue, 31 Dec 2024 00:00:00 GMT', now)).toBe(0);
+    });
+
+    it('should return undefined for missing or invalid values', () => {
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  describe('toHttpStatusError', () => {
+    const url = 'https://example.com';
+
+    it('should map 404 to NotFoundError', () => {
+      expect(toHttpStatusError(url, 404, {})).toBeInstanceOf(NotFoundError);
+    });
+
+    it('should map 403 to AccessDeniedError', () => {
+      expect(toHttpStatusError(url, 403, {})).toBeInstanceOf(AccessDeniedError);
+    });
+
+    it('should map 429 to RateLimitedError with retry delay', () => {
+      const error = toHttpStatusError(url, 429, { 'retry-after': '5' });
+
+      expect(error).toBeInstanceOf(RateLimitedError);
+      expect((error as RateLimitedError).retryAfterMs).toBe(5000);
+    });
+
+    it('should map other statuses to HttpStatusError', () => {
+      const error = toHttpStatusError(url, 500, {});
+
+      expect(error).toBeInstanceOf(HttpStatusError);
+      expect(error.statusCode).toBe(500);
+    });
+  });
+});
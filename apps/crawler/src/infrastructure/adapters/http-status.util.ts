@@ -0,0 +1,67 @@
+import {
+  AccessDeniedError,
+  HttpStatusError,
+  NotFoundError,
+  RateLimitedError,
+} from '../../domain/errors/crawler.errors';
+
+/**
+ * Retry-After 헤더 값을 밀리초로 변환합니다.
+ * 초 단위 숫자와 HTTP-date 형식을 모두 지원합니다.
+ *
+ * @param value - Retry-After 헤더 값
+ * @param now - 기준 시각 (HTTP-date 계산용)
+ * @returns 대기 시간 (밀리초), 해석할 수 없으면 undefined
+ */
+export function parseRetryAfter(
+  value: string | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - now);
+}
+
+/**
+ * 4xx/5xx 상태 코드를 도메인 에러로 변환합니다.
+ *
+ * @param url - 요청 URL
+ * @param statusCode - HTTP 상태 코드
+ * @param headers - 응답 헤더 (소문자 키)
+ */
+export function toHttpStatusError(
+  url: string,
+  statusCode: number,
+  headers: Record<string, string>,
+): HttpStatusError {
+  switch (statusCode) {
+    case 404:
+      return new NotFoundError(`Page not found (404): ${url}`, url);
+    case 403:
+      return new AccessDeniedError(`Access denied (403): ${url}`, url);
+    case 429:
+      return new RateLimitedError(
+        `Rate limited (429): ${url}`,
+        url,
+        parseRetryAfter(headers['retry-after']),
+      );
+    default:
+      return new HttpStatusError(
+        `Unexpected HTTP status ${statusCode}: ${url}`,
+        url,
+        statusCode,
+      );
+  }
+}
@@ -0,0 +1,244 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ProxyAgent } from 'undici';
+import {
+  CrawlerPort,
+  CrawlOptions,
+  FetchResult,
+  RedirectHop,
+} from '../../domain/ports/crawler.port';
+import { NetworkError, TimeoutError } from '../../domain/errors/crawler.errors';
+import { toHttpStatusError } from './http-status.util';
+import { BROWSER_HEADER_PRESETS } from './browser-header-presets';
+import {
+  applySetCookies,
+  cookieHeaderFor,
+  readCookieJar,
+  writeCookieJar,
+} from '../session/cookie-jar';
+
+/**
+ * 따라갈 최대 리다이렉트 수 (curl 기본값과 동일)
+ */
+const MAX_REDIRECTS = 50;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * undici ProxyAgent가 지원하는 프록시 프로토콜
+ */
+export const NATIVE_PROXY_PROTOCOLS: readonly string[] = ['http:', 'https:'];
+
+/**
+ * NativeHttpCrawlerAdapter
+ *
+ * Node.js 내장 fetch(undici)를 사용하여 HTTP 요청을 수행하는 어댑터입니다.
+ * curl-impersonate 바이너리가 없는 환경(로컬 개발, ARM64 등)에서 CurlCrawlerAdapter 대신 사용합니다.
+ *
+ * @remarks
+ * 브라우저별 헤더 프리셋만 적용하며 TLS 핑거프린트는 흉내내지 않으므로 봇 차단에 더 취약합니다.
+ * 리다이렉트는 체인을 기록하기 위해 직접 따라갑니다.
+ * 프록시는 undici ProxyAgent로 HTTP/HTTPS 프록시만 지원합니다 (SOCKS5는 curl 어댑터 사용).
+ * 쿠키 파일은 curl과 같은 Netscape 형식으로 읽고 쓰므로 어댑터를 바꿔도 세션이 유지됩니다.
+ */
+@Injectable()
+export class NativeHttpCrawlerAdapter implements CrawlerPort, OnModuleDestroy {
+  private readonly logger = new Logger(NativeHttpCrawlerAdapter.name);
+  private readonly proxyAgents = new Map<string, ProxyAgent>();
+
+  /**
+   * 주어진 URL의 HTML을 크롤링합니다.
+   *
+   * @param url - 크롤링할 URL
+   * @param options - 크롤링 옵션
+   * @returns HTML 문자열
+   * @throws NetworkError 네트워크 오류 발생 시
+   * @throws TimeoutError 타임아웃 발생 시
+   */
+  async fetch(url: string, options: CrawlOptions = {}): Promise<string> {
+    const result = await this.fetchPage(url, options);
+    return result.body;
+  }
+
+  /**
+   * 주어진 URL을 크롤링하고 HTTP 메타데이터와 함께 응답을 반환합니다.
+   *
+   * @param url - 크롤링할 URL
+   * @param options - 크롤링 옵션
+   * @returns 응답 본문과 상태 코드, 헤더, 최종 URL 등
+   * @throws HttpStatusError 4xx/5xx 응답 시 (NotFoundError, AccessDeniedError, RateLimitedError 포함)
+   * @throws NetworkError 네트워크 오류 발생 시
+   * @throws TimeoutError 타임아웃 발생 시
+   */
+  async fetchPage(
+    url: string,
+    options: CrawlOptions = {},
+  ): Promise<FetchResult> {
+    const browser = options.browser || 'chrome116';
+    const timeout = options.timeout || 5000;
+    const startTime = Date.now();
+
+    this.logger.debug(
+      `Fetching URL: ${url} with browser preset: ${browser}, timeout: ${timeout}ms`,
+    );
+
+    const headers: Record<string, string> = {
+      ...BROWSER_HEADER_PRESETS[browser],
+      ...(options.userAgent ? { 'User-Agent': options.userAgent } : {}),
+      ...options.headers,
+    };
+    // A single deadline covers the whole redirect chain and body download
+    const signal = AbortSignal.timeout(timeout);
+
+    let currentUrl = url;
+    const redirects: RedirectHop[] = [];
+    let response: Response;
+    let body: string;
+
+    try {
+      // Inside the try so an unusable proxy surfaces as a proxy failure
+      const dispatcher = options.proxy
+        ? this.getProxyAgent(options.proxy, url)
+        : undefined;
+      let cookies = options.cookieJar
+        ? await readCookieJar(options.cookieJar)
+        : [];
+
+      for (;;) {
+        const cookieHeader = options.cookieJar
+          ? cookieHeaderFor(cookies, currentUrl)
+          : null;
+
+        response = await fetch(currentUrl, {
+          headers: cookieHeader
+            ? { ...headers, Cookie: cookieHeader }
+            : headers,
+          redirect: 'manual',
+          signal,
+          dispatcher, // undici extension, not part of the DOM RequestInit typings
+        } as RequestInit);
+
+        if (options.cookieJar) {
+          cookies = applySetCookies(
+            cookies,
+            response.headers.getSetCookie(),
+            currentUrl,
+          );
+        }
+
+        const location = response.headers.get('location');
+        if (!REDIRECT_STATUSES.has(response.status) || !location) {
+          break;
+        }
+
+        if (redirects.length >= MAX_REDIRECTS) {
+          throw new NetworkError(`Too many redirects for URL: ${url}`, url);
+        }
+
+        await response.body?.cancel();
+        currentUrl = new URL(location, currentUrl).toString();
+        redirects.push({ statusCode: response.status, location: currentUrl });
+      }
+
+      body = await response.text();
+
+      if (options.cookieJar) {
+        await writeCookieJar(options.cookieJar, cookies);
+      }
+    } catch (error) {
+      throw this.toDomainError(error, url, timeout);
+    }
+
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      responseHeaders[name] = value;
+    });
+
+    const result: FetchResult = {
+      body,
+      statusCode: response.status,
+      finalUrl: currentUrl,
+      headers: responseHeaders,
+      redirects,
+      bytes: Buffer.byteLength(body),
+      durationMs: Date.now() - startTime,
+    };
+
+    if (options.acceptAnyStatus) {
+      return result;
+    }
+
+    if (result.statusCode >= 400) {
+      throw toHttpStatusError(url, result.statusCode, result.headers);
+    }
+
+    if (result.body.trim().length === 0) {
+      throw new NetworkError(`Empty response from URL: ${url}`, url);
+    }
+
+    this.logger.debug(
+      `Fetched ${result.bytes} bytes from ${result.finalUrl} (HTTP ${result.statusCode}, ${result.durationMs}ms)`,
+    );
+
+    return result;
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await Promise.all(
+      [...this.proxyAgents.values()].map((agent) => agent.close()),
+    );
+    this.proxyAgents.clear();
+  }
+
+  /**
+   * 프록시 URL별 ProxyAgent를 재사용합니다 (연결 풀 유지).
+   *
+   * @throws NetworkError SOCKS 프록시처럼 지원하지 않는 프로토콜인 경우
+   */
+  private getProxyAgent(proxy: string, url: string): ProxyAgent {
+    const existing = this.proxyAgents.get(proxy);
+    if (existing) {
+      return existing;
+    }
+
+    const protocol = new URL(proxy).protocol;
+    if (!NATIVE_PROXY_PROTOCOLS.includes(protocol)) {
+      throw new NetworkError(
+        `Native adapter does not support ${protocol} proxies; use CRAWLER_ADAPTER=curl`,
+        url,
+      );
+    }
+
+    const agent = new ProxyAgent(proxy);
+    this.proxyAgents.set(proxy, agent);
+    return agent;
+  }
+
+  /**
+   * fetch 에러를 도메인 에러로 변환합니다.
+   */
+  private toDomainError(error: unknown, url: string, timeout: number): Error {
+    if (error instanceof NetworkError) {
+      return error;
+    }
+
+    // AbortSignal.timeout() rejects with a DOMException named TimeoutError
+    const name = (error as { name?: string }).name;
+    if (name === 'TimeoutError' || name === 'AbortError') {
+      return new TimeoutError(
+        `Request to ${url} timed out after ${timeout}ms`,
+        url,
+        timeout,
+      );
+    }
+
+    // undici reports the underlying socket error as `cause`
+    const cause = (error as { cause?: unknown }).cause;
+    const errorMessage =
+      cause instanceof Error
+        ? cause.message
+        : error instanceof Error
+          ? error.message
+          : 'Unknown error';
+    return new NetworkError(`Failed to fetch URL ${url}: ${errorMessage}`, url);
+  }
+}
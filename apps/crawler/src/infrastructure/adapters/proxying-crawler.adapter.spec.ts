@@ -0,0 +1,101 @@
+import { ProxyingCrawlerAdapter } from './proxying-crawler.adapter';
+import { ProxyPool } from '../proxy/proxy-pool';
+import { CrawlerPort } from '../../domain/ports/crawler.port';
+import {
+  BlockedError,
+  CrawlerConfigurationError,
+  NetworkError,
+  NotFoundError,
+  TimeoutError,
+} from '../../domain/errors/crawler.errors';
+
+describe('ProxyingCrawlerAdapter', () => {
+  const url = 'https://www.wine-searcher.com/find/opus+one';
+  const proxy = 'http://10.0.0.1:3128';
+  let inner: jest.Mocked<CrawlerPort>;
+  let pool: ProxyPool;
+  let adapter: ProxyingCrawlerAdapter;
+
+  beforeEach(() => {
+    inner = {
+      fetch: jest.fn(),
+      fetchPage: jest.fn().mockResolvedValue({ body: '<html></html>' }),
+    };
+    pool = new ProxyPool({ proxies: [proxy], maxConsecutiveFailures: 2 });
+    adapter = new ProxyingCrawlerAdapter(inner, pool);
+  });
+
+  it('should pass requests through when the pool is empty', async () => {
+    adapter = new ProxyingCrawlerAdapter(inner, new ProxyPool());
+
+    await adapter.fetch(url, { timeout: 1000 });
+
+    expect(inner.fetchPage).toHaveBeenCalledWith(url, { timeout: 1000 });
+  });
+
+  it('should assign a proxy from the pool', async () => {
+    const acquireSpy = jest.spyOn(pool, 'acquire');
+
+    await adapter.fetch(url, { sessionId: 'session-1' });
+
+    expect(acquireSpy).toHaveBeenCalledWith('session-1');
+    expect(inner.fetchPage).toHaveBeenCalledWith(url, {
+      sessionId: 'session-1',
+      proxy,
+    });
+    expect(pool.getHealth()[0].successes).toBe(1);
+  });
+
+  it('should keep an explicitly requested proxy', async () => {
+    await adapter.fetch(url, { proxy: 'socks5://10.0.0.9:1080' });
+
+    expect(inner.fetchPage).toHaveBeenCalledWith(url, {
+      proxy: 'socks5://10.0.0.9:1080',
+    });
+  });
+
+  it.each([
+    ['NetworkError', new NetworkError('Connection refused', url)],
+    ['TimeoutError', new TimeoutError('timed out', url, 5000)],
+    ['BlockedError', new BlockedError('challenge', url, 'cloudflare', 403)],
+  ])('should record %s as a proxy failure', async (_, error) => {
+    inner.fetchPage.mockRejectedValue(error);
+
+    await expect(adapter.fetch(url)).rejects.toBe(error);
+
+    expect(pool.getHealth()[0]).toMatchObject({
+      failures: 1,
+      lastError: error.message,
+    });
+  });
+
+  it('should evict the proxy after repeated failures', async () => {
+    inner.fetchPage.mockRejectedValue(new NetworkError('reset', url));
+
+    await adapter.fetch(url).catch(() => undefined);
+    await adapter.fetch(url).catch(() => undefined);
+
+    expect(pool.getHealth()[0].available).toBe(false);
+  });
+
+  it('should not blame the proxy for configuration errors', async () => {
+    inner.fetchPage.mockRejectedValue(
+      new CrawlerConfigurationError(
+        'curl-impersonate binary curl_ff109 is not installed',
+        'CRAWLER_FINGERPRINTS',
+      ),
+    );
+
+    await expect(adapter.fetch(url)).rejects.toThrow(CrawlerConfigurationError);
+
+    expect(pool.getHealth()[0]).toMatchObject({ failures: 0 });
+  });
+
+  it('should not blame the proxy for upstream HTTP errors', async () => {
+    inner.fetchPage.mockRejectedValue(new NotFoundError('missing', url));
+
+    await expect(adapter.fetch(url)).rejects.toThrow(NotFoundError);
+
+    expect(pool.getHealth()[0]).toMatchObject({ successes: 1, failures: 0 });
+  });
+});
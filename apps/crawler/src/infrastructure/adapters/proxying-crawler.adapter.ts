@@ -0,0 +1,65 @@
+import {
+  CrawlerPort,
+  CrawlOptions,
+  FetchResult,
+} from '../../domain/ports/crawler.port';
+import {
+  BlockedError,
+  HttpStatusError,
+  NetworkError,
+  TimeoutError,
+} from '../../domain/errors/crawler.errors';
+import { ProxyPool } from '../proxy/proxy-pool';
+
+/**
+ * ProxyingCrawlerAdapter
+ *
+ * 다른 CrawlerPort를 감싸 요청마다 프록시 풀에서 프록시를 할당하고 결과를 기록하는 데코레이터입니다.
+ *
+ * @remarks
+ * 네트워크 오류, 타임아웃, 봇 차단은 프록시 실패로 기록합니다.
+ * 대상 사이트의 4xx/5xx 응답은 프록시가 정상 동작한 것이므로 성공으로 기록합니다.
+ * 호출자가 `proxy`를 직접 지정했거나 풀이 비어 있으면 그대로 전달합니다.
+ */
+export class ProxyingCrawlerAdapter implements CrawlerPort {
+  constructor(
+    private readonly inner: CrawlerPort,
+    private readonly pool: ProxyPool,
+  ) {}
+
+  async fetch(url: string, options: CrawlOptions = {}): Promise<string> {
+    const result = await this.fetchPage(url, options);
+    return result.body;
+  }
+
+  async fetchPage(
+    url: string,
+    options: CrawlOptions = {},
+  ): Promise<FetchResult> {
+    const proxy = options.proxy ?? this.pool.acquire(options.sessionId);
+    if (!proxy) {
+      return this.inner.fetchPage(url, options);
+    }
+
+    try {
+      const result = await this.inner.fetchPage(url, { ...options, proxy });
+      this.pool.recordSuccess(proxy);
+      return result;
+    } catch (error) {
+      if (this.isProxyFailure(error)) {
+        this.pool.recordFailure(proxy, (error as Error).message);
+      } else if (error instanceof HttpStatusError) {
+        this.pool.recordSuccess(proxy);
+      }
+      throw error;
+    }
+  }
+
+  private isProxyFailure(error: unknown): boolean {
+    return (
+      error instanceof BlockedError ||
+      error instanceof TimeoutError ||
+      (error instanceof NetworkError && !(error instanceof HttpStatusError))
+    );
+  }
+}
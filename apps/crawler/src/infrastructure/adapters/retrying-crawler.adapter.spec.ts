@@ -0,0 +1,208 @@
+import { RetryingCrawlerAdapter } from './retrying-crawler.adapter';
+import { CrawlerPort } from '../../domain/ports/crawler.port';
+import {
+  BlockedError,
+  HttpStatusError,
+  NetworkError,
+  NotFoundError,
+  ParsingError,
+  RateLimitedError,
+  TimeoutError,
+} from '../../domain/errors/crawler.errors';
+
+describe('RetryingCrawlerAdapter', () => {
+  let inner: jest.Mocked<CrawlerPort>;
+  let adapter: RetryingCrawlerAdapter;
+  let sleepSpy: jest.SpyInstance;
+
+  const url = 'https://example.com';
+
+  beforeEach(() => {
+    inner = { fetch: jest.fn(), fetchPage: jest.fn() };
+    adapter = new RetryingCrawlerAdapter(inner, {
+      maxRetries: 3,
+      baseDelayMs: 1000,
+      maxDelayMs: 5000,
+      maxRetryAfterMs: 30000,
+    });
+    sleepSpy = jest.spyOn(adapter as any, 'sleep').mockResolvedValue(undefined);
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return result without retrying on success', async () => {
+    inner.fetch.mockResolvedValue('<html></html>');
+
+    await expect(adapter.fetch(url)).resolves.toBe('<html></html>');
+    expect(inner.fetch).toHaveBeenCalledTimes(1);
+    expect(sleepSpy).not.toHaveBeenCalled();
+  });
+
+  it('should retry TimeoutError and succeed', async () => {
+    inner.fetch
+      .mockRejectedValueOnce(new TimeoutError('timeout', url, 5000))
+      .mockResolvedValueOnce('<html></html>');
+
+    await expect(adapter.fetch(url)).resolves.toBe('<html></html>');
+    expect(inner.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry NetworkError with exponential backoff and jitter', async () => {
+    inner.fetch.mockRejectedValue(new NetworkError('reset', url));
+
+    await expect(adapter.fetch(url)).rejects.toThrow(NetworkError);
+
+    // 1 initial + 3 retries
+    expect(inner.fetch).toHaveBeenCalledTimes(4);
+    // equal jitter with random=0.5 → 75% of exponential delay
+    expect(sleepSpy.mock.calls.map(([ms]) => ms)).toEqual([750, 1500, 3000]);
+  });
+
+  it('should cap backoff at maxDelayMs', async () => {
+    adapter = new RetryingCrawlerAdapter(inner, {
+      maxRetries: 5,
+      baseDelayMs: 1000,
+      maxDelayMs: 2000,
+    });
+    sleepSpy = jest.spyOn(adapter as any, 'sleep').mockResolvedValue(undefined);
+    inner.fetch.mockRejectedValue(new NetworkError('reset', url));
+
+    await expect(adapter.fetch(url)).rejects.toThrow(NetworkError);
+
+    sleepSpy.mock.calls.forEach(([ms]) => expect(ms).toBeLessThanOrEqual(2000));
+  });
+
+  it('should not retry non-network errors', async () => {
+    inner.fetch.mockRejectedValue(new ParsingError('bad', url));
+
+    await expect(adapter.fetch(url)).rejects.toThrow(ParsingError);
+    expect(inner.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry 404 responses', async () => {
+    inner.fetch.mockRejectedValue(new NotFoundError('missing', url));
+
+    await expect(adapter.fetch(url)).rejects.toThrow(NotFoundError);
+    expect(inner.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry 5xx responses', async () => {
+    inner.fetch
+      .mockRejectedValueOnce(new HttpStatusError('unavailable', url, 503))
+      .mockResolvedValueOnce('<html></html>');
+
+    await expect(adapter.fetch(url)).resolves.toBe('<html></html>');
+    expect(inner.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry fetchPage with the same policy', async () => {
+    const page = {
+      body: '<html></html>',
+      statusCode: 200,
+      finalUrl: url,
+      headers: {},
+      redirects: [],
+      bytes: 13,
+      durationMs: 10,
+    };
+    inner.fetchPage
+      .mockRejectedValueOnce(new TimeoutError('timeout', url, 5000))
+      .mockResolvedValueOnce(page);
+
+    await expect(adapter.fetchPage(url)).resolves.toBe(page);
+    expect(inner.fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry rate limited responses without Retry-After', async () => {
+    inner.fetch.mockRejectedValue(new RateLimitedError('blocked', url));
+
+    await expect(adapter.fetch(url)).rejects.toThrow(RateLimitedError);
+    expect(inner.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should honor Retry-After for rate limited responses', async () => {
+    inner.fetch
+      .mockRejectedValueOnce(new RateLimitedError('slow down', url, 4000))
+      .mockResolvedValueOnce('<html></html>');
+
+    await expect(adapter.fetch(url)).resolves.toBe('<html></html>');
+    expect(sleepSpy).toHaveBeenCalledWith(4000);
+  });
+
+  it('should not retry when Retry-After exceeds the limit', async () => {
+    inner.fetch.mockRejectedValue(
+      new RateLimitedError('come back tomorrow', url, 86400000),
+    );
+
+    await expect(adapter.fetch(url)).rejects.toThrow(RateLimitedError);
+    expect(inner.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry blocked responses once after a long delay', async () => {
+    adapter = new RetryingCrawlerAdapter(inner, {
+      maxRetries: 3,
+      baseDelayMs: 1000,
+      blockedDelayMs: 20000,
+    });
+    sleepSpy = jest.spyOn(adapter as any, 'sleep').mockResolvedValue(undefined);
+    inner.fetch.mockRejectedValue(
+      new BlockedError('challenge', url, 'cloudflare', 403),
+    );
+
+    await expect(adapter.fetch(url)).rejects.toThrow(BlockedError);
+
+    // default maxBlockedRetries = 1
+    expect(inner.fetch).toHaveBeenCalledTimes(2);
+    expect(sleepSpy).toHaveBeenCalledWith(20750);
+  });
+
+  it('should not retry blocked responses when maxBlockedRetries is 0', async () => {
+    adapter = new RetryingCrawlerAdapter(inner, { maxBlockedRetries: 0 });
+    inner.fetch.mockRejectedValue(
+      new BlockedError('captcha', url, 'perimeterx', 200),
+    );
+
+    await expect(adapter.fetch(url)).rejects.toThrow(BlockedError);
+    expect(inner.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report each retry through onRetry callback', async () => {
+    const onRetry = jest.fn();
+    inner.fetch
+      .mockRejectedValueOnce(new NetworkError('reset', url))
+      .mockRejectedValueOnce(new TimeoutError('timeout', url, 5000))
+      .mockResolvedValueOnce('<html></html>');
+
+    await adapter.fetch(url, { onRetry });
+
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenNthCalledWith(
+      1,
+      1,
+      expect.any(NetworkError),
+      750,
+    );
+    expect(onRetry).toHaveBeenNthCalledWith(
+      2,
+      2,
+      expect.any(TimeoutError),
+      1500,
+    );
+  });
+
+  it('should log attempt counts', async () => {
+    const warnSpy = jest.spyOn(adapter['logger'], 'warn');
+    inner.fetch
+      .mockRejectedValueOnce(new NetworkError('reset', url))
+      .mockResolvedValueOnce('<html></html>');
+
+    await adapter.fetch(url);
+
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Attempt 1/4 failed'),
+    );
+  });
+});
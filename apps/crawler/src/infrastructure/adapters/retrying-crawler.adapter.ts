@@ -0,0 +1,201 @@
+import { Logger } from '@nestjs/common';
+import {
+  CrawlerPort,
+  CrawlOptions,
+  FetchResult,
+} from '../../domain/ports/crawler.port';
+import {
+  BlockedError,
+  HttpStatusError,
+  NetworkError,
+  RateLimitedError,
+  TimeoutError,
+} from '../../domain/errors/crawler.errors';
+
+export interface RetryOptions {
+  /**
+   * 최대 재시도 횟수 (최초 시도 제외)
+   * @default 3
+   */
+  maxRetries?: number;
+
+  /**
+   * 첫 재시도 기본 대기 시간 (밀리초), 시도마다 2배씩 증가합니다.
+   * @default 1000
+   */
+  baseDelayMs?: number;
+
+  /**
+   * 백오프 대기 시간 상한 (밀리초)
+   * @default 10000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * 허용하는 Retry-After 최대값 (밀리초), 초과하면 재시도하지 않습니다.
+   * @default 30000
+   */
+  maxRetryAfterMs?: number;
+
+  /**
+   * 봇 차단(BlockedError) 시 최대 재시도 횟수
+   * @default 1
+   */
+  maxBlockedRetries?: number;
+
+  /**
+   * 봇 차단 후 재시도 전 추가 대기 시간 (밀리초)
+   * @default 15000
+   */
+  blockedDelayMs?: number;
+}
+
+/**
+ * RetryingCrawlerAdapter
+ *
+ * 다른 CrawlerPort를 감싸 일시적인 실패를 지수 백오프 + 지터로 재시도하는 데코레이터입니다.
+ *
+ * @remarks
+ * - TimeoutError, NetworkError, 5xx/408 HttpStatusError는 재시도합니다.
+ * - 404, 403 등 그 밖의 4xx 응답은 재시도하지 않습니다.
+ * - RateLimitedError는 Retry-After가 있을 때만 그 시간 이후에 재시도합니다.
+ *   Retry-After가 없으면 봇 차단으로 간주하여 즉시 실패시킵니다.
+ * - BlockedError는 같은 핑거프린트로 바로 재요청하면 다시 차단되므로
+ *   긴 대기 후 제한된 횟수만 재시도합니다.
+ */
+export class RetryingCrawlerAdapter implements CrawlerPort {
+  private readonly logger = new Logger(RetryingCrawlerAdapter.name);
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly maxRetryAfterMs: number;
+  private readonly maxBlockedRetries: number;
+  private readonly blockedDelayMs: number;
+
+  constructor(
+    private readonly inner: CrawlerPort,
+    options: RetryOptions = {},
+  ) {
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 10000;
+    this.maxRetryAfterMs = options.maxRetryAfterMs ?? 30000;
+    this.maxBlockedRetries = options.maxBlockedRetries ?? 1;
+    this.blockedDelayMs = options.blockedDelayMs ?? 15000;
+  }
+
+  fetch(url: string, options: CrawlOptions = {}): Promise<string> {
+    return this.withRetry(url, options, () => this.inner.fetch(url, options));
+  }
+
+  fetchPage(url: string, options: CrawlOptions = {}): Promise<FetchResult> {
+    return this.withRetry(url, options, () =>
+      this.inner.fetchPage(url, options),
+    );
+  }
+
+  /**
+   * 재시도 정책에 따라 작업을 반복 실행합니다.
+   */
+  private async withRetry<T>(
+    url: string,
+    options: CrawlOptions,
+    task: () => Promise<T>,
+  ): Promise<T> {
+    let blocked = 0;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await task();
+        if (attempt > 1) {
+          this.logger.log(`Fetched ${url} after ${attempt} attempts`);
+        }
+        return result;
+      } catch (error) {
+        if (error instanceof BlockedError) {
+          blocked++;
+        }
+
+        const delayMs = this.getRetryDelay(error, attempt, blocked);
+        if (delayMs === null) {
+          if (attempt > 1) {
+            this.logger.error(
+              `Giving up on ${url} after ${attempt} attempts: ${(error as Error).message}`,
+            );
+          }
+          throw error;
+        }
+
+        this.logger.warn(
+          `Attempt ${attempt}/${this.maxRetries + 1} failed for ${url}: ${(error as Error).message}; retrying in ${delayMs}ms`,
+        );
+        options.onRetry?.(attempt, error as Error, delayMs);
+
+        await this.sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * 다음 재시도까지의 대기 시간을 계산합니다.
+   *
+   * @returns 대기 시간 (밀리초), 재시도하지 않아야 하면 null
+   */
+  private getRetryDelay(
+    error: unknown,
+    attempt: number,
+    blocked: number,
+  ): number | null {
+    if (attempt > this.maxRetries) {
+      return null;
+    }
+
+    if (error instanceof BlockedError) {
+      if (blocked > this.maxBlockedRetries) {
+        return null;
+      }
+      return this.blockedDelayMs + this.computeBackoff(attempt);
+    }
+
+    if (error instanceof RateLimitedError) {
+      if (
+        error.retryAfterMs === undefined ||
+        error.retryAfterMs > this.maxRetryAfterMs
+      ) {
+        return null;
+      }
+      return Math.max(error.retryAfterMs, this.computeBackoff(attempt));
+    }
+
+    if (
+      error instanceof HttpStatusError &&
+      error.statusCode < 500 &&
+      error.statusCode !== 408
+    ) {
+      return null;
+    }
+
+    if (error instanceof TimeoutError || error instanceof NetworkError) {
+      return this.computeBackoff(attempt);
+    }
+
+    return null;
+  }
+
+  /**
+   * 지수 백오프에 equal jitter를 적용한 대기 시간을 계산합니다.
+   * @example attempt=2, base=1000 → 1000~2000ms
+   */
+  private computeBackoff(attempt: number): number {
+    const exponential = Math.min(
+      this.maxDelayMs,
+      this.baseDelayMs * 2 ** (attempt - 1),
+    );
+    const half = exponential / 2;
+    return Math.round(half + Math.random() * half);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
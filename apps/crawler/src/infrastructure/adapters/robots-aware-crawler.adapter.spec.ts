@@ -0,0 +1,41 @@
+import { RobotsAwareCrawlerAdapter } from './robots-aware-crawler.adapter';
+import { RobotsTxtService } from '../robots/robots-txt.service';
+import { CrawlerPort } from '../../domain/ports/crawler.port';
+import { RobotsDisallowedError } from '../../domain/errors/crawler.errors';
+
+describe('RobotsAwareCrawlerAdapter', () => {
+  const url = 'https://www.wine-searcher.com/find/opus+one';
+  let inner: jest.Mocked<CrawlerPort>;
+  let robots: jest.Mocked<Pick<RobotsTxtService, 'assertAllowed'>>;
+  let adapter: RobotsAwareCrawlerAdapter;
+
+  beforeEach(() => {
+    inner = {
+      fetch: jest.fn().mockResolvedValue('<html></html>'),
+      fetchPage: jest.fn(),
+    };
+    robots = { assertAllowed: jest.fn().mockResolvedValue(undefined) };
+    adapter = new RobotsAwareCrawlerAdapter(
+      inner,
+      robots as unknown as RobotsTxtService,
+    );
+  });
+
+  it('should fetch URLs allowed by robots.txt', async () => {
+    await expect(adapter.fetch(url, { timeout: 1000 })).resolves.toBe(
+      '<html></html>',
+    );
+
+    expect(robots.assertAllowed).toHaveBeenCalledWith(url);
+    expect(inner.fetch).toHaveBeenCalledWith(url, { timeout: 1000 });
+  });
+
+  it('should not fetch disallowed URLs', async () => {
+    robots.assertAllowed.mockRejectedValue(
+      new RobotsDisallowedError('disallowed', url, 'WineScope'),
+    );
+
+    await expect(adapter.fetchPage(url)).rejects.toThrow(RobotsDisallowedError);
+    expect(inner.fetchPage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,31 @@
+import {
+  CrawlerPort,
+  CrawlOptions,
+  FetchResult,
+} from '../../domain/ports/crawler.port';
+import { RobotsTxtService } from '../robots/robots-txt.service';
+
+/**
+ * RobotsAwareCrawlerAdapter
+ *
+ * 다른 CrawlerPort를 감싸 robots.txt가 금지한 URL을 요청하기 전에 차단하는 데코레이터입니다.
+ *
+ * @remarks
+ * 금지된 요청은 재시도해도 결과가 같으므로 재시도 어댑터보다 바깥에 둡니다.
+ */
+export class RobotsAwareCrawlerAdapter implements CrawlerPort {
+  constructor(
+    private readonly inner: CrawlerPort,
+    private readonly robots: RobotsTxtService,
+  ) {}
+
+  async fetch(url: string, options?: CrawlOptions): Promise<string> {
+    await this.robots.assertAllowed(url);
+    return this.inner.fetch(url, options);
+  }
+
+  async fetchPage(url: string, options?: CrawlOptions): Promise<FetchResult> {
+    await this.robots.assertAllowed(url);
+    return this.inner.fetchPage(url, options);
+  }
+}
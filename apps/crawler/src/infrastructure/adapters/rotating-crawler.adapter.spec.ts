@@ -0,0 +1,78 @@
+import { RotatingCrawlerAdapter } from './rotating-crawler.adapter';
+import { FingerprintRotationService } from '../fingerprint/fingerprint-rotation.service';
+import { CrawlerPort } from '../../domain/ports/crawler.port';
+import { BlockedError, NetworkError } from '../../domain/errors/crawler.errors';
+
+describe('RotatingCrawlerAdapter', () => {
+  const url = 'https://www.wine-searcher.com/find/opus+one';
+  let inner: jest.Mocked<CrawlerPort>;
+  let rotation: FingerprintRotationService;
+  let adapter: RotatingCrawlerAdapter;
+
+  beforeEach(() => {
+    inner = {
+      fetch: jest.fn(),
+      fetchPage: jest.fn().mockResolvedValue({ body: '<html></html>' }),
+    };
+    rotation = new FingerprintRotationService({
+      browsers: ['chrome116', 'chrome110'],
+    });
+    adapter = new RotatingCrawlerAdapter(inner, rotation);
+  });
+
+  it('should pick a fingerprint by host when none is requested', async () => {
+    const pickSpy = jest.spyOn(rotation, 'pick');
+
+    await adapter.fetch(url, { timeout: 1000 });
+    await adapter.fetch(url, { timeout: 1000 });
+
+    expect(pickSpy).toHaveBeenCalledWith('www.wine-searcher.com');
+    expect(inner.fetchPage.mock.calls.map(([, options]) => options)).toEqual([
+      { timeout: 1000, browser: 'chrome116' },
+      { timeout: 1000, browser: 'chrome110' },
+    ]);
+  });
+
+  it('should honor an explicitly requested browser', async () => {
+    const pickSpy = jest.spyOn(rotation, 'pick');
+
+    await adapter.fetch(url, { browser: 'chrome110' });
+
+    expect(pickSpy).not.toHaveBeenCalled();
+    expect(inner.fetchPage).toHaveBeenCalledWith(url, { browser: 'chrome110' });
+  });
+
+  it('should record successes', async () => {
+    await adapter.fetch(url);
+
+    expect(rotation.getHealth().fingerprints[0]).toMatchObject({
+      browser: 'chrome116',
+      successes: 1,
+    });
+  });
+
+  it('should demote the fingerprint when blocked', async () => {
+    inner.fetchPage.mockRejectedValue(
+      new BlockedError('challenge', url, 'cloudflare', 403),
+    );
+
+    await expect(adapter.fetch(url)).rejects.toThrow(BlockedError);
+
+    expect(rotation.getHealth().fingerprints[0]).toMatchObject({
+      browser: 'chrome116',
+      blocks: 1,
+      available: false,
+    });
+  });
+
+  it('should not demote on other failures', async () => {
+    inner.fetchPage.mockRejectedValue(new NetworkError('reset', url));
+
+    await expect(adapter.fetch(url)).rejects.toThrow(NetworkError);
+
+    expect(rotation.getHealth().fingerprints[0]).toMatchObject({
+      blocks: 0,
+      available: true,
+    });
+  });
+});
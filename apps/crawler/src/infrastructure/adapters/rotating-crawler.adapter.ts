@@ -0,0 +1,54 @@
+import {
+  CrawlerPort,
+  CrawlOptions,
+  FetchResult,
+} from '../../domain/ports/crawler.port';
+import { BlockedError } from '../../domain/errors/crawler.errors';
+import { FingerprintRotationService } from '../fingerprint/fingerprint-rotation.service';
+
+/**
+ * RotatingCrawlerAdapter
+ *
+ * 다른 CrawlerPort를 감싸 요청마다 브라우저 핑거프린트를 선택하고 결과를 기록하는 데코레이터입니다.
+ *
+ * @remarks
+ * 호출자가 `browser`를 지정하면 그대로 사용하되 결과는 동일하게 기록합니다.
+ * RetryingCrawlerAdapter 안쪽에 두어 차단 후 재시도 시 다른 핑거프린트가 선택되도록 합니다.
+ */
+export class RotatingCrawlerAdapter implements CrawlerPort {
+  constructor(
+    private readonly inner: CrawlerPort,
+    private readonly rotation: FingerprintRotationService,
+  ) {}
+
+  async fetch(url: string, options: CrawlOptions = {}): Promise<string> {
+    const result = await this.fetchPage(url, options);
+    return result.body;
+  }
+
+  async fetchPage(
+    url: string,
+    options: CrawlOptions = {},
+  ): Promise<FetchResult> {
+    const browser = options.browser ?? this.rotation.pick(this.getHost(url));
+
+    try {
+      const result = await this.inner.fetchPage(url, { ...options, browser });
+      this.rotation.recordSuccess(browser);
+      return result;
+    } catch (error) {
+      if (error instanceof BlockedError) {
+        this.rotation.recordBlock(browser);
+      }
+      throw error;
+    }
+  }
+
+  private getHost(url: string): string {
+    try {
+      return new URL(url).host;
+    } catch {
+      return url;
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { SessionCrawlerAdapter } from './session-crawler.adapter';
+import { CookieSessionManager } from '../session/cookie-session-manager';
+import { CrawlerPort } from '../../domain/ports/crawler.port';
+import {
+  BlockedError,
+  NotFoundError,
+} from '../../domain/errors/crawler.errors';
+
+describe('SessionCrawlerAdapter', () => {
+  const url = 'https://www.wine-searcher.com/find/opus+one';
+  let inner: jest.Mocked<CrawlerPort>;
+  let sessions: jest.Mocked<
+    Pick<CookieSessionManager, 'withSession' | 'expire'>
+  >;
+  let adapter: SessionCrawlerAdapter;
+
+  beforeEach(() => {
+    inner = {
+      fetch: jest.fn(),
+      fetchPage: jest.fn().mockResolvedValue({ body: '<html></html>' }),
+    };
+    sessions = {
+      withSession: jest.fn((browser, proxy, task) =>
+        task({ id: 'abc', cookieJar: '/tmp/abc.txt' }),
+      ) as jest.Mocked<CookieSessionManager>['withSession'],
+      expire: jest.fn().mockResolvedValue(true),
+    };
+    adapter = new SessionCrawlerAdapter(
+      inner,
+      sessions as unknown as CookieSessionManager,
+    );
+  });
+
+  it('should attach the jar of the fingerprint/proxy pair', async () => {
+    await adapter.fetch(url, {
+      browser: 'chrome110',
+      proxy: 'http://10.0.0.1:3128',
+    });
+
+    expect(sessions.withSession).toHaveBeenCalledWith(
+      'chrome110',
+      'http://10.0.0.1:3128',
+      expect.any(Function),
+    );
+    expect(inner.fetchPage).toHaveBeenCalledWith(url, {
+      browser: 'chrome110',
+      proxy: 'http://10.0.0.1:3128',
+      cookieJar: '/tmp/abc.txt',
+    });
+  });
+
+  it('should keep an explicitly requested cookie jar', async () => {
+    await adapter.fetch(url, { cookieJar: '/tmp/mine.txt' });
+
+    expect(sessions.withSession).not.toHaveBeenCalled();
+    expect(inner.fetchPage).toHaveBeenCalledWith(url, {
+      cookieJar: '/tmp/mine.txt',
+    });
+  });
+
+  it('should expire the session when the request is blocked', async () => {
+    inner.fetchPage.mockRejectedValue(
+      new BlockedError('challenge', url, 'cloudflare', 403),
+    );
+
+    await expect(adapter.fetch(url, { browser: 'chrome116' })).rejects.toThrow(
+      BlockedError,
+    );
+    expect(sessions.expire).toHaveBeenCalledWith(
+      'abc',
+      expect.stringContaining('cloudflare'),
+    );
+  });
+
+  it('should keep the session on other errors', async () => {
+    inner.fetchPage.mockRejectedValue(new NotFoundError('missing', url));
+
+    await expect(adapter.fetch(url)).rejects.toThrow(NotFoundError);
+    expect(sessions.expire).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  CrawlerPort,
+  CrawlOptions,
+  FetchResult,
+} from '../../domain/ports/crawler.port';
+import { BlockedError } from '../../domain/errors/crawler.errors';
+import { CookieSessionManager } from '../session/cookie-session-manager';
+
+/**
+ * SessionCrawlerAdapter
+ *
+ * 다른 CrawlerPort를 감싸 핑거프린트/프록시 조합별 쿠키 파일을 요청에 연결하는 데코레이터입니다.
+ *
+ * @remarks
+ * 핑거프린트와 프록시가 정해진 뒤에 적용되어야 하므로 Rotating/Proxying 어댑터 안쪽에 둡니다.
+ * 같은 쿠키 파일을 쓰는 요청은 하나씩 실행하고,
+ * 봇 차단이 감지되면 차단된 쿠키로 재시도하지 않도록 세션을 폐기합니다.
+ * 호출자가 `cookieJar`를 직접 지정하면 그대로 전달합니다.
+ */
+export class SessionCrawlerAdapter implements CrawlerPort {
+  constructor(
+    private readonly inner: CrawlerPort,
+    private readonly sessions: CookieSessionManager,
+  ) {}
+
+  async fetch(url: string, options: CrawlOptions = {}): Promise<string> {
+    const result = await this.fetchPage(url, options);
+    return result.body;
+  }
+
+  async fetchPage(
+    url: string,
+    options: CrawlOptions = {},
+  ): Promise<FetchResult> {
+    if (options.cookieJar) {
+      return this.inner.fetchPage(url, options);
+    }
+
+    return this.sessions.withSession(
+      options.browser ?? 'default',
+      options.proxy,
+      async (session) => {
+        try {
+          return await this.inner.fetchPage(url, {
+            ...options,
+            cookieJar: session.cookieJar,
+          });
+        } catch (error) {
+          if (error instanceof BlockedError) {
+            await this.sessions.expire(
+              session.id,
+              `blocked by ${error.vendor} at ${url}`,
+            );
+          }
+          throw error;
+        }
+      },
+    );
+  }
+}
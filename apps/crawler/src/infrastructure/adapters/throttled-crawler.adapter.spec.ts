@@ -0,0 +1,57 @@
+import { ThrottledCrawlerAdapter } from './throttled-crawler.adapter';
+import { HostScheduler } from '../scheduling/host-scheduler';
+import { CrawlerPort } from '../../domain/ports/crawler.port';
+import { NetworkError } from '../../domain/errors/crawler.errors';
+
+describe('ThrottledCrawlerAdapter', () => {
+  let inner: jest.Mocked<CrawlerPort>;
+  let scheduler: HostScheduler;
+  let adapter: ThrottledCrawlerAdapter;
+
+  beforeEach(() => {
+    inner = {
+      fetch: jest.fn().mockResolvedValue('<html></html>'),
+      fetchPage: jest.fn(),
+    };
+    scheduler = new HostScheduler();
+    adapter = new ThrottledCrawlerAdapter(inner, scheduler);
+  });
+
+  it('should schedule fetch by URL host', async () => {
+    const scheduleSpy = jest.spyOn(scheduler, 'schedule');
+
+    const result = await adapter.fetch('https://www.wine-searcher.com/find/x', {
+      timeout: 1000,
+    });
+
+    expect(result).toBe('<html></html>');
+    expect(scheduleSpy).toHaveBeenCalledWith(
+      'www.wine-searcher.com',
+      expect.any(Function),
+    );
+    expect(inner.fetch).toHaveBeenCalledWith(
+      'https://www.wine-searcher.com/find/x',
+      { timeout: 1000 },
+    );
+  });
+
+  it('should schedule fetchPage by URL host', async () => {
+    const scheduleSpy = jest.spyOn(scheduler, 'schedule');
+
+    await adapter.fetchPage('https://example.com/page');
+
+    expect(scheduleSpy).toHaveBeenCalledWith(
+      'example.com',
+      expect.any(Function),
+    );
+    expect(inner.fetchPage).toHaveBeenCalledWith(
+      'https://example.com/page',
+      undefined,
+    );
+  });
+
+  it('should reject invalid URLs with NetworkError', async () => {
+    await expect(adapter.fetch('not a url')).rejects.toThrow(NetworkError);
+    expect(inner.fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,39 @@
+import {
+  CrawlerPort,
+  CrawlOptions,
+  FetchResult,
+} from '../../domain/ports/crawler.port';
+import { NetworkError } from '../../domain/errors/crawler.errors';
+import { HostScheduler } from '../scheduling/host-scheduler';
+
+/**
+ * ThrottledCrawlerAdapter
+ *
+ * 다른 CrawlerPort를 감싸 HostScheduler를 통해 호스트별 요청 속도와 동시성을 제한하는 데코레이터입니다.
+ */
+export class ThrottledCrawlerAdapter implements CrawlerPort {
+  constructor(
+    private readonly inner: CrawlerPort,
+    private readonly scheduler: HostScheduler,
+  ) {}
+
+  async fetch(url: string, options?: CrawlOptions): Promise<string> {
+    return this.scheduler.schedule(this.getHost(url), () =>
+      this.inner.fetch(url, options),
+    );
+  }
+
+  async fetchPage(url: string, options?: CrawlOptions): Promise<FetchResult> {
+    return this.scheduler.schedule(this.getHost(url), () =>
+      this.inner.fetchPage(url, options),
+    );
+  }
+
+  private getHost(url: string): string {
+    try {
+      return new URL(url).host;
+    } catch {
+      throw new NetworkError(`Invalid URL: ${url}`, url);
+    }
+  }
+}
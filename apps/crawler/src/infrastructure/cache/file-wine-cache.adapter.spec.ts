@@ -0,0 +1,85 @@
+import { FileWineCacheAdapter } from './file-wine-cache.adapter';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('FileWineCacheAdapter', () => {
+  let tmpDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wine-cache-'));
+    filePath = path.join(tmpDir, 'nested', 'cache.json');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should return null when cache file does not exist', async () => {
+    const cache = new FileWineCacheAdapter({ filePath });
+
+    expect(await cache.get('missing')).toBeNull();
+  });
+
+  it('should persist entries to disk', async () => {
+    const cache = new FileWineCacheAdapter({ filePath, ttlMs: 60000 });
+
+    await cache.set('key', { name: 'Opus One' });
+
+    const content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    expect(content.key.value).toEqual({ name: 'Opus One' });
+  });
+
+  it('should keep every entry set while the cache file is first read', async () => {
+    const cache = new FileWineCacheAdapter({ filePath });
+
+    await Promise.all([cache.set('first', 1), cache.set('second', 2)]);
+
+    const restored = new FileWineCacheAdapter({ filePath });
+    expect((await restored.get('first'))?.value).toBe(1);
+    expect((await restored.get('second'))?.value).toBe(2);
+  });
+
+  it('should restore entries in a new instance', async () => {
+    await new FileWineCacheAdapter({ filePath }).set('key', 'value');
+
+    const entry = await new FileWineCacheAdapter({ filePath }).get('key');
+
+    expect(entry).not.toBeNull();
+    expect(entry!.value).toBe('value');
+    expect(entry!.cachedAt).toBeInstanceOf(Date);
+  });
+
+  it('should treat expired entries as missing', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    const cache = new FileWineCacheAdapter({ filePath, ttlMs: 1000 });
+    await cache.set('key', 'value');
+
+    jest.advanceTimersByTime(1001);
+
+    expect(await cache.get('key')).toBeNull();
+  });
+
+  it('should delete and clear entries', async () => {
+    const cache = new FileWineCacheAdapter({ filePath });
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+
+    await cache.delete('a');
+    expect(await cache.get('a')).toBeNull();
+
+    await cache.clear();
+    expect(await cache.get('b')).toBeNull();
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf-8'))).toEqual({});
+  });
+
+  it('should start empty when cache file is corrupted', async () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '{not json', 'utf-8');
+    const cache = new FileWineCacheAdapter({ filePath });
+
+    expect(await cache.get('key')).toBeNull();
+  });
+});
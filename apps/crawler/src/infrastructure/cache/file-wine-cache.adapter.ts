@@ -0,0 +1,136 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { CacheEntry, WineCachePort } from '../../domain/ports/wine-cache.port';
+
+export interface FileWineCacheOptions {
+  /**
+   * 캐시 파일 경로
+   */
+  filePath: string;
+
+  /**
+   * 기본 만료 시간 (밀리초)
+   * @default 3600000
+   */
+  ttlMs?: number;
+}
+
+interface SerializedEntry {
+  value: unknown;
+  cachedAt: string; // ISO 8601 format
+  expiresAt: string; // ISO 8601 format
+}
+
+/**
+ * FileWineCacheAdapter
+ *
+ * 캐시 엔트리를 JSON 파일에 저장하는 어댑터입니다.
+ * 로컬 개발 환경에서 서비스 재시작 후에도 캐시를 유지하기 위해 사용합니다.
+ */
+@Injectable()
+export class FileWineCacheAdapter implements WineCachePort {
+  private readonly logger = new Logger(FileWineCacheAdapter.name);
+  private readonly filePath: string;
+  private readonly ttlMs: number;
+  private entries: Map<string, SerializedEntry> | null = null;
+  private loading: Promise<Map<string, SerializedEntry>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(options: FileWineCacheOptions) {
+    this.filePath = path.resolve(options.filePath);
+    this.ttlMs = options.ttlMs ?? 60 * 60 * 1000;
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entries = await this.load();
+    const entry = entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    const expiresAt = new Date(entry.expiresAt);
+    if (expiresAt.getTime() <= Date.now()) {
+      entries.delete(key);
+      await this.persist();
+      return null;
+    }
+
+    return {
+      value: entry.value as T,
+      cachedAt: new Date(entry.cachedAt),
+      expiresAt,
+    };
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    const entries = await this.load();
+    const now = Date.now();
+
+    entries.set(key, {
+      value,
+      cachedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + (ttlMs ?? this.ttlMs)).toISOString(),
+    });
+
+    await this.persist();
+  }
+
+  async delete(key: string): Promise<void> {
+    const entries = await this.load();
+    if (entries.delete(key)) {
+      await this.persist();
+    }
+  }
+
+  async clear(): Promise<void> {
+    const entries = await this.load();
+    entries.clear();
+    await this.persist();
+  }
+
+  /**
+   * 캐시 파일을 읽어 메모리에 적재합니다 (최초 1회).
+   * 첫 읽기가 끝나기 전에 들어온 호출도 같은 Map을 받도록 읽기 작업을 공유합니다.
+   */
+  private load(): Promise<Map<string, SerializedEntry>> {
+    this.loading ??= this.readFile();
+    return this.loading;
+  }
+
+  private async readFile(): Promise<Map<string, SerializedEntry>> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const parsed = JSON.parse(content) as Record<string, SerializedEntry>;
+      this.entries = new Map(Object.entries(parsed));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn(
+          `Failed to read cache file ${this.filePath}, starting empty: ${error}`,
+        );
+      }
+      this.entries = new Map();
+    }
+
+    return this.entries;
+  }
+
+  /**
+   * 메모리의 엔트리를 파일에 기록합니다.
+   * 동시 쓰기를 방지하기 위해 쓰기 작업을 직렬화합니다.
+   */
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(
+      Object.fromEntries(this.entries ?? new Map()),
+    );
+
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(this.filePath, snapshot, 'utf-8');
+      });
+
+    return this.writeQueue;
+  }
+}
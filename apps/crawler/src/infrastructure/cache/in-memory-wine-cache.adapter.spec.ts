@@ -0,0 +1,87 @@
+import { InMemoryWineCacheAdapter } from './in-memory-wine-cache.adapter';
+
+describe('InMemoryWineCacheAdapter', () => {
+  let cache: InMemoryWineCacheAdapter;
+
+  beforeEach(() => {
+    cache = new InMemoryWineCacheAdapter({ ttlMs: 1000, maxEntries: 3 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('get/set', () => {
+    it('should return null for missing key', async () => {
+      expect(await cache.get('missing')).toBeNull();
+    });
+
+    it('should return stored value with timestamps', async () => {
+      await cache.set('key', { name: 'Opus One' });
+
+      const entry = await cache.get<{ name: string }>('key');
+
+      expect(entry).not.toBeNull();
+      expect(entry!.value).toEqual({ name: 'Opus One' });
+      expect(entry!.cachedAt).toBeInstanceOf(Date);
+      expect(entry!.expiresAt.getTime()).toBe(entry!.cachedAt.getTime() + 1000);
+    });
+
+    it('should expire entries after TTL', async () => {
+      jest.useFakeTimers();
+      await cache.set('key', 'value');
+
+      jest.advanceTimersByTime(1001);
+
+      expect(await cache.get('key')).toBeNull();
+      expect(cache.size).toBe(0);
+    });
+
+    it('should honor per-entry TTL override', async () => {
+      jest.useFakeTimers();
+      await cache.set('key', 'value', 5000);
+
+      jest.advanceTimersByTime(2000);
+
+      expect(await cache.get('key')).not.toBeNull();
+    });
+  });
+
+  describe('LRU eviction', () => {
+    it('should evict least recently used entry when full', async () => {
+      await cache.set('a', 1);
+      await cache.set('b', 2);
+      await cache.set('c', 3);
+
+      // Touch "a" so "b" becomes least recently used
+      await cache.get('a');
+      await cache.set('d', 4);
+
+      expect(cache.size).toBe(3);
+      expect(await cache.get('a')).not.toBeNull();
+      expect(await cache.get('b')).toBeNull();
+      expect(await cache.get('d')).not.toBeNull();
+    });
+  });
+
+  describe('delete/clear', () => {
+    it('should delete a single entry', async () => {
+      await cache.set('a', 1);
+      await cache.set('b', 2);
+
+      await cache.delete('a');
+
+      expect(await cache.get('a')).toBeNull();
+      expect(await cache.get('b')).not.toBeNull();
+    });
+
+    it('should clear all entries', async () => {
+      await cache.set('a', 1);
+      await cache.set('b', 2);
+
+      await cache.clear();
+
+      expect(cache.size).toBe(0);
+    });
+  });
+});
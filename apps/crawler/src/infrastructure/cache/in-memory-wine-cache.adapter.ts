@@ -0,0 +1,92 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CacheEntry, WineCachePort } from '../../domain/ports/wine-cache.port';
+
+export interface InMemoryWineCacheOptions {
+  /**
+   * 기본 만료 시간 (밀리초)
+   * @default 3600000
+   */
+  ttlMs?: number;
+
+  /**
+   * 최대 엔트리 수, 초과 시 가장 오래 사용되지 않은 엔트리를 제거합니다.
+   * @default 500
+   */
+  maxEntries?: number;
+}
+
+/**
+ * InMemoryWineCacheAdapter
+ *
+ * Map의 삽입 순서를 이용한 LRU + TTL 메모리 캐시 어댑터입니다.
+ * 프로세스가 재시작되면 캐시는 초기화됩니다.
+ */
+@Injectable()
+export class InMemoryWineCacheAdapter implements WineCachePort {
+  private readonly logger = new Logger(InMemoryWineCacheAdapter.name);
+  private readonly entries = new Map<string, CacheEntry<unknown>>();
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+
+  constructor(options: InMemoryWineCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 60 * 60 * 1000;
+    this.maxEntries = options.maxEntries ?? 500;
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt.getTime() <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    const now = Date.now();
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      cachedAt: new Date(now),
+      expiresAt: new Date(now + (ttlMs ?? this.ttlMs)),
+    });
+
+    this.evictOverflow();
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /**
+   * 현재 저장된 엔트리 수를 반환합니다.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * 최대 엔트리 수를 초과한 경우 가장 오래된 엔트리부터 제거합니다.
+   */
+  private evictOverflow(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+      this.logger.debug(`Evicted cache entry: ${oldestKey}`);
+    }
+  }
+}
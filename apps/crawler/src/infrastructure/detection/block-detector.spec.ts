@@ -0,0 +1,129 @@
+import { BlockDetector } from './block-detector';
+import { FetchResult } from '../../domain/ports/crawler.port';
+
+describe('BlockDetector', () => {
+  const detector = new BlockDetector();
+
+  const page = (overrides: Partial<FetchResult> = {}): FetchResult => ({
+    body: '<html><h1>Opus One 2018</h1></html>',
+    statusCode: 200,
+    finalUrl: 'https://www.wine-searcher.com/find/opus+one',
+    headers: {},
+    redirects: [],
+    bytes: 35,
+    durationMs: 100,
+    ...overrides,
+  });
+
+  it('should not flag regular pages', () => {
+    expect(detector.detect(page())).toBeNull();
+  });
+
+  it('should not flag regular error pages', () => {
+    expect(
+      detector.detect(page({ statusCode: 404, body: '<h1>Not Found</h1>' })),
+    ).toBeNull();
+  });
+
+  it('should not flag regular pages carrying bot management sensor scripts', () => {
+    const body =
+      '<html><head><title>Opus One 2018 | Wine-Searcher</title>' +
+      '<script src="/cdn-cgi/challenge-platform/scripts/jsd/main.js"></script>' +
+      '<script>window._pxAppId = "PXabc123";</script></head>' +
+      '<body><h1>Opus One 2018</h1></body></html>';
+
+    expect(detector.detect(page({ body }))).toBeNull();
+  });
+
+  it('should flag sensor scripts on challenge statuses', () => {
+    expect(
+      detector.detect(
+        page({
+          statusCode: 503,
+          body: '<script src="/cdn-cgi/challenge-platform/h/b/orchestrate/jsch/v1"></script>',
+        }),
+      )?.vendor,
+    ).toBe('cloudflare');
+    expect(
+      detector.detect(
+        page({
+          statusCode: 403,
+          body: '<script>window._pxAppId = "PXabc123";</script>',
+        }),
+      )?.vendor,
+    ).toBe('perimeterx');
+  });
+
+  it('should detect Cloudflare challenges by cf-mitigated header', () => {
+    expect(
+      detector.detect(
+        page({ statusCode: 403, headers: { 'cf-mitigated': 'challenge' } }),
+      ),
+    ).toEqual({ vendor: 'cloudflare', reason: 'cf-mitigated header' });
+  });
+
+  it('should detect Cloudflare interstitials served with 200', () => {
+    const body =
+      '<html><head><title>Just a moment...</title></head>' +
+      '<body><h1>www.wine-searcher.com</h1>' +
+      '<script src="/cdn-cgi/challenge-platform/h/b/orchestrate/jsch/v1"></script></body></html>';
+
+    expect(detector.detect(page({ body }))?.vendor).toBe('cloudflare');
+  });
+
+  it('should detect PerimeterX captcha pages', () => {
+    const body =
+      '<html><body><div id="px-captcha"></div>' +
+      '<script>window._pxAppId = "PXabc123";</script></body></html>';
+
+    expect(detector.detect(page({ statusCode: 403, body }))?.vendor).toBe(
+      'perimeterx',
+    );
+  });
+
+  it('should detect DataDome captcha pages', () => {
+    const body =
+      '<html><body><iframe src="https://geo.captcha-delivery.com/captcha/?initialCid=x"></iframe></body></html>';
+
+    expect(detector.detect(page({ statusCode: 403, body }))?.vendor).toBe(
+      'datadome',
+    );
+  });
+
+  it('should detect DataDome blocks by header on 403', () => {
+    expect(
+      detector.detect(
+        page({ statusCode: 403, headers: { 'x-datadome': 'protected' } }),
+      )?.vendor,
+    ).toBe('datadome');
+  });
+
+  it('should detect Akamai access denied pages', () => {
+    const body =
+      '<HTML><HEAD><TITLE>Access Denied</TITLE></HEAD><BODY>' +
+      'Reference&#32;&#35;18&#46;abc<P>https&#58;&#47;&#47;errors&#46;edgesuite&#46;net</BODY></HTML>';
+
+    expect(detector.detect(page({ statusCode: 403, body }))?.vendor).toBe(
+      'akamai',
+    );
+  });
+
+  it('should detect generic captcha widgets on challenge statuses', () => {
+    const body =
+      '<html><body><form><div class="g-recaptcha" data-sitekey="x"></div></form></body></html>';
+
+    expect(detector.detect(page({ statusCode: 403, body }))).toEqual({
+      vendor: 'captcha',
+      reason: 'generic captcha widget',
+    });
+  });
+
+  it('should not flag regular pages with an embedded captcha widget', () => {
+    const body =
+      '<html><body><h1>Opus One 2018</h1>' +
+      '<form id="newsletter"><div class="h-captcha" data-sitekey="x"></div></form>' +
+      '<form id="login"><div class="g-recaptcha" data-sitekey="y"></div></form></body></html>';
+
+    expect(detector.detect(page({ body }))).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import { Injectable } from '@nestjs/common';
+import { FetchResult } from '../../domain/ports/crawler.port';
+import { BlockVendor } from '../../domain/errors/crawler.errors';
+
+export interface BlockDetection {
+  vendor: BlockVendor;
+
+  /**
+   * 판별 근거 (로그용)
+   */
+  reason: string;
+}
+
+interface BlockSignature {
+  vendor: BlockVendor;
+  reason: string;
+  matches: (page: FetchResult) => boolean;
+}
+
+/**
+ * 본문 검사 대상 길이. 챌린지 페이지는 작으므로 큰 정상 페이지 전체를 검사하지 않습니다.
+ */
+const BODY_SCAN_LIMIT = 64 * 1024;
+
+const bodyIncludes =
+  (...needles: string[]) =>
+  (page: FetchResult): boolean => {
+    const body = page.body.slice(0, BODY_SCAN_LIMIT);
+    return needles.some((needle) => body.includes(needle));
+  };
+
+/**
+ * 챌린지 응답 상태 코드일 때만 검사합니다.
+ * 봇 관리 센서 스크립트, 캡차 위젯처럼 정상 페이지에도 삽입되는 흔적에 사용합니다.
+ */
+const onChallengeStatus =
+  (matches: (page: FetchResult) => boolean) =>
+  (page: FetchResult): boolean =>
+    (page.statusCode === 403 || page.statusCode === 503) && matches(page);
+
+/**
+ * 벤더별 챌린지 페이지 시그니처 (위에서부터 순서대로 검사)
+ */
+const SIGNATURES: BlockSignature[] = [
+  {
+    vendor: 'cloudflare',
+    reason: 'cf-mitigated header',
+    matches: (page) => page.headers['cf-mitigated'] === 'challenge',
+  },
+  {
+    vendor: 'cloudflare',
+    reason: 'Cloudflare challenge page',
+    matches: (page) =>
+      bodyIncludes(
+        'cf-browser-verification',
+        '<title>Just a moment...</title>',
+        'Attention Required! | Cloudflare',
+      )(page) ||
+      // Bot management also injects this script into regular pages
+      onChallengeStatus(bodyIncludes('/cdn-cgi/challenge-platform/'))(page),
+  },
+  {
+    vendor: 'perimeterx',
+    reason: 'PerimeterX captcha page',
+    matches: (page) =>
+      bodyIncludes('px-captcha', 'captcha.px-cdn.net')(page) ||
+      // The sensor script sets this on every protected page
+      onChallengeStatus(bodyIncludes('window._pxAppId'))(page),
+  },
+  {
+    vendor: 'datadome',
+    reason: 'DataDome captcha page',
+    matches: (page) =>
+      (page.statusCode === 403 && page.headers['x-datadome'] !== undefined) ||
+      bodyIncludes('captcha-delivery.com')(page),
+  },
+  {
+    vendor: 'akamai',
+    reason: 'Akamai access denied page',
+    matches: (page) =>
+      page.statusCode === 403 &&
+      ((page.headers.server ?? '').includes('AkamaiGHost') ||
+        bodyIncludes('errors.edgesuite.net', 'Reference&#32;&#35;')(page)),
+  },
+  {
+    vendor: 'captcha',
+    reason: 'generic captcha widget',
+    // Login and newsletter forms embed these widgets on regular pages too
+    matches: onChallengeStatus(
+      bodyIncludes(
+        'class="g-recaptcha"',
+        'class="h-captcha"',
+        'class="cf-turnstile"',
+      ),
+    ),
+  },
+];
+
+/**
+ * BlockDetector
+ *
+ * 응답이 실제 페이지가 아닌 봇 챌린지/캡차/인터스티셜 페이지인지 판별합니다.
+ *
+ * @remarks
+ * 챌린지 페이지는 200으로 응답하는 경우도 있으므로 상태 코드가 아닌 헤더와 본문 시그니처로 판별합니다.
+ * 다만 정상 페이지에도 삽입되는 센서 스크립트와 캡차 위젯은 403/503 응답에서만 차단 근거로 봅니다.
+ */
+@Injectable()
+export class BlockDetector {
+  /**
+   * @returns 차단으로 판별되면 벤더와 근거, 아니면 null
+   */
+  detect(page: FetchResult): BlockDetection | null {
+    const signature = SIGNATURES.find((candidate) => candidate.matches(page));
+    return signature
+      ? { vendor: signature.vendor, reason: signature.reason }
+      : null;
+  }
+}
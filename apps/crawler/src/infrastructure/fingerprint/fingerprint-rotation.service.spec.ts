@@ -0,0 +1,143 @@
+import { FingerprintRotationService } from './fingerprint-rotation.service';
+import { SUPPORTED_BROWSERS } from '@winescope/common/constants';
+
+describe('FingerprintRotationService', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should rotate through every supported browser by default', () => {
+    const rotation = new FingerprintRotationService();
+
+    const picks = SUPPORTED_BROWSERS.map(() => rotation.pick('example.com'));
+
+    expect(picks).toEqual([...SUPPORTED_BROWSERS]);
+    expect(rotation.pick('example.com')).toBe(SUPPORTED_BROWSERS[0]);
+  });
+
+  it('should restrict rotation to configured browsers', () => {
+    const rotation = new FingerprintRotationService({
+      browsers: ['chrome110', 'chrome99'],
+    });
+
+    expect([1, 2, 3].map(() => rotation.pick('example.com'))).toEqual([
+      'chrome110',
+      'chrome99',
+      'chrome110',
+    ]);
+  });
+
+  it('should skip demoted browsers until the cooldown passes', () => {
+    jest.useFakeTimers({ now: 0 });
+    const rotation = new FingerprintRotationService({
+      browsers: ['chrome116', 'chrome110'],
+      blockCooldownMs: 1000,
+    });
+
+    rotation.recordBlock('chrome116');
+
+    expect([1, 2, 3].map(() => rotation.pick('example.com'))).toEqual([
+      'chrome110',
+      'chrome110',
+      'chrome110',
+    ]);
+
+    jest.advanceTimersByTime(1000);
+
+    expect([1, 2].map(() => rotation.pick('example.com'))).toContain(
+      'chrome116',
+    );
+  });
+
+  it('should double the cooldown for consecutive blocks and reset on success', () => {
+    jest.useFakeTimers({ now: 0 });
+    const rotation = new FingerprintRotationService({
+      browsers: ['chrome116'],
+      blockCooldownMs: 1000,
+    });
+
+    rotation.recordBlock('chrome116');
+    rotation.recordBlock('chrome116');
+
+    expect(rotation.getHealth().fingerprints[0]).toMatchObject({
+      blocks: 2,
+      consecutiveBlocks: 2,
+      demotedUntil: new Date(2000).toISOString(),
+      available: false,
+    });
+
+    rotation.recordSuccess('chrome116');
+
+    expect(rotation.getHealth().fingerprints[0]).toMatchObject({
+      successes: 1,
+      consecutiveBlocks: 0,
+    });
+  });
+
+  it('should fall back to the browser that recovers first when all are demoted', () => {
+    jest.useFakeTimers({ now: 0 });
+    const rotation = new FingerprintRotationService({
+      browsers: ['chrome116', 'chrome110'],
+      blockCooldownMs: 1000,
+    });
+
+    rotation.recordBlock('chrome116');
+    rotation.recordBlock('chrome116');
+    rotation.recordBlock('chrome110');
+
+    expect(rotation.pick('example.com')).toBe('chrome110');
+  });
+
+  it('should keep the same browser per host with the sticky strategy', () => {
+    const rotation = new FingerprintRotationService({
+      strategy: 'sticky',
+      browsers: ['chrome116', 'chrome110'],
+    });
+
+    const first = rotation.pick('a.example.com');
+    const second = rotation.pick('b.example.com');
+
+    expect(first).not.toBe(second);
+    expect(rotation.pick('a.example.com')).toBe(first);
+    expect(rotation.pick('b.example.com')).toBe(second);
+  });
+
+  it('should reassign a sticky host once its browser is demoted', () => {
+    const rotation = new FingerprintRotationService({
+      strategy: 'sticky',
+      browsers: ['chrome116', 'chrome110'],
+    });
+
+    const first = rotation.pick('example.com');
+    rotation.recordBlock(first);
+
+    expect(rotation.pick('example.com')).not.toBe(first);
+  });
+
+  it('should pick proportionally to weights with the weighted strategy', () => {
+    const rotation = new FingerprintRotationService({
+      strategy: 'weighted',
+      browsers: ['chrome116', 'chrome110'],
+      weights: { chrome116: 3, chrome110: 1 },
+    });
+    const random = jest.spyOn(Math, 'random');
+
+    random.mockReturnValue(0.7); // 0.7 * 4 = 2.8 → chrome116
+    expect(rotation.pick('example.com')).toBe('chrome116');
+
+    random.mockReturnValue(0.8); // 0.8 * 4 = 3.2 → chrome110
+    expect(rotation.pick('example.com')).toBe('chrome110');
+  });
+
+  it('should ignore outcomes for browsers outside the rotation', () => {
+    const rotation = new FingerprintRotationService({
+      browsers: ['chrome116'],
+    });
+
+    rotation.recordBlock('firefox109');
+
+    expect(rotation.getHealth().fingerprints).toHaveLength(1);
+    expect(rotation.pick('example.com')).toBe('chrome116');
+  });
+});
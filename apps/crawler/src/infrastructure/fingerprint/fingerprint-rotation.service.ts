@@ -0,0 +1,256 @@
+import { Logger } from '@nestjs/common';
+import {
+  SUPPORTED_BROWSERS,
+  SupportedBrowser,
+} from '@winescope/common/constants';
+
+export type RotationStrategy = 'round-robin' | 'weighted' | 'sticky';
+
+export interface FingerprintRotationOptions {
+  /**
+   * 핑거프린트 선택 전략
+   * - round-robin: 순서대로 돌아가며 선택
+   * - weighted: 가중치에 비례하여 무작위 선택
+   * - sticky: 호스트별로 같은 핑거프린트를 유지 (차단되면 교체)
+   * @default 'round-robin'
+   */
+  strategy?: RotationStrategy;
+
+  /**
+   * 로테이션 대상 브라우저 목록
+   * @default SUPPORTED_BROWSERS
+   */
+  browsers?: readonly SupportedBrowser[];
+
+  /**
+   * weighted 전략의 브라우저별 가중치 (지정하지 않으면 1)
+   */
+  weights?: Partial<Record<SupportedBrowser, number>>;
+
+  /**
+   * 차단된 핑거프린트를 제외하는 기본 시간 (밀리초), 연속 차단 시 2배씩 증가합니다.
+   * @default 600000 (10분)
+   */
+  blockCooldownMs?: number;
+}
+
+export interface FingerprintHealth {
+  browser: SupportedBrowser;
+  weight: number;
+  successes: number;
+  blocks: number;
+  consecutiveBlocks: number;
+  lastBlockedAt: string | null; // ISO 8601 format
+  demotedUntil: string | null; // ISO 8601 format, null when available
+  available: boolean;
+}
+
+interface FingerprintState {
+  successes: number;
+  blocks: number;
+  consecutiveBlocks: number;
+  lastBlockedAt: number | null;
+  demotedUntil: number;
+}
+
+/**
+ * 연속 차단 시 제외 시간 배수 상한 (기본 10분 → 최대 80분)
+ */
+const MAX_COOLDOWN_MULTIPLIER = 8;
+
+/**
+ * FingerprintRotationService
+ *
+ * 요청마다 사용할 브라우저 핑거프린트(curl-impersonate 타깃 / 헤더 프리셋)를 선택합니다.
+ *
+ * @remarks
+ * 봇 차단된 핑거프린트는 일정 시간 동안 후보에서 제외(강등)합니다.
+ * 모든 후보가 강등된 경우에는 가장 먼저 복귀하는 핑거프린트를 사용합니다.
+ */
+export class FingerprintRotationService {
+  private readonly logger = new Logger(FingerprintRotationService.name);
+  private readonly strategy: RotationStrategy;
+  private readonly browsers: readonly SupportedBrowser[];
+  private readonly weights: Partial<Record<SupportedBrowser, number>>;
+  private readonly blockCooldownMs: number;
+  private readonly states = new Map<SupportedBrowser, FingerprintState>();
+  private readonly stickyByHost = new Map<string, SupportedBrowser>();
+  private cursor = 0;
+
+  constructor(options: FingerprintRotationOptions = {}) {
+    this.strategy = options.strategy ?? 'round-robin';
+    this.browsers =
+      options.browsers && options.browsers.length > 0
+        ? options.browsers
+        : SUPPORTED_BROWSERS;
+    this.weights = options.weights ?? {};
+    this.blockCooldownMs = options.blockCooldownMs ?? 10 * 60 * 1000;
+
+    this.browsers.forEach((browser) =>
+      this.states.set(browser, {
+        successes: 0,
+        blocks: 0,
+        consecutiveBlocks: 0,
+        lastBlockedAt: null,
+        demotedUntil: 0,
+      }),
+    );
+  }
+
+  /**
+   * 다음 요청에 사용할 핑거프린트를 선택합니다.
+   *
+   * @param host - 요청 대상 호스트 (sticky 전략에서 사용)
+   */
+  pick(host: string): SupportedBrowser {
+    const candidates = this.getAvailable();
+
+    switch (this.strategy) {
+      case 'weighted':
+        return this.pickWeighted(candidates);
+      case 'sticky': {
+        const current = this.stickyByHost.get(host);
+        if (current && candidates.includes(current)) {
+          return current;
+        }
+        const next = this.pickRoundRobin(candidates);
+        this.stickyByHost.set(host, next);
+        return next;
+      }
+      default:
+        return this.pickRoundRobin(candidates);
+    }
+  }
+
+  /**
+   * 로테이션 대상 브라우저 목록을 반환합니다.
+   */
+  getBrowsers(): readonly SupportedBrowser[] {
+    return this.browsers;
+  }
+
+  /**
+   * 정상 응답을 기록합니다. 연속 차단 횟수가 초기화됩니다.
+   */
+  recordSuccess(browser: SupportedBrowser): void {
+    const state = this.states.get(browser);
+    if (!state) {
+      return;
+    }
+
+    state.successes++;
+    state.consecutiveBlocks = 0;
+  }
+
+  /**
+   * 봇 차단을 기록하고 해당 핑거프린트를 강등합니다.
+   */
+  recordBlock(browser: SupportedBrowser): void {
+    const state = this.states.get(browser);
+    if (!state) {
+      return;
+    }
+
+    const now = Date.now();
+    state.blocks++;
+    state.consecutiveBlocks++;
+    state.lastBlockedAt = now;
+
+    const multiplier = Math.min(
+      MAX_COOLDOWN_MULTIPLIER,
+      2 ** (state.consecutiveBlocks - 1),
+    );
+    state.demotedUntil = now + this.blockCooldownMs * multiplier;
+
+    this.logger.warn(
+      `Fingerprint ${browser} demoted for ${this.blockCooldownMs * multiplier}ms after ${state.consecutiveBlocks} consecutive block(s)`,
+    );
+  }
+
+  /**
+   * 현재 전략과 핑거프린트별 상태를 반환합니다.
+   */
+  getHealth(): {
+    strategy: RotationStrategy;
+    fingerprints: FingerprintHealth[];
+  } {
+    const now = Date.now();
+
+    return {
+      strategy: this.strategy,
+      fingerprints: this.browsers.map((browser) => {
+        const state = this.getState(browser);
+        const demoted = state.demotedUntil > now;
+        return {
+          browser,
+          weight: this.getWeight(browser),
+          successes: state.successes,
+          blocks: state.blocks,
+          consecutiveBlocks: state.consecutiveBlocks,
+          lastBlockedAt:
+            state.lastBlockedAt !== null
+              ? new Date(state.lastBlockedAt).toISOString()
+              : null,
+          demotedUntil: demoted
+            ? new Date(state.demotedUntil).toISOString()
+            : null,
+          available: !demoted,
+        };
+      }),
+    };
+  }
+
+  /**
+   * 강등되지 않은 후보 목록. 모두 강등되었으면 가장 먼저 복귀하는 하나만 반환합니다.
+   */
+  private getAvailable(): SupportedBrowser[] {
+    const now = Date.now();
+    const available = this.browsers.filter(
+      (browser) => this.getState(browser).demotedUntil <= now,
+    );
+    if (available.length > 0) {
+      return available;
+    }
+
+    const soonest = [...this.browsers].sort(
+      (a, b) => this.getState(a).demotedUntil - this.getState(b).demotedUntil,
+    )[0];
+    return [soonest];
+  }
+
+  private pickRoundRobin(candidates: SupportedBrowser[]): SupportedBrowser {
+    // Advance over the full list so demoted entries keep their slot in the cycle
+    for (let i = 0; i < this.browsers.length; i++) {
+      const browser = this.browsers[this.cursor % this.browsers.length];
+      this.cursor = (this.cursor + 1) % this.browsers.length;
+      if (candidates.includes(browser)) {
+        return browser;
+      }
+    }
+    return candidates[0];
+  }
+
+  private pickWeighted(candidates: SupportedBrowser[]): SupportedBrowser {
+    const total = candidates.reduce(
+      (sum, browser) => sum + this.getWeight(browser),
+      0,
+    );
+    let threshold = Math.random() * total;
+
+    for (const browser of candidates) {
+      threshold -= this.getWeight(browser);
+      if (threshold < 0) {
+        return browser;
+      }
+    }
+    return candidates[candidates.length - 1];
+  }
+
+  private getState(browser: SupportedBrowser): FingerprintState {
+    return this.states.get(browser) as FingerprintState;
+  }
+
+  private getWeight(browser: SupportedBrowser): number {
+    return Math.max(0, this.weights[browser] ?? 1);
+  }
+}
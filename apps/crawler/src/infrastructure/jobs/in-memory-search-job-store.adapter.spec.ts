@@ -0,0 +1,64 @@
+import { InMemorySearchJobStoreAdapter } from './in-memory-search-job-store.adapter';
+import { SearchJob } from '../../domain/ports/search-job-store.port';
+
+describe('InMemorySearchJobStoreAdapter', () => {
+  let store: InMemorySearchJobStoreAdapter;
+
+  const job = (id: string, finishedAt: Date | null = null): SearchJob => ({
+    id,
+    status: finishedAt ? 'succeeded' : 'pending',
+    request: { winery: 'Opus One' },
+    result: null,
+    error: null,
+    callbackUrl: null,
+    deliveries: [],
+    createdAt: new Date(),
+    startedAt: null,
+    finishedAt,
+  });
+
+  beforeEach(() => {
+    store = new InMemorySearchJobStoreAdapter({ ttlMs: 1000, maxJobs: 2 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return null for an unknown job', async () => {
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('should return a copy of the stored job', async () => {
+    const saved = job('a');
+    await store.save(saved);
+
+    const found = await store.get('a');
+    found!.status = 'running';
+
+    expect(found).not.toBe(saved);
+    expect((await store.get('a'))!.status).toBe('pending');
+  });
+
+  it('should expire finished jobs after the retention period', async () => {
+    jest.useFakeTimers();
+    await store.save(job('pending'));
+    await store.save(job('finished', new Date()));
+
+    jest.advanceTimersByTime(1001);
+
+    expect(await store.get('finished')).toBeNull();
+    expect(await store.get('pending')).not.toBeNull();
+  });
+
+  it('should evict the oldest finished jobs but keep pending ones', async () => {
+    await store.save(job('old', new Date(Date.now() - 500)));
+    await store.save(job('pending'));
+    await store.save(job('new', new Date()));
+
+    expect(store.size).toBe(2);
+    expect(await store.get('old')).toBeNull();
+    expect(await store.get('pending')).not.toBeNull();
+    expect(await store.get('new')).not.toBeNull();
+  });
+});
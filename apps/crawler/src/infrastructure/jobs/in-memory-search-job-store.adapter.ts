@@ -0,0 +1,96 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  SearchJob,
+  SearchJobStorePort,
+} from '../../domain/ports/search-job-store.port';
+
+export interface InMemorySearchJobStoreOptions {
+  /**
+   * 완료된 작업의 보관 기간 (밀리초)
+   * @default 3600000
+   */
+  ttlMs?: number;
+
+  /**
+   * 최대 작업 수, 초과 시 가장 오래전에 완료된 작업부터 제거합니다.
+   * @default 1000
+   */
+  maxJobs?: number;
+}
+
+/**
+ * InMemorySearchJobStoreAdapter
+ *
+ * 검색 작업을 Map에 보관하는 어댑터입니다.
+ * 완료된 작업은 보관 기간이 지나면 제거되며, 프로세스가 재시작되면 모든 작업이 사라집니다.
+ */
+@Injectable()
+export class InMemorySearchJobStoreAdapter implements SearchJobStorePort {
+  private readonly logger = new Logger(InMemorySearchJobStoreAdapter.name);
+  private readonly jobs = new Map<string, SearchJob>();
+  private readonly ttlMs: number;
+  private readonly maxJobs: number;
+
+  constructor(options: InMemorySearchJobStoreOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 60 * 60 * 1000;
+    this.maxJobs = options.maxJobs ?? 1000;
+  }
+
+  async save(job: SearchJob): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+    this.evictOverflow();
+  }
+
+  async get<TRequest, TResult>(
+    id: string,
+  ): Promise<SearchJob<TRequest, TResult> | null> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return null;
+    }
+
+    if (this.isExpired(job)) {
+      this.jobs.delete(id);
+      return null;
+    }
+
+    return { ...job } as SearchJob<TRequest, TResult>;
+  }
+
+  /**
+   * 현재 보관 중인 작업 수를 반환합니다.
+   */
+  get size(): number {
+    return this.jobs.size;
+  }
+
+  private isExpired(job: SearchJob): boolean {
+    return (
+      job.finishedAt !== null &&
+      job.finishedAt.getTime() + this.ttlMs <= Date.now()
+    );
+  }
+
+  /**
+   * 최대 작업 수를 넘으면 완료된 작업을 오래된 순으로 제거합니다.
+   * 대기 중이거나 실행 중인 작업은 제거하지 않습니다.
+   */
+  private evictOverflow(): void {
+    if (this.jobs.size <= this.maxJobs) {
+      return;
+    }
+
+    const finished = [...this.jobs.values()]
+      .filter((job) => job.finishedAt !== null)
+      .sort((a, b) => a.finishedAt!.getTime() - b.finishedAt!.getTime());
+
+    for (const job of finished) {
+      if (this.jobs.size <= this.maxJobs) {
+        break;
+      }
+
+      this.jobs.delete(job.id);
+      this.logger.debug(`Evicted finished search job ${job.id}`);
+    }
+  }
+}
@@ -35,7 +35,7 @@ describe('WineSearcherParser', () => {
 
       expect(result.wine).toBeDefined();
       expect(result.wine.name.value).toBe('Opus One 2018');
-      expect(result.wine.vintage.value).toBe(2018);
+      expect(result.wine.vintage!.value).toBe(2018);
       expect(result.wine.region).toBe('Napa Valley');
       expect(result.wine.winery).toBe('Opus One Winery');
       expect(result.wine.variety).toBe('Cabernet Sauvignon');
@@ -98,10 +98,66 @@ describe('WineSearcherParser', () => {
       const result = await parser.parse(minimalHtml, 'test-url');
 
       expect(result.wine.name.value).toBe('Test Wine 2020');
-      expect(result.wine.vintage.value).toBe(2020);
+      expect(result.wine.vintage!.value).toBe(2020);
       expect(result.ratings.length).toBe(0);
       expect(result.price).toBeNull();
     });
+
+    it('should leave the vintage empty when the page lists none', async () => {
+      const result = await parser.parse(
+        '<html><body><h1>Test Wine</h1></body></html>',
+        'test-url',
+      );
+
+      expect(result.wine.vintage).toBeNull();
+      expect(result.availableVintages).toEqual([]);
+    });
+
+    it.each([
+      ['NV', 'NV'],
+      ['Non-Vintage', 'NV'],
+      ['Solera 1927-2007', '1927-2007'],
+    ])('should parse the %s vintage label', async (label, expected) => {
+      const result = await parser.parse(
+        `<html><body><h1>Test Wine</h1><span class="vintage">${label}</span></body></html>`,
+        'test-url',
+      );
+
+      expect(result.wine.vintage!.value).toBe(expected);
+    });
+
+    it('should extract links to other vintages newest first', async () => {
+      const html = `
+        <html>
+          <body>
+            <h1>Opus One 2018</h1>
+            <span class="vintage">2018</span>
+            <ul class="vintage-list">
+              <li><a href="/find/opus+one/2016">2016</a></li>
+              <li><a href="/find/opus+one/2019">2019</a></li>
+              <li><a href="/find/opus+one/2019?page=2">2019</a></li>
+              <li><a href="/find/opus+one">All vintages</a></li>
+            </ul>
+          </body>
+        </html>
+      `;
+
+      const result = await parser.parse(
+        html,
+        'https://www.wine-searcher.com/find/opus+one/2018',
+      );
+
+      expect(result.availableVintages).toEqual([
+        {
+          vintage: 2019,
+          url: 'https://www.wine-searcher.com/find/opus+one/2019',
+        },
+        {
+          vintage: 2016,
+          url: 'https://www.wine-searcher.com/find/opus+one/2016',
+        },
+      ]);
+    });
   });
 
   describe('Robert Parker detection', () => {
@@ -151,4 +207,132 @@ describe('WineSearcherParser', () => {
       }
     });
   });
+
+  describe('parseSearchResults', () => {
+    const searchUrl =
+      'https://www.wine-searcher.com/find/ridge+zinfandel+2019+california';
+    let resultsHtml: string;
+
+    beforeAll(() => {
+      resultsHtml = fs.readFileSync(
+        path.join(
+          __dirname,
+          '../../../test/fixtures/wine-searcher-search-results.html',
+        ),
+        'utf-8',
+      );
+    });
+
+    it('should extract candidates with absolute URLs and available vintages', async () => {
+      const candidates = await parser.parseSearchResults(
+        resultsHtml,
+        searchUrl,
+      );
+
+      expect(candidates).toEqual([
+        {
+          name: 'Ridge Vineyards East Bench Zinfandel',
+          url: 'https://www.wine-searcher.com/find/ridge+east+bench+zinfandel+dry+creek+valley+sonoma+county/2019',
+          vintage: 2019,
+          vintages: [2021, 2019, 2018],
+          producer: 'Ridge Vineyards',
+          region: 'Dry Creek Valley, Sonoma County, California',
+        },
+        {
+          name: 'Ridge Vineyards Pagani Ranch Zinfandel',
+          url: 'https://www.wine-searcher.com/find/ridge+pagani+ranch+zinfandel+sonoma+valley+county/2019',
+          vintage: 2019,
+          vintages: [2019],
+          producer: null,
+          region: 'Sonoma Valley, Sonoma County, California',
+        },
+        {
+          name: 'Ridge Vineyards Lytton Springs',
+          url: 'https://www.wine-searcher.com/find/ridge+lytton+springs+dry+creek+valley+sonoma+county',
+          vintage: null,
+          vintages: [2020, 2019],
+          producer: 'Ridge Vineyards',
+          region: 'Dry Creek Valley, Sonoma County, California',
+        },
+      ]);
+    });
+
+    it('should return an empty list for a results page without results', async () => {
+      await expect(
+        parser.parseSearchResults(
+          '<ul class="search-results"></ul>',
+          searchUrl,
+        ),
+      ).resolves.toEqual([]);
+    });
+
+    it('should return null for a wine page', async () => {
+      await expect(
+        parser.parseSearchResults(mockHtml, searchUrl),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('parseVintageChart', () => {
+    const wineUrl = 'https://www.wine-searcher.com/find/opus+one';
+    let chartHtml: string;
+
+    beforeAll(() => {
+      chartHtml = fs.readFileSync(
+        path.join(
+          __dirname,
+          '../../../test/fixtures/wine-searcher-vintage-chart.html',
+        ),
+        'utf-8',
+      );
+    });
+
+    it('should extract every vintage newest first', async () => {
+      const entries = await parser.parseVintageChart(chartHtml, wineUrl);
+
+      expect(entries!.map((entry) => entry.wine.vintage!.value)).toEqual([
+        2019, 2018, 2016, 1979,
+      ]);
+      expect(entries![0].wine.name.value).toBe('Opus One');
+      expect(entries![0].wine.winery).toBe('Opus One Winery');
+      expect(entries![0].url).toBe(
+        'https://www.wine-searcher.com/find/opus+one/2019',
+      );
+    });
+
+    it('should extract price, critic score and offers per vintage', async () => {
+      const [latest, , older] = (await parser.parseVintageChart(
+        chartHtml,
+        wineUrl,
+      ))!;
+
+      expect(latest.price!.average).toBe(1050.5);
+      expect(latest.price!.currency).toBe('USD');
+      expect(latest.rating!.source).toBe('Wine-Searcher');
+      expect(latest.rating!.score.value).toBe(98);
+      expect(latest.offers).toBe(389);
+
+      expect(older.price!.currency).toBe('EUR');
+      expect(older.rating).toBeNull();
+    });
+
+    it('should report unavailable vintages without price or score', async () => {
+      const entries = await parser.parseVintageChart(chartHtml, wineUrl);
+      const unavailable = entries!.find(
+        (entry) => entry.wine.vintage!.value === 1979,
+      );
+
+      expect(unavailable).toMatchObject({
+        price: null,
+        rating: null,
+        offers: 0,
+      });
+    });
+
+    it('should return null for a page without a vintage chart', async () => {
+      await expect(
+        parser.parseVintageChart(mockHtml, wineUrl),
+      ).resolves.toBeNull();
+    });
+  });
 });
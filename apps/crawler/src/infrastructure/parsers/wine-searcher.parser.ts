@@ -1,6 +1,12 @@
 import { Injectable, Logger } from '@nestjs/common';
 import * as cheerio from 'cheerio';
-import { ParserPort, WineData } from '../../domain/ports/parser.port';
+import {
+  ParserPort,
+  VintageChartEntry,
+  VintageLink,
+  WineData,
+  WineSearchCandidate,
+} from '../../domain/ports/parser.port';
 import { Wine } from '../../domain/entities/wine.entity';
 import { Rating } from '../../domain/entities/rating.entity';
 import { Price } from '../../domain/entities/price.entity';
@@ -10,6 +16,15 @@ import { Score } from '../../domain/value-objects/score.vo';
 import { ParsingError } from '../../domain/errors/crawler.errors';
 import { WINE_SEARCHER_SELECTORS } from './wine-searcher.selectors';
 
+/**
+ * 통화 기호별 통화 코드 (통화 표시가 없는 빈티지 차트 가격용)
+ */
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+};
+
 /**
  * WineSearcherParser
  *
@@ -43,6 +58,9 @@ export class WineSearcherParser implements ParserPort {
       // Extract price
       const price = this.extractPrice($);
 
+      // Extract links to other vintages of the same wine
+      const availableVintages = this.extractVintageLinks($, sourceUrl);
+
       this.logger.debug(
         `Successfully parsed wine: ${wine.name.value}, ${ratings.length} ratings, price: ${price ? 'yes' : 'no'}`,
       );
@@ -51,6 +69,7 @@ export class WineSearcherParser implements ParserPort {
         wine,
         ratings,
         price,
+        availableVintages,
         sourceUrl,
         crawledAt: new Date(),
       };
@@ -64,6 +83,152 @@ export class WineSearcherParser implements ParserPort {
     }
   }
 
+  /**
+   * 검색 결과 목록 페이지에서 와인 후보를 추출합니다.
+   *
+   * @param html - 파싱할 HTML 문자열
+   * @param sourceUrl - HTML의 원본 URL (후보 링크의 기준 URL)
+   * @returns 와인 후보 목록 (결과가 없으면 빈 배열), 검색 결과 페이지가 아니면 null
+   */
+  async parseSearchResults(
+    html: string,
+    sourceUrl: string,
+  ): Promise<WineSearchCandidate[] | null> {
+    const selectors = WINE_SEARCHER_SELECTORS.searchResults;
+    const $ = cheerio.load(html);
+
+    const container = $(selectors.container).first();
+    if (container.length === 0) {
+      return null;
+    }
+
+    const candidates: WineSearchCandidate[] = [];
+
+    container.find(selectors.item).each((_, element) => {
+      const name =
+        this.extractText($, selectors.name, element) ??
+        this.extractText($, selectors.link, element);
+      const href = $(element).find(selectors.link).first().attr('href');
+
+      if (!name || !href) {
+        this.logger.warn(`Skipping search result without name or link`);
+        return;
+      }
+
+      let url: string;
+      try {
+        url = new URL(href, sourceUrl).toString();
+      } catch {
+        this.logger.warn(`Skipping search result with invalid link: ${href}`);
+        return;
+      }
+
+      const [vintage = null] = this.parseYears(
+        this.extractText($, selectors.vintage, element) ?? name,
+      );
+      const listed = this.parseYears(
+        this.extractText($, selectors.vintages, element),
+      );
+
+      candidates.push({
+        name,
+        url,
+        vintage,
+        vintages:
+          listed.length > 0 ? listed : vintage !== null ? [vintage] : [],
+        producer: this.extractText($, selectors.producer, element),
+        region: this.extractText($, selectors.region, element),
+      });
+    });
+
+    this.logger.debug(
+      `Parsed ${candidates.length} search result(s) from ${sourceUrl}`,
+    );
+
+    return candidates;
+  }
+
+  /**
+   * 와인 페이지의 빈티지 차트에서 빈티지별 시세와 평점을 추출합니다.
+   *
+   * @param html - 파싱할 HTML 문자열
+   * @param sourceUrl - HTML의 원본 URL (빈티지 링크의 기준 URL)
+   * @returns 빈티지별 항목 (최신 빈티지 순), 빈티지 차트가 없으면 null
+   * @throws ParsingError 와인 정보를 파싱할 수 없는 경우
+   */
+  async parseVintageChart(
+    html: string,
+    sourceUrl: string,
+  ): Promise<VintageChartEntry[] | null> {
+    const selectors = WINE_SEARCHER_SELECTORS.vintageChart;
+    const $ = cheerio.load(html);
+
+    const container = $(selectors.container).first();
+    if (container.length === 0) {
+      return null;
+    }
+
+    let charted: Wine;
+    try {
+      charted = this.extractWine($);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown parsing error';
+      throw new ParsingError(
+        `Failed to parse vintage chart from ${sourceUrl}: ${errorMessage}`,
+        sourceUrl,
+      );
+    }
+
+    const crawledAt = new Date();
+    const entries: VintageChartEntry[] = [];
+
+    container.find(selectors.row).each((_, element) => {
+      try {
+        const vintage = this.parseVintage(
+          this.extractText($, selectors.vintage, element),
+        );
+        if (!vintage) {
+          return; // header or footer row
+        }
+
+        const scoreText = this.extractText($, selectors.score, element);
+
+        entries.push({
+          wine: new Wine(
+            charted.name,
+            charted.region,
+            charted.winery,
+            charted.variety,
+            vintage,
+          ),
+          price: this.extractChartPrice($, element, crawledAt),
+          rating:
+            scoreText && /\d/.test(scoreText)
+              ? new Rating('Wine-Searcher', this.parseScore(scoreText), null, 0)
+              : null,
+          offers: this.parseReviewCount(
+            this.extractText($, selectors.offers, element),
+          ),
+          url: this.extractChartLink($, element, sourceUrl),
+        });
+      } catch (error) {
+        this.logger.warn(`Failed to parse vintage chart row: ${error}`);
+      }
+    });
+
+    this.logger.debug(
+      `Parsed ${entries.length} vintage(s) of ${charted.name.value} from ${sourceUrl}`,
+    );
+
+    // Single years newest first, then NV and ranges in page order
+    const sortKey = (entry: VintageChartEntry) =>
+      entry.wine.vintage?.year ?? -Infinity;
+    return entries.sort((a, b) =>
+      sortKey(a) === sortKey(b) ? 0 : sortKey(b) - sortKey(a),
+    );
+  }
+
   /**
    * Wine 엔티티를 추출합니다.
    */
@@ -92,6 +257,36 @@ export class WineSearcherParser implements ParserPort {
     );
   }
 
+  /**
+   * 다른 빈티지 페이지 링크를 최신순으로 추출합니다 (빈티지별 첫 링크만 사용).
+   */
+  private extractVintageLinks(
+    $: cheerio.Root,
+    sourceUrl: string,
+  ): VintageLink[] {
+    const links = new Map<number, string>();
+
+    $(WINE_SEARCHER_SELECTORS.wine.vintageLinks).each((_, element) => {
+      const href = $(element).attr('href');
+      const [vintage] = this.parseYears(
+        $(element).attr('data-vintage-link') || $(element).text(),
+      );
+      if (!href || vintage === undefined || links.has(vintage)) {
+        return;
+      }
+
+      try {
+        links.set(vintage, new URL(href, sourceUrl).toString());
+      } catch {
+        this.logger.warn(`Skipping vintage link with invalid URL: ${href}`);
+      }
+    });
+
+    return [...links.entries()]
+      .map(([vintage, url]) => ({ vintage, url }))
+      .sort((a, b) => b.vintage - a.vintage);
+  }
+
   /**
    * Rating 엔티티 배열을 추출합니다.
    */
@@ -147,6 +342,60 @@ export class WineSearcherParser implements ParserPort {
     return new Price(average, currency, priceRange, updatedAt);
   }
 
+  /**
+   * 빈티지 차트 행의 평균 가격을 추출합니다 (가격이 없거나 "-"이면 null).
+   * 행에 통화가 없으면 페이지 통화, 그마저 없으면 통화 기호를 사용합니다.
+   */
+  private extractChartPrice(
+    $: cheerio.Root,
+    row: cheerio.Element,
+    crawledAt: Date,
+  ): Price | null {
+    const selectors = WINE_SEARCHER_SELECTORS.vintageChart;
+
+    const priceText = this.extractText($, selectors.price, row);
+    if (!priceText || !/\d/.test(priceText)) {
+      return null;
+    }
+
+    const symbol = Object.keys(CURRENCY_SYMBOLS).find((candidate) =>
+      priceText.includes(candidate),
+    );
+    const currency =
+      this.extractText($, selectors.currency, row) ??
+      this.extractText($, WINE_SEARCHER_SELECTORS.price.currency) ??
+      (symbol ? CURRENCY_SYMBOLS[symbol] : null);
+    if (!currency) {
+      return null;
+    }
+
+    return new Price(this.parsePrice(priceText), currency, null, crawledAt);
+  }
+
+  /**
+   * 빈티지 차트 행의 빈티지 페이지 링크를 절대 URL로 추출합니다.
+   */
+  private extractChartLink(
+    $: cheerio.Root,
+    row: cheerio.Element,
+    sourceUrl: string,
+  ): string | null {
+    const href = $(row)
+      .find(WINE_SEARCHER_SELECTORS.vintageChart.link)
+      .first()
+      .attr('href');
+    if (!href) {
+      return null;
+    }
+
+    try {
+      return new URL(href, sourceUrl).toString();
+    } catch {
+      this.logger.warn(`Ignoring vintage chart link with invalid URL: ${href}`);
+      return null;
+    }
+  }
+
   /**
    * CSS 선택자로 텍스트를 추출합니다.
    */
@@ -161,12 +410,24 @@ export class WineSearcherParser implements ParserPort {
   }
 
   /**
-   * 빈티지를 파싱합니다.
+   * 빈티지를 파싱합니다 (논빈티지와 연도 범위 포함, 찾을 수 없으면 null).
+   * @example "2018" -> 2018, "NV" -> NV, "Solera 1990-2010" -> 1990-2010
    */
-  private parseVintage(text: string | null): Vintage {
+  private parseVintage(text: string | null): Vintage | null {
     if (!text) {
-      // Default vintage if not found
-      return Vintage.create(new Date().getFullYear());
+      return null;
+    }
+
+    // "NV", "N.V.", "Non-Vintage" but not letters inside other words
+    if (/(?<![a-z])(n\.?v\.?|non[\s-]*vintage)(?![a-z])/i.test(text)) {
+      return Vintage.nonVintage();
+    }
+
+    const range = text.match(
+      /\b((?:19|20)\d{2})\s*(?:-|\u2013|to)\s*((?:19|20)\d{2})\b/i,
+    );
+    if (range) {
+      return Vintage.range(parseInt(range[1], 10), parseInt(range[2], 10));
     }
 
     // Extract 4-digit year from text
@@ -175,8 +436,17 @@ export class WineSearcherParser implements ParserPort {
       return Vintage.create(parseInt(match[0], 10));
     }
 
-    // Default vintage
-    return Vintage.create(new Date().getFullYear());
+    return null;
+  }
+
+  /**
+   * 텍스트에 포함된 4자리 연도를 최신순으로 중복 없이 추출합니다.
+   */
+  private parseYears(text: string | null): number[] {
+    const years = (text ?? '').match(/\b(19|20)\d{2}\b/g) ?? [];
+    return [...new Set(years.map((year) => parseInt(year, 10)))].sort(
+      (a, b) => b - a,
+    );
   }
 
   /**
@@ -15,6 +15,7 @@ export interface WineSearcherSelectors {
     region: string;
     winery: string;
     variety: string;
+    vintageLinks: string;
   };
   ratings: {
     container: string;
@@ -30,6 +31,26 @@ export interface WineSearcherSelectors {
     priceRange: string;
     updatedAt: string;
   };
+  searchResults: {
+    container: string;
+    item: string;
+    name: string;
+    link: string;
+    vintage: string;
+    vintages: string;
+    producer: string;
+    region: string;
+  };
+  vintageChart: {
+    container: string;
+    row: string;
+    vintage: string;
+    price: string;
+    currency: string;
+    score: string;
+    offers: string;
+    link: string;
+  };
 }
 
 /**
@@ -50,6 +71,8 @@ export const WINE_SEARCHER_SELECTORS: WineSearcherSelectors = {
     region: '.region, .wine-region, [data-region]',
     winery: '.winery, .wine-producer, [data-winery]',
     variety: '.variety, .wine-varietal, [data-variety]',
+    vintageLinks:
+      '.vintage-list a[href], .other-vintages a[href], a[data-vintage-link]',
   },
   ratings: {
     container: '.ratings, .wine-ratings, [data-ratings]',
@@ -65,4 +88,24 @@ export const WINE_SEARCHER_SELECTORS: WineSearcherSelectors = {
     priceRange: '.price-range, [data-price-range]',
     updatedAt: '.price-updated, .last-updated, [data-updated]',
   },
+  searchResults: {
+    container: '.search-results, .find-results, [data-search-results]',
+    item: '.search-result, .wine-card, [data-result]',
+    name: '.result-name, .wine-card__name, [data-result-name]',
+    link: 'a[href]',
+    vintage: '.result-vintage, .wine-card__vintage, [data-result-vintage]',
+    vintages: '.result-vintages, .wine-card__vintages, [data-result-vintages]',
+    producer: '.result-producer, .wine-card__producer, [data-result-producer]',
+    region: '.result-region, .wine-card__region, [data-result-region]',
+  },
+  vintageChart: {
+    container: '.vintage-chart, .vintages-table, [data-vintage-chart]',
+    row: '.vintage-row, tbody tr, [data-vintage-row]',
+    vintage: '.vintage-year, [data-vintage-year]',
+    price: '.vintage-price, [data-vintage-price]',
+    currency: '.vintage-currency, [data-vintage-currency]',
+    score: '.vintage-score, [data-vintage-score]',
+    offers: '.vintage-offers, [data-vintage-offers]',
+    link: 'a[href]',
+  },
 };
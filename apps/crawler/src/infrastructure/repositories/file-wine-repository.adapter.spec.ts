@@ -0,0 +1,117 @@
+import { FileWineRepositoryAdapter } from './file-wine-repository.adapter';
+import { WineObservation } from '../../domain/ports/wine-repository.port';
+import { Wine } from '../../domain/entities/wine.entity';
+import { Rating } from '../../domain/entities/rating.entity';
+import { Price } from '../../domain/entities/price.entity';
+import { WineName } from '../../domain/value-objects/wine-name.vo';
+import { Vintage } from '../../domain/value-objects/vintage.vo';
+import { Score } from '../../domain/value-objects/score.vo';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('FileWineRepositoryAdapter', () => {
+  let tmpDir: string;
+  let filePath: string;
+
+  const observation = (
+    average: number,
+    updatedAt: string,
+  ): WineObservation => ({
+    wine: new Wine(
+      WineName.create('Krug Grande Cuvée'),
+      'Champagne',
+      'Krug',
+      'Champagne Blend',
+      Vintage.nonVintage(),
+    ),
+    ratings: [new Rating('Wine Spectator', Score.create(95), null, 40)],
+    price: new Price(average, 'EUR', '€180-€220', new Date(updatedAt)),
+    sourceUrl: 'https://www.wine-searcher.com/find/krug+grande+cuvee',
+    crawledAt: new Date(updatedAt),
+  });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wine-catalog-'));
+    filePath = path.join(tmpDir, 'nested', 'catalog.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should return null when the catalog file does not exist', async () => {
+    const repository = new FileWineRepositoryAdapter({ filePath });
+
+    await expect(
+      repository.findById('krug-grande-cuvee-nv'),
+    ).resolves.toBeNull();
+  });
+
+  it('should keep every record upserted while the catalog is first read', async () => {
+    const repository = new FileWineRepositoryAdapter({ filePath });
+    const krug = observation(200, '2025-01-01T00:00:00Z');
+    const dom = {
+      ...krug,
+      wine: new Wine(
+        WineName.create('Dom Pérignon'),
+        'Champagne',
+        'Moët & Chandon',
+        'Champagne Blend',
+        Vintage.create(2013),
+      ),
+    };
+
+    const [first, second] = await Promise.all([
+      repository.upsert(krug),
+      repository.upsert(dom),
+    ]);
+
+    const restored = new FileWineRepositoryAdapter({ filePath });
+    await expect(restored.findById(first.id)).resolves.not.toBeNull();
+    await expect(restored.findById(second.id)).resolves.not.toBeNull();
+  });
+
+  it('should persist records to disk', async () => {
+    await new FileWineRepositoryAdapter({ filePath }).upsert(
+      observation(200, '2025-01-01T00:00:00Z'),
+    );
+
+    const content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    expect(content['krug-grande-cuvee-nv']).toMatchObject({
+      wine: { name: 'Krug Grande Cuvée', vintage: 'NV' },
+      prices: [{ average: 200, currency: 'EUR' }],
+    });
+  });
+
+  it('should restore entities and price snapshots in a new instance', async () => {
+    const first = new FileWineRepositoryAdapter({ filePath });
+    await first.upsert(observation(200, '2025-01-01T00:00:00Z'));
+    await first.upsert(observation(210, '2025-02-01T00:00:00Z'));
+
+    const record = await new FileWineRepositoryAdapter({ filePath }).findById(
+      'krug-grande-cuvee-nv',
+    );
+
+    expect(record!.wine).toBeInstanceOf(Wine);
+    expect(record!.wine.vintage!.isNonVintage()).toBe(true);
+    expect(record!.ratings[0]).toBeInstanceOf(Rating);
+    expect(record!.ratings[0].score.value).toBe(95);
+    expect(record!.prices.map((price) => price.average)).toEqual([200, 210]);
+    expect(record!.prices[1].updatedAt).toEqual(
+      new Date('2025-02-01T00:00:00Z'),
+    );
+    expect(record!.firstSeenAt).toEqual(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  it('should start empty when the catalog file is corrupted', async () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '{not json');
+
+    const repository = new FileWineRepositoryAdapter({ filePath });
+
+    await expect(
+      repository.findById('krug-grande-cuvee-nv'),
+    ).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,182 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  PriceObservation,
+  WineObservation,
+  WineRecord,
+  WineRepositoryPort,
+} from '../../domain/ports/wine-repository.port';
+import { Wine } from '../../domain/entities/wine.entity';
+import { Rating } from '../../domain/entities/rating.entity';
+import { Price } from '../../domain/entities/price.entity';
+import { WineId } from '../../domain/value-objects/wine-id.vo';
+import { WineName } from '../../domain/value-objects/wine-name.vo';
+import { Vintage } from '../../domain/value-objects/vintage.vo';
+import { Score } from '../../domain/value-objects/score.vo';
+import { mergePriceSnapshot, mergeWineRecord } from './wine-record.util';
+
+export interface FileWineRepositoryOptions {
+  /**
+   * 카탈로그 파일 경로
+   */
+  filePath: string;
+}
+
+interface SerializedRecord {
+  id: string;
+  wine: ReturnType<Wine['toJSON']>;
+  ratings: ReturnType<Rating['toJSON']>[];
+  prices: ReturnType<Price['toJSON']>[];
+  sourceUrl: string;
+  firstSeenAt: string; // ISO 8601 format
+  lastSeenAt: string; // ISO 8601 format
+}
+
+/**
+ * FileWineRepositoryAdapter
+ *
+ * 와인 카탈로그를 JSON 파일에 저장하는 어댑터입니다.
+ * 서비스를 재시작해도 와인, 평점, 가격 스냅샷이 유지됩니다.
+ */
+@Injectable()
+export class FileWineRepositoryAdapter implements WineRepositoryPort {
+  private readonly logger = new Logger(FileWineRepositoryAdapter.name);
+  private readonly filePath: string;
+  private records: Map<string, WineRecord> | null = null;
+  private loading: Promise<Map<string, WineRecord>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(options: FileWineRepositoryOptions) {
+    this.filePath = path.resolve(options.filePath);
+  }
+
+  async upsert(observation: WineObservation): Promise<WineRecord> {
+    const records = await this.load();
+    const id = WineId.fromWine(observation.wine).value;
+    const record = mergeWineRecord(records.get(id) ?? null, observation);
+
+    records.set(id, record);
+    await this.persist();
+
+    return record;
+  }
+
+  async recordPrice(observation: PriceObservation): Promise<WineRecord> {
+    const records = await this.load();
+    const id = WineId.fromWine(observation.wine).value;
+    const record = mergePriceSnapshot(records.get(id) ?? null, observation);
+
+    records.set(id, record);
+    await this.persist();
+
+    return record;
+  }
+
+  async findById(id: string): Promise<WineRecord | null> {
+    const records = await this.load();
+    return records.get(id) ?? null;
+  }
+
+  /**
+   * 카탈로그 파일을 읽어 메모리에 적재합니다 (최초 1회).
+   * 첫 읽기가 끝나기 전에 들어온 호출도 같은 Map을 받도록 읽기 작업을 공유합니다.
+   */
+  private load(): Promise<Map<string, WineRecord>> {
+    this.loading ??= this.readFile();
+    return this.loading;
+  }
+
+  private async readFile(): Promise<Map<string, WineRecord>> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const parsed = JSON.parse(content) as Record<string, SerializedRecord>;
+      this.records = new Map(
+        Object.entries(parsed).map(([id, record]) => [
+          id,
+          this.deserialize(record),
+        ]),
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn(
+          `Failed to read wine catalog ${this.filePath}, starting empty: ${error}`,
+        );
+      }
+      this.records = new Map();
+    }
+
+    return this.records;
+  }
+
+  /**
+   * 메모리의 레코드를 파일에 기록합니다.
+   * 동시 쓰기를 방지하기 위해 쓰기 작업을 직렬화합니다.
+   */
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(
+      Object.fromEntries(
+        [...(this.records ?? new Map<string, WineRecord>())].map(
+          ([id, record]) => [id, this.serialize(record)],
+        ),
+      ),
+    );
+
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(this.filePath, snapshot, 'utf-8');
+      });
+
+    return this.writeQueue;
+  }
+
+  private serialize(record: WineRecord): SerializedRecord {
+    return {
+      id: record.id,
+      wine: record.wine.toJSON(),
+      ratings: record.ratings.map((rating) => rating.toJSON()),
+      prices: record.prices.map((price) => price.toJSON()),
+      sourceUrl: record.sourceUrl,
+      firstSeenAt: record.firstSeenAt.toISOString(),
+      lastSeenAt: record.lastSeenAt.toISOString(),
+    };
+  }
+
+  private deserialize(record: SerializedRecord): WineRecord {
+    const { wine } = record;
+
+    return {
+      id: record.id,
+      wine: new Wine(
+        WineName.create(wine.name),
+        wine.region,
+        wine.winery,
+        wine.variety,
+        wine.vintage === null ? null : Vintage.parse(wine.vintage),
+      ),
+      ratings: record.ratings.map(
+        (rating) =>
+          new Rating(
+            rating.source,
+            Score.create(rating.score),
+            rating.critic,
+            rating.reviewCount,
+          ),
+      ),
+      prices: record.prices.map(
+        (price) =>
+          new Price(
+            price.average,
+            price.currency,
+            price.priceRange,
+            new Date(price.updatedAt),
+          ),
+      ),
+      sourceUrl: record.sourceUrl,
+      firstSeenAt: new Date(record.firstSeenAt),
+      lastSeenAt: new Date(record.lastSeenAt),
+    };
+  }
+}
@@ -0,0 +1,157 @@
+import { InMemoryWineRepositoryAdapter } from './in-memory-wine-repository.adapter';
+import { WineObservation } from '../../domain/ports/wine-repository.port';
+import { Wine } from '../../domain/entities/wine.entity';
+import { Rating } from '../../domain/entities/rating.entity';
+import { Price } from '../../domain/entities/price.entity';
+import { WineName } from '../../domain/value-objects/wine-name.vo';
+import { Vintage } from '../../domain/value-objects/vintage.vo';
+import { Score } from '../../domain/value-objects/score.vo';
+
+describe('InMemoryWineRepositoryAdapter', () => {
+  let repository: InMemoryWineRepositoryAdapter;
+
+  const observe = (
+    vintage: number,
+    price: Price | null,
+    crawledAt: Date,
+    score = 96,
+  ): WineObservation => ({
+    wine: new Wine(
+      WineName.create(`Opus One ${vintage}`),
+      'Napa Valley',
+      'Opus One',
+      'Cabernet Sauvignon',
+      Vintage.create(vintage),
+    ),
+    ratings: [
+      new Rating('Wine Advocate', Score.create(score), 'Robert Parker', 10),
+    ],
+    price,
+    sourceUrl: `https://www.wine-searcher.com/find/opus+one/${vintage}`,
+    crawledAt,
+  });
+
+  const price = (average: number, updatedAt: string, currency = 'USD') =>
+    new Price(average, currency, null, new Date(updatedAt));
+
+  beforeEach(() => {
+    repository = new InMemoryWineRepositoryAdapter();
+  });
+
+  it('should store a new wine under its slug identity', async () => {
+    const crawledAt = new Date('2025-01-01T00:00:00Z');
+
+    const record = await repository.upsert(
+      observe(2018, price(300, '2025-01-01'), crawledAt),
+    );
+
+    expect(record).toMatchObject({
+      id: 'opus-one-2018',
+      firstSeenAt: crawledAt,
+      lastSeenAt: crawledAt,
+    });
+    expect(record.prices.map((snapshot) => snapshot.average)).toEqual([300]);
+    await expect(repository.findById('opus-one-2018')).resolves.toBe(record);
+  });
+
+  it('should replace ratings and append new price snapshots on upsert', async () => {
+    await repository.upsert(
+      observe(2018, price(300, '2025-01-01'), new Date('2025-01-01'), 96),
+    );
+
+    const record = await repository.upsert(
+      observe(2018, price(320, '2025-02-01'), new Date('2025-02-01'), 97),
+    );
+
+    expect(record.ratings.map((rating) => rating.score.value)).toEqual([97]);
+    expect(record.prices.map((snapshot) => snapshot.average)).toEqual([
+      300, 320,
+    ]);
+    expect(record.firstSeenAt).toEqual(new Date('2025-01-01'));
+    expect(record.lastSeenAt).toEqual(new Date('2025-02-01'));
+  });
+
+  it('should not duplicate an unchanged price snapshot', async () => {
+    await repository.upsert(
+      observe(2018, price(300, '2025-01-01'), new Date('2025-01-01')),
+    );
+
+    const record = await repository.upsert(
+      observe(2018, price(300, '2025-01-01'), new Date('2025-01-02')),
+    );
+
+    expect(record.prices).toHaveLength(1);
+  });
+
+  it('should keep price snapshots in chronological order', async () => {
+    await repository.upsert(
+      observe(2018, price(320, '2025-02-01'), new Date('2025-02-01')),
+    );
+    await repository.upsert(
+      observe(2018, price(90, '2025-01-01', 'GBP'), new Date('2025-02-02')),
+    );
+
+    const record = await repository.upsert(
+      observe(2018, null, new Date('2025-02-03')),
+    );
+
+    expect(
+      record.prices.map(
+        (snapshot) => `${snapshot.currency} ${snapshot.average}`,
+      ),
+    ).toEqual(['GBP 90', 'USD 320']);
+  });
+
+  it('should keep vintages of the same wine apart', async () => {
+    await repository.upsert(observe(2018, null, new Date('2025-01-01')));
+    await repository.upsert(observe(2019, null, new Date('2025-01-01')));
+
+    expect(
+      (await repository.findById('opus-one-2018'))!.wine.vintage!.value,
+    ).toBe(2018);
+    expect(
+      (await repository.findById('opus-one-2019'))!.wine.vintage!.value,
+    ).toBe(2019);
+  });
+
+  it('should add recorded prices without replacing wine details or ratings', async () => {
+    const searched = observe(
+      2018,
+      price(300, '2025-01-01'),
+      new Date('2025-01-01'),
+    );
+    await repository.upsert(searched);
+
+    const record = await repository.recordPrice({
+      wine: searched.wine,
+      price: price(320, '2025-02-01'),
+      sourceUrl: 'https://www.wine-searcher.com/find/opus+one',
+      crawledAt: new Date('2025-02-01'),
+    });
+
+    expect(record.ratings).toEqual(searched.ratings);
+    expect(record.sourceUrl).toBe(searched.sourceUrl);
+    expect(record.prices.map((snapshot) => snapshot.average)).toEqual([
+      300, 320,
+    ]);
+    expect(record.lastSeenAt).toEqual(new Date('2025-02-01'));
+  });
+
+  it('should create a record without ratings for a recorded price of a new wine', async () => {
+    const { wine } = observe(2019, null, new Date('2025-01-01'));
+
+    const record = await repository.recordPrice({
+      wine,
+      price: price(420, '2025-02-01'),
+      sourceUrl: 'https://www.wine-searcher.com/find/opus+one/2019',
+      crawledAt: new Date('2025-02-01'),
+    });
+
+    expect(record).toMatchObject({ id: 'opus-one-2019', ratings: [] });
+    await expect(repository.findById('opus-one-2019')).resolves.toBe(record);
+  });
+
+  it('should return null for an unknown wine', async () => {
+    await expect(repository.findById('missing')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import {
+  PriceObservation,
+  WineObservation,
+  WineRecord,
+  WineRepositoryPort,
+} from '../../domain/ports/wine-repository.port';
+import { WineId } from '../../domain/value-objects/wine-id.vo';
+import { mergePriceSnapshot, mergeWineRecord } from './wine-record.util';
+
+/**
+ * InMemoryWineRepositoryAdapter
+ *
+ * 와인 카탈로그를 Map에 보관하는 어댑터입니다.
+ * 테스트와 로컬 개발에서 사용하며, 프로세스가 재시작되면 모든 레코드가 사라집니다.
+ */
+@Injectable()
+export class InMemoryWineRepositoryAdapter implements WineRepositoryPort {
+  private readonly records = new Map<string, WineRecord>();
+
+  async upsert(observation: WineObservation): Promise<WineRecord> {
+    const id = WineId.fromWine(observation.wine).value;
+    const record = mergeWineRecord(this.records.get(id) ?? null, observation);
+    this.records.set(id, record);
+    return record;
+  }
+
+  async recordPrice(observation: PriceObservation): Promise<WineRecord> {
+    const id = WineId.fromWine(observation.wine).value;
+    const record = mergePriceSnapshot(
+      this.records.get(id) ?? null,
+      observation,
+    );
+    this.records.set(id, record);
+    return record;
+  }
+
+  async findById(id: string): Promise<WineRecord | null> {
+    return this.records.get(id) ?? null;
+  }
+}
@@ -0,0 +1,72 @@
+import {
+  PriceObservation,
+  WineObservation,
+  WineRecord,
+} from '../../domain/ports/wine-repository.port';
+import { Price } from '../../domain/entities/price.entity';
+import { WineId } from '../../domain/value-objects/wine-id.vo';
+
+/**
+ * 크롤링 결과를 기존 카탈로그 레코드에 반영한 새 레코드를 만듭니다.
+ * 와인 정보, 평점, 출처는 최신 값으로 바꾸고, 처음 보는 가격만 스냅샷으로 추가합니다.
+ *
+ * @param existing - 같은 와인의 기존 레코드 (없으면 null)
+ * @param observation - 크롤링한 와인 데이터
+ */
+export function mergeWineRecord(
+  existing: WineRecord | null,
+  observation: WineObservation,
+): WineRecord {
+  return {
+    id: WineId.fromWine(observation.wine).value,
+    wine: observation.wine,
+    ratings: [...observation.ratings],
+    prices: withSnapshot(existing?.prices ?? [], observation.price),
+    sourceUrl: observation.sourceUrl,
+    firstSeenAt: existing?.firstSeenAt ?? observation.crawledAt,
+    lastSeenAt: observation.crawledAt,
+  };
+}
+
+/**
+ * 가격 스냅샷만 기존 카탈로그 레코드에 추가한 새 레코드를 만듭니다.
+ * 레코드가 없으면 평점 없는 레코드를 새로 만듭니다.
+ *
+ * @param existing - 같은 와인의 기존 레코드 (없으면 null)
+ * @param observation - 크롤링한 가격
+ */
+export function mergePriceSnapshot(
+  existing: WineRecord | null,
+  observation: PriceObservation,
+): WineRecord {
+  if (!existing) {
+    return mergeWineRecord(null, { ...observation, ratings: [] });
+  }
+
+  return {
+    ...existing,
+    prices: withSnapshot(existing.prices, observation.price),
+    lastSeenAt: observation.crawledAt,
+  };
+}
+
+// Snapshots stay in chronological order
+function withSnapshot(prices: Price[], price: Price | null): Price[] {
+  if (!price || hasSnapshot(prices, price)) {
+    return [...prices];
+  }
+
+  return [...prices, price].sort(
+    (a, b) => a.updatedAt.getTime() - b.updatedAt.getTime(),
+  );
+}
+
+// Re-crawling a page that has not changed yields the same snapshot again
+function hasSnapshot(prices: Price[], price: Price): boolean {
+  return prices.some(
+    (snapshot) =>
+      snapshot.currency === price.currency &&
+      snapshot.average === price.average &&
+      snapshot.updatedAt.getTime() === price.updatedAt.getTime(),
+  );
+}
@@ -0,0 +1,129 @@
+import { RobotsTxtService } from './robots-txt.service';
+import { HostScheduler } from '../scheduling/host-scheduler';
+import { CrawlerPort, FetchResult } from '../../domain/ports/crawler.port';
+import {
+  NetworkError,
+  RobotsDisallowedError,
+} from '../../domain/errors/crawler.errors';
+
+describe('RobotsTxtService', () => {
+  const origin = 'https://www.wine-searcher.com';
+  let crawler: jest.Mocked<CrawlerPort>;
+  let scheduler: HostScheduler;
+  let service: RobotsTxtService;
+
+  const robotsPage = (body: string, statusCode = 200): FetchResult => ({
+    body,
+    statusCode,
+    finalUrl: `${origin}/robots.txt`,
+    headers: {},
+    redirects: [],
+    bytes: body.length,
+    durationMs: 5,
+  });
+
+  beforeEach(() => {
+    crawler = {
+      fetch: jest.fn(),
+      fetchPage: jest
+        .fn()
+        .mockResolvedValue(
+          robotsPage('User-agent: *\nDisallow: /ajax/\nCrawl-delay: 3'),
+        ),
+    };
+    scheduler = new HostScheduler();
+    service = new RobotsTxtService({ crawler, scheduler, cacheTtlMs: 60000 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should allow paths permitted by robots.txt', async () => {
+    await expect(
+      service.assertAllowed(`${origin}/find/opus+one`),
+    ).resolves.toBeUndefined();
+
+    expect(crawler.fetchPage).toHaveBeenCalledWith(`${origin}/robots.txt`, {
+      acceptAnyStatus: true,
+    });
+  });
+
+  it('should reject disallowed paths with RobotsDisallowedError', async () => {
+    const error = await service
+      .assertAllowed(`${origin}/ajax/prices`)
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(RobotsDisallowedError);
+    expect(error.url).toBe(`${origin}/ajax/prices`);
+    expect(error.userAgent).toBe('WineScope');
+    expect(error.message).toContain('Disallow: /ajax/');
+  });
+
+  it('should cache robots.txt per origin and share in-flight fetches', async () => {
+    await Promise.all([
+      service.assertAllowed(`${origin}/find/a`),
+      service.assertAllowed(`${origin}/find/b`),
+    ]);
+    await service.assertAllowed(`${origin}/find/c`);
+    await service.assertAllowed('https://example.com/');
+
+    expect(crawler.fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should refetch robots.txt after the cache TTL', async () => {
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1000000);
+    await service.assertAllowed(`${origin}/find/a`);
+
+    nowSpy.mockReturnValue(1000000 + 60000);
+    await service.assertAllowed(`${origin}/find/a`);
+
+    expect(crawler.fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should feed crawl-delay into the scheduler, capped at the limit', async () => {
+    const setSpy = jest.spyOn(scheduler, 'setMinInterval');
+    service = new RobotsTxtService({
+      crawler,
+      scheduler,
+      maxCrawlDelayMs: 2000,
+    });
+
+    await service.assertAllowed(`${origin}/find/a`);
+
+    expect(setSpy).toHaveBeenCalledWith('www.wine-searcher.com', 2000);
+  });
+
+  it('should allow everything when robots.txt is missing', async () => {
+    crawler.fetchPage.mockResolvedValue(robotsPage('Not found', 404));
+
+    await expect(
+      service.assertAllowed(`${origin}/ajax/prices`),
+    ).resolves.toBeUndefined();
+  });
+
+  it.each([
+    ['a 5xx response', () => Promise.resolve(robotsPage('oops', 503))],
+    [
+      'a network error',
+      () => Promise.reject(new NetworkError('reset', `${origin}/robots.txt`)),
+    ],
+  ])('should disallow everything briefly on %s', async (_, respond) => {
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1000000);
+    crawler.fetchPage.mockImplementationOnce(respond);
+
+    await expect(service.assertAllowed(`${origin}/find/a`)).rejects.toThrow(
+      /unreachable/,
+    );
+
+    nowSpy.mockReturnValue(1000000 + 60000);
+    await expect(
+      service.assertAllowed(`${origin}/find/a`),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should leave invalid URLs to the crawler', async () => {
+    await expect(service.assertAllowed('not a url')).resolves.toBeUndefined();
+    expect(crawler.fetchPage).not.toHaveBeenCalled();
+  });
+});
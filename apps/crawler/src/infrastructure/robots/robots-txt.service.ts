@@ -0,0 +1,189 @@
+import { Logger } from '@nestjs/common';
+import { CrawlerPort } from '../../domain/ports/crawler.port';
+import { RobotsDisallowedError } from '../../domain/errors/crawler.errors';
+import { HostScheduler } from '../scheduling/host-scheduler';
+import { RobotsTxt } from './robots-txt';
+
+export interface RobotsTxtServiceOptions {
+  /**
+   * robots.txt를 가져올 크롤러
+   */
+  crawler: CrawlerPort;
+
+  /**
+   * Crawl-delay를 반영할 스케줄러 (없으면 Crawl-delay를 무시)
+   */
+  scheduler?: HostScheduler;
+
+  /**
+   * robots.txt 그룹 선택에 사용할 product token
+   * @default 'WineScope'
+   */
+  userAgent?: string;
+
+  /**
+   * robots.txt 캐시 유지 시간 (밀리초)
+   * @default 3600000 (1시간)
+   */
+  cacheTtlMs?: number;
+
+  /**
+   * robots.txt를 가져오지 못했을 때 전체 금지를 유지하는 시간 (밀리초)
+   * @default 60000 (1분)
+   */
+  unreachableTtlMs?: number;
+
+  /**
+   * 스케줄러에 반영할 Crawl-delay 상한 (밀리초)
+   * @default 30000
+   */
+  maxCrawlDelayMs?: number;
+}
+
+interface CachedRobots {
+  robots: RobotsTxt;
+  unreachable: boolean;
+  expiresAt: number;
+}
+
+/**
+ * RobotsTxtService
+ *
+ * 호스트별 robots.txt를 가져와 캐시하고, 요청 URL의 크롤링 허용 여부를 검사합니다.
+ *
+ * @remarks
+ * RFC 9309에 따라 4xx 응답은 robots.txt가 없는 것으로 보고 모두 허용하며,
+ * 5xx 응답이나 네트워크 오류는 모두 금지로 보고 짧은 시간 뒤 다시 가져옵니다.
+ * Crawl-delay는 HostScheduler의 호스트별 최소 요청 간격으로 반영합니다.
+ */
+export class RobotsTxtService {
+  private readonly logger = new Logger(RobotsTxtService.name);
+  private readonly cache = new Map<string, CachedRobots>();
+  private readonly inFlight = new Map<string, Promise<CachedRobots>>();
+  private readonly crawler: CrawlerPort;
+  private readonly scheduler?: HostScheduler;
+  private readonly userAgent: string;
+  private readonly cacheTtlMs: number;
+  private readonly unreachableTtlMs: number;
+  private readonly maxCrawlDelayMs: number;
+
+  constructor(options: RobotsTxtServiceOptions) {
+    this.crawler = options.crawler;
+    this.scheduler = options.scheduler;
+    this.userAgent = options.userAgent ?? 'WineScope';
+    this.cacheTtlMs = options.cacheTtlMs ?? 60 * 60 * 1000;
+    this.unreachableTtlMs = options.unreachableTtlMs ?? 60 * 1000;
+    this.maxCrawlDelayMs = options.maxCrawlDelayMs ?? 30000;
+  }
+
+  /**
+   * URL이 robots.txt에 의해 금지되었는지 검사합니다.
+   *
+   * @param url - 크롤링할 URL
+   * @throws RobotsDisallowedError 금지된 경로이거나 robots.txt를 가져올 수 없는 경우
+   */
+  async assertAllowed(url: string): Promise<void> {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      return; // invalid URLs are reported by the crawler itself
+    }
+
+    const entry = await this.load(target);
+    const path = `${target.pathname}${target.search}`;
+    const rule = entry.robots.findDisallowRule(path, this.userAgent);
+    if (!rule) {
+      return;
+    }
+
+    throw new RobotsDisallowedError(
+      entry.unreachable
+        ? `robots.txt for ${target.origin} is unreachable, treating ${url} as disallowed`
+        : `robots.txt for ${target.origin} disallows ${url} for ${this.userAgent} (Disallow: ${rule.pattern})`,
+      url,
+      this.userAgent,
+    );
+  }
+
+  private async load(target: URL): Promise<CachedRobots> {
+    const cached = this.cache.get(target.origin);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    const pending = this.inFlight.get(target.origin);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.fetchRobots(target).finally(() =>
+      this.inFlight.delete(target.origin),
+    );
+    this.inFlight.set(target.origin, request);
+    return request;
+  }
+
+  private async fetchRobots(target: URL): Promise<CachedRobots> {
+    const robotsUrl = `${target.origin}/robots.txt`;
+    let entry: CachedRobots;
+
+    try {
+      const page = await this.crawler.fetchPage(robotsUrl, {
+        acceptAnyStatus: true,
+      });
+
+      if (page.statusCode >= 500) {
+        entry = this.unreachable(`HTTP ${page.statusCode}`, robotsUrl);
+      } else if (page.statusCode >= 400) {
+        entry = this.fresh(RobotsTxt.allowAll());
+      } else {
+        entry = this.fresh(RobotsTxt.parse(page.body));
+      }
+    } catch (error) {
+      entry = this.unreachable((error as Error).message, robotsUrl);
+    }
+
+    this.cache.set(target.origin, entry);
+    this.applyCrawlDelay(target.host, entry.robots);
+    return entry;
+  }
+
+  private fresh(robots: RobotsTxt): CachedRobots {
+    return {
+      robots,
+      unreachable: false,
+      expiresAt: Date.now() + this.cacheTtlMs,
+    };
+  }
+
+  private unreachable(reason: string, robotsUrl: string): CachedRobots {
+    this.logger.warn(
+      `Failed to fetch ${robotsUrl} (${reason}), disallowing the host for ${this.unreachableTtlMs}ms`,
+    );
+
+    return {
+      robots: RobotsTxt.disallowAll(),
+      unreachable: true,
+      expiresAt: Date.now() + this.unreachableTtlMs,
+    };
+  }
+
+  private applyCrawlDelay(host: string, robots: RobotsTxt): void {
+    if (!this.scheduler) {
+      return;
+    }
+
+    const delayMs = robots.getCrawlDelayMs(this.userAgent) ?? 0;
+    if (delayMs > this.maxCrawlDelayMs) {
+      this.logger.warn(
+        `Crawl-delay ${delayMs}ms for ${host} exceeds the limit, using ${this.maxCrawlDelayMs}ms`,
+      );
+    }
+
+    this.scheduler.setMinInterval(
+      host,
+      Math.min(delayMs, this.maxCrawlDelayMs),
+    );
+  }
+}
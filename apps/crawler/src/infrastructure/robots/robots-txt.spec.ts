@@ -0,0 +1,77 @@
+import { RobotsTxt } from './robots-txt';
+
+describe('RobotsTxt', () => {
+  const robots = RobotsTxt.parse(
+    [
+      '# comment line',
+      'Disallow: /orphan', // before any user-agent, ignored
+      '',
+      'User-agent: *',
+      'Disallow: /private/',
+      'Disallow: /search',
+      'Allow: /search/about',
+      'Disallow: /*.json$',
+      'Crawl-delay: 2',
+      '',
+      'User-agent: WineScope',
+      'User-agent: OtherBot',
+      'Disallow: /find/*?*Xlist_mode=  # list views',
+      'Allow: /find/',
+      '',
+      'User-agent: winescope',
+      'Crawl-delay: 0.5',
+    ].join('\n'),
+  );
+
+  const allowed = (path: string, userAgent = 'SomeBot') =>
+    robots.findDisallowRule(path, userAgent) === null;
+
+  it('should apply the default group to unknown user agents', () => {
+    expect(allowed('/private/page')).toBe(false);
+    expect(allowed('/public')).toBe(true);
+    expect(allowed('/orphan')).toBe(true);
+  });
+
+  it('should prefer the longest matching rule and allow on ties', () => {
+    expect(allowed('/search?q=merlot')).toBe(false);
+    expect(allowed('/search/about')).toBe(true);
+
+    const tie = RobotsTxt.parse('User-agent: *\nDisallow: /a\nAllow: /a');
+    expect(tie.findDisallowRule('/a', 'x')).toBeNull();
+  });
+
+  it('should support * wildcards and $ anchors', () => {
+    expect(allowed('/data/wines.json')).toBe(false);
+    expect(allowed('/data/wines.json?page=2')).toBe(true);
+  });
+
+  it('should use the matching group case-insensitively, merging duplicates', () => {
+    expect(allowed('/private/page', 'winescope')).toBe(true);
+    expect(allowed('/find/opus+one', 'WineScope')).toBe(true);
+    expect(
+      robots.findDisallowRule('/find/opus+one?Xlist_mode=1', 'WineScope'),
+    ).toEqual({ allow: false, pattern: '/find/*?*Xlist_mode=' });
+    expect(robots.getCrawlDelayMs('WineScope')).toBe(500);
+  });
+
+  it('should report crawl-delay of the default group', () => {
+    expect(robots.getCrawlDelayMs('SomeBot')).toBe(2000);
+    expect(
+      RobotsTxt.parse('User-agent: *\nDisallow:').getCrawlDelayMs('x'),
+    ).toBe(null);
+  });
+
+  it('should treat an empty Disallow as allowing everything', () => {
+    const open = RobotsTxt.parse('User-agent: *\nDisallow:');
+
+    expect(open.findDisallowRule('/anything', 'x')).toBeNull();
+  });
+
+  it('should always allow /robots.txt', () => {
+    expect(RobotsTxt.disallowAll().findDisallowRule('/robots.txt', 'x')).toBe(
+      null,
+    );
+    expect(RobotsTxt.disallowAll().findDisallowRule('/', 'x')).not.toBeNull();
+    expect(RobotsTxt.allowAll().findDisallowRule('/private', 'x')).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * robots.txt의 Allow/Disallow 규칙
+ */
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsGroup {
+  userAgents: string[]; // lowercase product tokens, '*' for the default group
+  rules: RobotsRule[];
+  crawlDelaySeconds: number | null;
+}
+
+/**
+ * RFC 9309에 따라 파싱할 최대 크기 (500 KiB)
+ */
+const MAX_ROBOTS_BYTES = 500 * 1024;
+
+/**
+ * RobotsTxt
+ *
+ * robots.txt(RFC 9309)를 파싱하여 user-agent별 허용 여부와 Crawl-delay를 평가합니다.
+ *
+ * @remarks
+ * - user-agent가 정확히 일치하는 그룹을 우선하고, 없으면 `*` 그룹을 사용합니다. 같은 user-agent의 그룹은 합칩니다.
+ * - 경로와 일치하는 규칙 중 패턴이 가장 긴 규칙을 따르며, 길이가 같으면 Allow가 우선합니다.
+ * - 패턴의 `*`는 임의 문자열, 끝의 `$`는 경로 끝을 의미합니다.
+ * - Crawl-delay는 표준이 아니지만 널리 쓰이므로 지원합니다.
+ */
+export class RobotsTxt {
+  private constructor(private readonly groups: RobotsGroup[]) {}
+
+  /**
+   * robots.txt 본문을 파싱합니다. 알 수 없는 지시어와 잘못된 줄은 무시합니다.
+   */
+  static parse(content: string): RobotsTxt {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | null = null;
+    let collectingAgents = false;
+
+    for (const rawLine of content.slice(0, MAX_ROBOTS_BYTES).split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator <= 0) {
+        continue;
+      }
+
+      const key = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (key === 'user-agent') {
+        if (!current || !collectingAgents) {
+          current = { userAgents: [], rules: [], crawlDelaySeconds: null };
+          groups.push(current);
+          collectingAgents = true;
+        }
+        current.userAgents.push(value.toLowerCase());
+        continue;
+      }
+
+      collectingAgents = false;
+      if (!current) {
+        continue; // rules before the first user-agent line belong to no group
+      }
+
+      if ((key === 'allow' || key === 'disallow') && value) {
+        current.rules.push({ allow: key === 'allow', pattern: value });
+      } else if (key === 'crawl-delay') {
+        const seconds = parseFloat(value);
+        if (Number.isFinite(seconds) && seconds >= 0) {
+          current.crawlDelaySeconds = seconds;
+        }
+      }
+    }
+
+    return new RobotsTxt(groups);
+  }
+
+  /**
+   * 모든 경로를 허용합니다 (robots.txt가 없는 경우).
+   */
+  static allowAll(): RobotsTxt {
+    return new RobotsTxt([]);
+  }
+
+  /**
+   * 모든 경로를 금지합니다 (robots.txt를 가져올 수 없는 경우).
+   */
+  static disallowAll(): RobotsTxt {
+    return new RobotsTxt([
+      {
+        userAgents: ['*'],
+        rules: [{ allow: false, pattern: '/' }],
+        crawlDelaySeconds: null,
+      },
+    ]);
+  }
+
+  /**
+   * 경로가 user-agent에게 허용되는지 평가합니다.
+   *
+   * @param path - 쿼리 문자열을 포함한 경로 (예: "/find/opus+one?Xcurrency=USD")
+   * @param userAgent - 크롤러 product token (대소문자 무시)
+   * @returns 허용되면 null, 금지되면 해당 Disallow 규칙
+   */
+  findDisallowRule(path: string, userAgent: string): RobotsRule | null {
+    if (path === '/robots.txt') {
+      return null;
+    }
+
+    let matched: RobotsRule | null = null;
+
+    for (const rule of this.getRules(userAgent)) {
+      if (!this.matches(rule.pattern, path)) {
+        continue;
+      }
+
+      if (
+        !matched ||
+        rule.pattern.length > matched.pattern.length ||
+        (rule.pattern.length === matched.pattern.length && rule.allow)
+      ) {
+        matched = rule;
+      }
+    }
+
+    return matched && !matched.allow ? matched : null;
+  }
+
+  /**
+   * user-agent에 적용되는 Crawl-delay를 반환합니다.
+   *
+   * @returns 밀리초 단위 지연, 지정되지 않았으면 null
+   */
+  getCrawlDelayMs(userAgent: string): number | null {
+    const delays = this.selectGroups(userAgent)
+      .map((group) => group.crawlDelaySeconds)
+      .filter((seconds): seconds is number => seconds !== null);
+
+    return delays.length > 0 ? Math.max(...delays) * 1000 : null;
+  }
+
+  private getRules(userAgent: string): RobotsRule[] {
+    return this.selectGroups(userAgent).flatMap((group) => group.rules);
+  }
+
+  private selectGroups(userAgent: string): RobotsGroup[] {
+    const token = userAgent.toLowerCase();
+    const specific = this.groups.filter((group) =>
+      group.userAgents.includes(token),
+    );
+
+    return specific.length > 0
+      ? specific
+      : this.groups.filter((group) => group.userAgents.includes('*'));
+  }
+
+  private matches(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith('$');
+    const body = anchored ? pattern.slice(0, -1) : pattern;
+    const regex = body
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+
+    return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+  }
+}
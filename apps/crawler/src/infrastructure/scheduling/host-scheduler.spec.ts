@@ -0,0 +1,144 @@
+import { HostScheduler } from './host-scheduler';
+import { CrawlerSaturatedError } from '../../domain/errors/crawler.errors';
+
+describe('HostScheduler', () => {
+  const deferred = () => {
+    let resolve!: (value: string) => void;
+    const promise = new Promise<string>((res) => {
+      resolve = res;
+    });
+    return { promise, resolve };
+  };
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should run tasks immediately while tokens are available', async () => {
+    const scheduler = new HostScheduler({ requestsPerSecond: 1, burst: 2 });
+    const task = jest.fn(async () => 'ok');
+
+    await Promise.all([
+      scheduler.schedule('a.com', task),
+      scheduler.schedule('a.com', task),
+    ]);
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('should delay tasks until tokens are refilled', async () => {
+    const scheduler = new HostScheduler({ requestsPerSecond: 1, burst: 1 });
+    const task = jest.fn(async () => 'ok');
+
+    void scheduler.schedule('a.com', task);
+    const second = scheduler.schedule('a.com', task);
+    await flush();
+
+    expect(task).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(1000);
+    await expect(second).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('should limit concurrent tasks per host', async () => {
+    const scheduler = new HostScheduler({
+      requestsPerSecond: 100,
+      burst: 10,
+      maxConcurrent: 2,
+    });
+    const pending = [deferred(), deferred(), deferred()];
+    let calls = 0;
+    const task = jest.fn(() => pending[calls++].promise);
+
+    const results = pending.map(() => scheduler.schedule('a.com', task));
+    await flush();
+
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(scheduler.getStats()[0]).toMatchObject({ active: 2, queued: 1 });
+
+    pending[0].resolve('first');
+    await flush();
+
+    expect(task).toHaveBeenCalledTimes(3);
+
+    pending[1].resolve('second');
+    pending[2].resolve('third');
+    await expect(Promise.all(results)).resolves.toEqual([
+      'first',
+      'second',
+      'third',
+    ]);
+  });
+
+  it('should track hosts independently', async () => {
+    const scheduler = new HostScheduler({ requestsPerSecond: 1, burst: 1 });
+    const task = jest.fn(async () => 'ok');
+
+    await Promise.all([
+      scheduler.schedule('a.com', task),
+      scheduler.schedule('b.com', task),
+    ]);
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject with CrawlerSaturatedError when queue is full', async () => {
+    const scheduler = new HostScheduler({
+      requestsPerSecond: 1,
+      burst: 1,
+      maxQueueDepth: 1,
+    });
+    const task = jest.fn(async () => 'ok');
+
+    void scheduler.schedule('a.com', task);
+    void scheduler.schedule('a.com', task);
+
+    await expect(scheduler.schedule('a.com', task)).rejects.toThrow(
+      CrawlerSaturatedError,
+    );
+  });
+
+  it('should release the slot when a task fails', async () => {
+    const scheduler = new HostScheduler({
+      requestsPerSecond: 100,
+      burst: 10,
+      maxConcurrent: 1,
+    });
+
+    await expect(
+      scheduler.schedule('a.com', async () => {
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+    await expect(scheduler.schedule('a.com', async () => 'ok')).resolves.toBe(
+      'ok',
+    );
+  });
+
+  it('should space requests by the minimum interval even with spare tokens', async () => {
+    const scheduler = new HostScheduler({ requestsPerSecond: 100, burst: 10 });
+    const task = jest.fn(async () => 'ok');
+    scheduler.setMinInterval('a.com', 5000);
+
+    await scheduler.schedule('a.com', task);
+    const second = scheduler.schedule('a.com', task);
+    await flush();
+
+    expect(task).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(4999);
+    await flush();
+    expect(task).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(1);
+    await expect(second).resolves.toBe('ok');
+    await expect(scheduler.schedule('b.com', task)).resolves.toBe('ok');
+  });
+});
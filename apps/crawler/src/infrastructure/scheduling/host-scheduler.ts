@@ -0,0 +1,225 @@
+import { Logger } from '@nestjs/common';
+import { CrawlerSaturatedError } from '../../domain/errors/crawler.errors';
+
+export interface HostSchedulerOptions {
+  /**
+   * 호스트별 초당 허용 요청 수 (토큰 충전 속도)
+   * @default 2
+   */
+  requestsPerSecond?: number;
+
+  /**
+   * 순간적으로 허용하는 최대 요청 수 (토큰 버킷 크기)
+   * @default 2
+   */
+  burst?: number;
+
+  /**
+   * 호스트별 최대 동시 요청 수
+   * @default 5
+   */
+  maxConcurrent?: number;
+
+  /**
+   * 호스트별 최대 대기열 길이, 초과 시 CrawlerSaturatedError가 발생합니다.
+   * @default 50
+   */
+  maxQueueDepth?: number;
+}
+
+export interface HostSchedulerStats {
+  host: string;
+  active: number;
+  queued: number;
+  tokens: number;
+}
+
+interface QueuedTask {
+  start: () => void;
+}
+
+interface HostState {
+  tokens: number;
+  lastRefillAt: number;
+  active: number;
+  queue: QueuedTask[];
+  timer: NodeJS.Timeout | null;
+  minIntervalMs: number;
+  lastStartedAt: number;
+}
+
+/**
+ * HostScheduler
+ *
+ * 호스트별 토큰 버킷(초당 요청 수)과 세마포어(동시 요청 수)로 외부 요청을 스케줄링합니다.
+ * 즉시 실행할 수 없는 요청은 대기열에 넣고, 대기열이 가득 차면 거부합니다.
+ */
+export class HostScheduler {
+  private readonly logger = new Logger(HostScheduler.name);
+  private readonly hosts = new Map<string, HostState>();
+  private readonly requestsPerSecond: number;
+  private readonly burst: number;
+  private readonly maxConcurrent: number;
+  private readonly maxQueueDepth: number;
+
+  constructor(options: HostSchedulerOptions = {}) {
+    this.requestsPerSecond = options.requestsPerSecond ?? 2;
+    this.burst = options.burst ?? 2;
+    this.maxConcurrent = options.maxConcurrent ?? 5;
+    this.maxQueueDepth = options.maxQueueDepth ?? 50;
+  }
+
+  /**
+   * 호스트의 스케줄링 규칙에 따라 작업을 실행합니다.
+   *
+   * @param host - 요청 대상 호스트
+   * @param task - 실행할 작업
+   * @returns 작업 결과
+   * @throws CrawlerSaturatedError 대기열이 가득 찬 경우
+   */
+  schedule<T>(host: string, task: () => Promise<T>): Promise<T> {
+    const state = this.getState(host);
+
+    if (state.queue.length >= this.maxQueueDepth) {
+      this.logger.warn(
+        `Queue for ${host} is full (${state.queue.length}), rejecting request`,
+      );
+      return Promise.reject(
+        new CrawlerSaturatedError(
+          `Too many pending requests for ${host}`,
+          host,
+          state.queue.length,
+        ),
+      );
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      state.queue.push({
+        start: () => {
+          state.active++;
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              state.active--;
+              this.drain(host);
+            });
+        },
+      });
+
+      if (state.queue.length > 1 || state.active >= this.maxConcurrent) {
+        this.logger.debug(
+          `Queued request for ${host} (queued: ${state.queue.length}, active: ${state.active})`,
+        );
+      }
+
+      this.drain(host);
+    });
+  }
+
+  /**
+   * 호스트의 요청 시작 간 최소 간격을 설정합니다 (robots.txt Crawl-delay 등).
+   * 토큰 버킷 제한과 함께 적용되며, 0이면 간격 제한을 해제합니다.
+   *
+   * @param host - 요청 대상 호스트
+   * @param intervalMs - 최소 간격 (밀리초)
+   */
+  setMinInterval(host: string, intervalMs: number): void {
+    const state = this.getState(host);
+    const minIntervalMs = Math.max(0, intervalMs);
+
+    if (state.minIntervalMs !== minIntervalMs) {
+      this.logger.log(
+        `Minimum request interval for ${host} set to ${minIntervalMs}ms`,
+      );
+    }
+    state.minIntervalMs = minIntervalMs;
+  }
+
+  /**
+   * 호스트별 현재 스케줄링 상태를 반환합니다.
+   */
+  getStats(): HostSchedulerStats[] {
+    return [...this.hosts.entries()].map(([host, state]) => {
+      this.refill(state);
+      return {
+        host,
+        active: state.active,
+        queued: state.queue.length,
+        tokens: Math.floor(state.tokens),
+      };
+    });
+  }
+
+  /**
+   * 실행 가능한 만큼 대기열의 작업을 시작하고,
+   * 토큰이 부족하거나 최소 간격이 지나지 않았으면 다시 시도하도록 타이머를 설정합니다.
+   */
+  private drain(host: string): void {
+    const state = this.getState(host);
+
+    while (state.queue.length > 0 && state.active < this.maxConcurrent) {
+      this.refill(state);
+
+      const intervalWaitMs =
+        state.lastStartedAt + state.minIntervalMs - Date.now();
+      if (intervalWaitMs > 0) {
+        this.scheduleDrain(host, state, intervalWaitMs);
+        return;
+      }
+
+      if (state.tokens < 1) {
+        this.scheduleDrain(
+          host,
+          state,
+          Math.ceil(((1 - state.tokens) / this.requestsPerSecond) * 1000),
+        );
+        return;
+      }
+
+      state.tokens -= 1;
+      state.lastStartedAt = Date.now();
+      state.queue.shift()!.start();
+    }
+  }
+
+  private scheduleDrain(host: string, state: HostState, waitMs: number): void {
+    if (state.timer) {
+      return;
+    }
+
+    state.timer = setTimeout(() => {
+      state.timer = null;
+      this.drain(host);
+    }, waitMs);
+    state.timer.unref?.();
+  }
+
+  private refill(state: HostState): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - state.lastRefillAt) / 1000;
+
+    state.tokens = Math.min(
+      this.burst,
+      state.tokens + elapsedSeconds * this.requestsPerSecond,
+    );
+    state.lastRefillAt = now;
+  }
+
+  private getState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = {
+        tokens: this.burst,
+        lastRefillAt: Date.now(),
+        active: 0,
+        queue: [],
+        timer: null,
+        minIntervalMs: 0,
+        lastStartedAt: 0,
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+}
@@ -0,0 +1,165 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  applySetCookies,
+  cookieHeaderFor,
+  readCookieJar,
+  StoredCookie,
+  writeCookieJar,
+} from './cookie-jar';
+
+describe('cookie-jar', () => {
+  const now = Date.UTC(2024, 0, 1);
+
+  const cookie = (overrides: Partial<StoredCookie> = {}): StoredCookie => ({
+    domain: 'wine-searcher.com',
+    includeSubdomains: true,
+    path: '/',
+    secure: false,
+    httpOnly: false,
+    expiresAt: 0,
+    name: 'currency',
+    value: 'EUR',
+    ...overrides,
+  });
+
+  describe('readCookieJar / writeCookieJar', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cookie-jar-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should return an empty list for a missing file', async () => {
+      await expect(readCookieJar(path.join(dir, 'none.txt'))).resolves.toEqual(
+        [],
+      );
+    });
+
+    it('should read curl cookie files including HttpOnly entries', async () => {
+      const file = path.join(dir, 'jar.txt');
+      await fs.writeFile(
+        file,
+        [
+          '# Netscape HTTP Cookie File',
+          '.wine-searcher.com\tTRUE\t/\tFALSE\t0\tcurrency\tEUR',
+          '#HttpOnly_www.wine-searcher.com\tFALSE\t/\tTRUE\t1893456000\t__cf_bm\tabc',
+        ].join('\n'),
+      );
+
+      await expect(readCookieJar(file)).resolves.toEqual([
+        cookie(),
+        cookie({
+          domain: 'www.wine-searcher.com',
+          includeSubdomains: false,
+          secure: true,
+          httpOnly: true,
+          expiresAt: 1893456000,
+          name: '__cf_bm',
+          value: 'abc',
+        }),
+      ]);
+    });
+
+    it('should round-trip cookies and drop expired ones', async () => {
+      const file = path.join(dir, 'nested', 'jar.txt');
+      const kept = cookie({ httpOnly: true });
+
+      await writeCookieJar(
+        file,
+        [kept, cookie({ name: 'old', expiresAt: now / 1000 - 1 })],
+        now,
+      );
+
+      await expect(readCookieJar(file)).resolves.toEqual([kept]);
+    });
+  });
+
+  describe('cookieHeaderFor', () => {
+    it('should match domain, subdomains, path and scheme', () => {
+      const cookies = [
+        cookie(),
+        cookie({
+          name: 'exact',
+          domain: 'example.com',
+          includeSubdomains: false,
+        }),
+        cookie({ name: 'secure', secure: true }),
+        cookie({ name: 'scoped', path: '/find' }),
+      ];
+
+      expect(
+        cookieHeaderFor(cookies, 'http://www.wine-searcher.com/find/x', now),
+      ).toBe('currency=EUR; scoped=EUR');
+      expect(cookieHeaderFor(cookies, 'https://wine-searcher.com/', now)).toBe(
+        'currency=EUR; secure=EUR',
+      );
+      expect(cookieHeaderFor(cookies, 'https://www.example.com/', now)).toBe(
+        null,
+      );
+    });
+
+    it('should skip expired cookies', () => {
+      expect(
+        cookieHeaderFor(
+          [cookie({ expiresAt: now / 1000 })],
+          'https://wine-searcher.com/',
+          now,
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe('applySetCookies', () => {
+    const url = 'https://www.wine-searcher.com/find/opus+one';
+
+    it('should store host-only and domain cookies with attributes', () => {
+      const result = applySetCookies(
+        [],
+        [
+          'currency=USD; Path=/; Max-Age=60',
+          '__cf_bm=abc=def; Domain=.wine-searcher.com; Secure; HttpOnly; Expires=Wed, 01 Jan 2025 00:00:00 GMT',
+        ],
+        url,
+        now,
+      );
+
+      expect(result).toEqual([
+        cookie({
+          domain: 'www.wine-searcher.com',
+          includeSubdomains: false,
+          value: 'USD',
+          expiresAt: now / 1000 + 60,
+        }),
+        cookie({
+          name: '__cf_bm',
+          value: 'abc=def',
+          secure: true,
+          httpOnly: true,
+          expiresAt: Date.UTC(2025, 0, 1) / 1000,
+        }),
+      ]);
+    });
+
+    it('should replace and delete existing cookies', () => {
+      const existing = [cookie(), cookie({ name: 'region' })];
+
+      const result = applySetCookies(
+        existing,
+        [
+          'currency=GBP; Domain=wine-searcher.com',
+          'region=; Domain=wine-searcher.com; Max-Age=0',
+        ],
+        url,
+        now,
+      );
+
+      expect(result).toEqual([cookie({ value: 'GBP' })]);
+    });
+  });
+});
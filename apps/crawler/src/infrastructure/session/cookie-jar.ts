@@ -0,0 +1,195 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/**
+ * Netscape 쿠키 파일 한 줄에 대응하는 쿠키
+ */
+export interface StoredCookie {
+  domain: string; // without leading dot
+  includeSubdomains: boolean;
+  path: string;
+  secure: boolean;
+  httpOnly: boolean;
+  expiresAt: number; // epoch seconds, 0 for session cookies
+  name: string;
+  value: string;
+}
+
+const HTTP_ONLY_PREFIX = '#HttpOnly_';
+
+/**
+ * curl과 호환되는 Netscape 형식 쿠키 파일을 읽습니다. 파일이 없으면 빈 목록을 반환합니다.
+ */
+export async function readCookieJar(filePath: string): Promise<StoredCookie[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const cookies: StoredCookie[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    const httpOnly = rawLine.startsWith(HTTP_ONLY_PREFIX);
+    const line = httpOnly ? rawLine.slice(HTTP_ONLY_PREFIX.length) : rawLine;
+    if (line.trim() === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    const fields = line.split('\t');
+    if (fields.length < 7) {
+      continue;
+    }
+
+    const [domain, includeSubdomains, cookiePath, secure, expires, name] =
+      fields;
+    cookies.push({
+      domain: domain.replace(/^\./, ''),
+      includeSubdomains: includeSubdomains === 'TRUE',
+      path: cookiePath,
+      secure: secure === 'TRUE',
+      httpOnly,
+      expiresAt: parseInt(expires, 10) || 0,
+      name,
+      value: fields.slice(6).join('\t'),
+    });
+  }
+
+  return cookies;
+}
+
+/**
+ * 쿠키 목록을 Netscape 형식으로 저장합니다. 만료된 쿠키는 제외합니다.
+ */
+export async function writeCookieJar(
+  filePath: string,
+  cookies: StoredCookie[],
+  now: number = Date.now(),
+): Promise<void> {
+  const lines = cookies
+    .filter((cookie) => !isExpired(cookie, now))
+    .map((cookie) =>
+      [
+        `${cookie.httpOnly ? HTTP_ONLY_PREFIX : ''}${cookie.includeSubdomains ? '.' : ''}${cookie.domain}`,
+        cookie.includeSubdomains ? 'TRUE' : 'FALSE',
+        cookie.path,
+        cookie.secure ? 'TRUE' : 'FALSE',
+        cookie.expiresAt.toString(),
+        cookie.name,
+        cookie.value,
+      ].join('\t'),
+    );
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(
+    filePath,
+    ['# Netscape HTTP Cookie File', ...lines, ''].join('\n'),
+    'utf-8',
+  );
+}
+
+/**
+ * 요청 URL에 보낼 Cookie 헤더 값을 만듭니다.
+ *
+ * @returns 보낼 쿠키가 없으면 null
+ */
+export function cookieHeaderFor(
+  cookies: StoredCookie[],
+  url: string,
+  now: number = Date.now(),
+): string | null {
+  const target = new URL(url);
+  const host = target.hostname;
+
+  const matching = cookies.filter(
+    (cookie) =>
+      !isExpired(cookie, now) &&
+      (host === cookie.domain ||
+        (cookie.includeSubdomains && host.endsWith(`.${cookie.domain}`))) &&
+      target.pathname.startsWith(cookie.path) &&
+      (!cookie.secure || target.protocol === 'https:'),
+  );
+
+  return matching.length > 0
+    ? matching.map((cookie) => `${cookie.name}=${cookie.value}`).join('; ')
+    : null;
+}
+
+/**
+ * Set-Cookie 응답 헤더를 쿠키 목록에 반영합니다. 같은 이름/도메인/경로의 쿠키는 교체됩니다.
+ *
+ * @returns 갱신된 쿠키 목록
+ */
+export function applySetCookies(
+  cookies: StoredCookie[],
+  setCookieHeaders: string[],
+  url: string,
+  now: number = Date.now(),
+): StoredCookie[] {
+  const target = new URL(url);
+  let result = [...cookies];
+
+  for (const header of setCookieHeaders) {
+    const [pair, ...attributes] = header.split(';').map((part) => part.trim());
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      continue;
+    }
+
+    const cookie: StoredCookie = {
+      domain: target.hostname,
+      includeSubdomains: false,
+      path: '/',
+      secure: false,
+      httpOnly: false,
+      expiresAt: 0,
+      name: pair.slice(0, separator),
+      value: pair.slice(separator + 1),
+    };
+
+    for (const attribute of attributes) {
+      const [rawKey, ...rest] = attribute.split('=');
+      const key = rawKey.toLowerCase();
+      const value = rest.join('=');
+
+      if (key === 'domain' && value) {
+        cookie.domain = value.replace(/^\./, '').toLowerCase();
+        cookie.includeSubdomains = true;
+      } else if (key === 'path' && value) {
+        cookie.path = value;
+      } else if (key === 'secure') {
+        cookie.secure = true;
+      } else if (key === 'httponly') {
+        cookie.httpOnly = true;
+      } else if (key === 'max-age') {
+        cookie.expiresAt = Math.floor(now / 1000) + parseInt(value, 10);
+      } else if (key === 'expires' && cookie.expiresAt === 0) {
+        const expires = Date.parse(value);
+        if (!Number.isNaN(expires)) {
+          cookie.expiresAt = Math.floor(expires / 1000);
+        }
+      }
+    }
+
+    result = result.filter(
+      (existing) =>
+        !(
+          existing.name === cookie.name &&
+          existing.domain === cookie.domain &&
+          existing.path === cookie.path
+        ),
+    );
+    if (!isExpired(cookie, now)) {
+      result.push(cookie);
+    }
+  }
+
+  return result;
+}
+
+function isExpired(cookie: StoredCookie, now: number): boolean {
+  return cookie.expiresAt !== 0 && cookie.expiresAt * 1000 <= now;
+}
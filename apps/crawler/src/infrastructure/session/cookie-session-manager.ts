@@ -0,0 +1,271 @@
+import { Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { redactProxyUrl } from '../proxy/proxy-pool';
+import { readCookieJar } from './cookie-jar';
+
+export interface CookieSessionManagerOptions {
+  /**
+   * 쿠키 파일 저장 디렉터리
+   * @default '.cache/sessions'
+   */
+  dir?: string;
+
+  /**
+   * 마지막 사용 후 쿠키 세션이 유지되는 시간 (밀리초)
+   * @default 1800000 (30분)
+   */
+  ttlMs?: number;
+}
+
+export interface CookieSession {
+  id: string;
+  cookieJar: string; // path to the Netscape cookie file
+}
+
+export interface CookieSessionInfo {
+  id: string;
+  browser: string;
+  proxy: string | null; // redacted, null for direct connections
+  cookies: number;
+  requests: number;
+  createdAt: string; // ISO 8601 format
+  lastUsedAt: string; // ISO 8601 format
+  expiresAt: string; // ISO 8601 format
+}
+
+/**
+ * 세션 ID 형식 (조합 해시 16자). 외부 입력이 파일 경로로 쓰이지 않도록 검증합니다.
+ */
+const SESSION_ID_PATTERN = /^[0-9a-f]{16}$/;
+
+/**
+ * 세션 쿠키 파일 이름 형식 (이전 프로세스가 남긴 파일 포함)
+ */
+const JAR_FILE_PATTERN = /^[0-9a-f]{16}\.txt$/;
+
+interface SessionState {
+  id: string;
+  browser: string;
+  proxy: string | null;
+  cookieJar: string;
+  requests: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+/**
+ * CookieSessionManager
+ *
+ * 브라우저 핑거프린트와 프록시 조합별로 쿠키 파일을 관리합니다.
+ *
+ * @remarks
+ * - 같은 핑거프린트/프록시 조합의 요청은 같은 쿠키 파일을 사용하여 지역/통화 설정과
+ *   봇 차단 통과 쿠키를 유지합니다.
+ * - 세션 ID는 조합의 해시이므로 재시작 후에도 TTL 안의 쿠키 파일을 이어서 사용합니다.
+ * - 봇 차단이 감지되면 해당 세션의 쿠키를 폐기하여 다음 요청이 새로 시작하도록 합니다.
+ * - curl은 요청이 끝날 때 쿠키 파일 전체를 다시 쓰므로 `withSession`으로 세션별 요청을 하나씩 실행합니다.
+ */
+export class CookieSessionManager {
+  private readonly logger = new Logger(CookieSessionManager.name);
+  private readonly sessions = new Map<string, SessionState>();
+  private readonly locks = new Map<string, Promise<void>>();
+  private readonly dir: string;
+  private readonly ttlMs: number;
+
+  constructor(options: CookieSessionManagerOptions = {}) {
+    this.dir = options.dir ?? '.cache/sessions';
+    this.ttlMs = options.ttlMs ?? 30 * 60 * 1000;
+  }
+
+  /**
+   * 핑거프린트/프록시 조합의 쿠키 세션을 반환합니다. 만료된 세션은 비우고 새로 시작합니다.
+   *
+   * @param browser - 브라우저 핑거프린트
+   * @param proxy - 프록시 URL (직접 연결이면 생략)
+   */
+  async acquire(browser: string, proxy?: string): Promise<CookieSession> {
+    const now = Date.now();
+    const id = this.sessionId(browser, proxy);
+
+    let state = this.sessions.get(id);
+    const lastUsedAt = state?.lastUsedAt ?? (await this.lastModified(id));
+
+    if (lastUsedAt !== null && lastUsedAt + this.ttlMs <= now) {
+      await this.removeJar(id);
+      state = undefined;
+    }
+
+    if (!state) {
+      state = {
+        id,
+        browser,
+        proxy: proxy ? redactProxyUrl(proxy) : null,
+        cookieJar: this.jarPath(id),
+        requests: 0,
+        createdAt: now,
+        lastUsedAt: now,
+      };
+      this.sessions.set(id, state);
+    }
+
+    state.requests++;
+    state.lastUsedAt = now;
+
+    // curl silently skips writing the jar when its directory is missing
+    await fs.mkdir(this.dir, { recursive: true });
+
+    return { id, cookieJar: state.cookieJar };
+  }
+
+  /**
+   * 핑거프린트/프록시 조합의 쿠키 세션으로 작업을 실행합니다.
+   * 같은 세션의 작업은 앞선 작업이 끝난 뒤에 시작하므로 쿠키 파일을 동시에 덮어쓰지 않습니다.
+   *
+   * @param browser - 브라우저 핑거프린트
+   * @param proxy - 프록시 URL (직접 연결이면 undefined)
+   * @param task - 쿠키 세션을 사용하는 작업
+   * @returns 작업 결과
+   */
+  async withSession<T>(
+    browser: string,
+    proxy: string | undefined,
+    task: (session: CookieSession) => Promise<T>,
+  ): Promise<T> {
+    const id = this.sessionId(browser, proxy);
+    const previous = this.locks.get(id) ?? Promise.resolve();
+    let release!: () => void;
+    const current = previous.then(
+      () =>
+        new Promise<void>((resolve) => {
+          release = resolve;
+        }),
+    );
+    this.locks.set(id, current);
+
+    await previous;
+    try {
+      return await task(await this.acquire(browser, proxy));
+    } finally {
+      release();
+      if (this.locks.get(id) === current) {
+        this.locks.delete(id);
+      }
+    }
+  }
+
+  /**
+   * 세션의 쿠키를 폐기합니다.
+   *
+   * @param reason - 폐기 사유 (로그용)
+   * @returns 세션이 존재했으면 true
+   */
+  async expire(id: string, reason: string): Promise<boolean> {
+    if (!SESSION_ID_PATTERN.test(id)) {
+      return false;
+    }
+
+    const state = this.sessions.get(id);
+    this.sessions.delete(id);
+    const removed = await this.removeJar(id);
+
+    if (state || removed) {
+      this.logger.warn(`Expired cookie session ${id}: ${reason}`);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * 모든 세션의 쿠키를 폐기합니다.
+   *
+   * @returns 폐기한 세션 수
+   */
+  async clear(): Promise<number> {
+    // Jars left by a previous process would otherwise be resumed by acquire()
+    const ids = new Set([...this.sessions.keys(), ...(await this.storedIds())]);
+    await Promise.all([...ids].map((id) => this.removeJar(id)));
+    this.sessions.clear();
+
+    if (ids.size > 0) {
+      this.logger.log(`Cleared ${ids.size} cookie sessions`);
+    }
+    return ids.size;
+  }
+
+  /**
+   * 만료되지 않은 세션 목록을 쿠키 수와 함께 반환합니다.
+   */
+  async list(): Promise<CookieSessionInfo[]> {
+    const now = Date.now();
+    const active = [...this.sessions.values()].filter(
+      (state) => state.lastUsedAt + this.ttlMs > now,
+    );
+
+    return Promise.all(
+      active.map(async (state) => ({
+        id: state.id,
+        browser: state.browser,
+        proxy: state.proxy,
+        cookies: (await readCookieJar(state.cookieJar)).length,
+        requests: state.requests,
+        createdAt: new Date(state.createdAt).toISOString(),
+        lastUsedAt: new Date(state.lastUsedAt).toISOString(),
+        expiresAt: new Date(state.lastUsedAt + this.ttlMs).toISOString(),
+      })),
+    );
+  }
+
+  private sessionId(browser: string, proxy?: string): string {
+    return createHash('sha256')
+      .update(`${browser}|${proxy ?? 'direct'}`)
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  /**
+   * 디렉터리에 남아 있는 쿠키 파일의 세션 ID 목록
+   */
+  private async storedIds(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.dir);
+      return files
+        .filter((file) => JAR_FILE_PATTERN.test(file))
+        .map((file) => path.basename(file, '.txt'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private jarPath(id: string): string {
+    return path.join(this.dir, `${id}.txt`);
+  }
+
+  /**
+   * 이전 프로세스가 남긴 쿠키 파일의 수정 시각을 반환합니다.
+   */
+  private async lastModified(id: string): Promise<number | null> {
+    try {
+      const stats = await fs.stat(this.jarPath(id));
+      return stats.mtimeMs;
+    } catch {
+      return null;
+    }
+  }
+
+  private async removeJar(id: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.jarPath(id));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { HttpWebhookAdapter } from './http-webhook.adapter';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { NetworkError, TimeoutError } from '../../domain/errors/crawler.errors';
+
+describe('HttpWebhookAdapter', () => {
+  let adapter: HttpWebhookAdapter;
+  let fetchSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    adapter = new HttpWebhookAdapter();
+    fetchSpy = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('should post the JSON body with the given headers', async () => {
+    fetchSpy.mockResolvedValue(new Response(null, { status: 204 }));
+
+    const status = await adapter.post(
+      'https://hooks.example.com/wine',
+      '{"ok":true}',
+      { 'X-Webhook-Signature': 'sha256=abc' },
+      1000,
+    );
+
+    expect(status).toBe(204);
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe('https://hooks.example.com/wine');
+    expect(init).toMatchObject({
+      method: 'POST',
+      body: '{"ok":true}',
+      redirect: 'manual',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Signature': 'sha256=abc',
+      },
+    });
+  });
+
+  it('should return error statuses instead of throwing', async () => {
+    fetchSpy.mockResolvedValue(new Response('oops', { status: 500 }));
+
+    await expect(
+      adapter.post('https://hooks.example.com', '{}', {}, 1000),
+    ).resolves.toBe(500);
+  });
+
+  it('should throw TimeoutError when the callback does not answer in time', async () => {
+    fetchSpy.mockRejectedValue(
+      new DOMException('The operation was aborted', 'TimeoutError'),
+    );
+
+    await expect(
+      adapter.post('https://hooks.example.com', '{}', {}, 1000),
+    ).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it('should throw NetworkError when the connection fails', async () => {
+    fetchSpy.mockRejectedValue(
+      new TypeError('fetch failed', {
+        cause: new Error('connect ECONNREFUSED'),
+      }),
+    );
+
+    await expect(
+      adapter.post('https://hooks.example.com', '{}', {}, 1000),
+    ).rejects.toThrow(
+      new NetworkError(
+        'Failed to post webhook to https://hooks.example.com: connect ECONNREFUSED',
+        'https://hooks.example.com',
+      ),
+    );
+  });
+
+  it('should resolve every address of a host', async () => {
+    await expect(adapter.resolve('127.0.0.1')).resolves.toEqual(['127.0.0.1']);
+  });
+
+  it('should throw NetworkError when the host cannot be resolved', async () => {
+    await expect(adapter.resolve('nowhere.invalid')).rejects.toBeInstanceOf(
+      NetworkError,
+    );
+  });
+
+  describe('with an address filter', () => {
+    let server: http.Server;
+    let port: number;
+    let received: number;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        received++;
+        res.writeHead(204).end();
+      });
+      port = await new Promise<number>((resolve) =>
+        server.listen(0, '127.0.0.1', () =>
+          resolve((server.address() as AddressInfo).port),
+        ),
+      );
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      received = 0;
+    });
+
+    it('should connect when the resolved addresses pass the filter', async () => {
+      await expect(
+        adapter.post(
+          `http://localhost:${port}/hook`,
+          '{}',
+          {},
+          1000,
+          () => true,
+        ),
+      ).resolves.toBe(204);
+      expect(received).toBe(1);
+    });
+
+    it('should not connect when the host resolves to a refused address at connect time', async () => {
+      await expect(
+        adapter.post(
+          `http://localhost:${port}/hook`,
+          '{}',
+          {},
+          1000,
+          (address) => address !== '127.0.0.1' && address !== '::1',
+        ),
+      ).rejects.toThrow('disallowed address');
+      expect(received).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { lookup as dnsLookup, promises as dns } from 'dns';
+import type { LookupFunction } from 'net';
+import { Agent } from 'undici';
+import {
+  WebhookAddressFilter,
+  WebhookPort,
+} from '../../domain/ports/webhook.port';
+import { NetworkError, TimeoutError } from '../../domain/errors/crawler.errors';
+
+/**
+ * HttpWebhookAdapter
+ *
+ * Node.js 내장 fetch로 웹훅을 전송하는 어댑터입니다.
+ * 콜백은 크롤링 대상이 아니므로 핑거프린트, 프록시, robots.txt를 적용하지 않습니다.
+ * 주소 필터가 주어지면 연결 직전의 DNS 조회 결과를 검사하므로, 검증 뒤에 DNS 응답을 바꾸는
+ * 호스트(DNS rebinding)도 내부 주소로 연결되지 않습니다.
+ */
+@Injectable()
+export class HttpWebhookAdapter implements WebhookPort {
+  private readonly logger = new Logger(HttpWebhookAdapter.name);
+
+  async post(
+    url: string,
+    body: string,
+    headers: Record<string, string>,
+    timeoutMs: number,
+    allowAddress?: WebhookAddressFilter,
+  ): Promise<number> {
+    this.logger.debug(`Posting webhook to ${url} (${body.length} bytes)`);
+
+    const dispatcher = allowAddress
+      ? new Agent({ connect: { lookup: guardedLookup(allowAddress) } })
+      : undefined;
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'winescope-webhook',
+          ...headers,
+        },
+        body,
+        redirect: 'manual', // a redirected callback is treated as a failure
+        signal: AbortSignal.timeout(timeoutMs),
+        dispatcher, // undici extension, not part of the DOM RequestInit typings
+      } as RequestInit);
+      await response.body?.cancel();
+
+      return response.status;
+    } catch (error) {
+      // AbortSignal.timeout() rejects with a DOMException named TimeoutError
+      const name = (error as { name?: string }).name;
+      if (name === 'TimeoutError' || name === 'AbortError') {
+        throw new TimeoutError(
+          `Webhook to ${url} timed out after ${timeoutMs}ms`,
+          url,
+          timeoutMs,
+        );
+      }
+
+      // undici reports the underlying socket error as `cause`
+      const cause = (error as { cause?: unknown }).cause;
+      const errorMessage =
+        cause instanceof Error
+          ? cause.message
+          : error instanceof Error
+            ? error.message
+            : 'Unknown error';
+      throw new NetworkError(
+        `Failed to post webhook to ${url}: ${errorMessage}`,
+        url,
+      );
+    } finally {
+      await dispatcher?.close();
+    }
+  }
+
+  async resolve(hostname: string): Promise<string[]> {
+    try {
+      const addresses = await dns.lookup(hostname, {
+        all: true,
+        verbatim: true,
+      });
+      return addresses.map(({ address }) => address);
+    } catch (error) {
+      throw new NetworkError(
+        `Failed to resolve webhook host ${hostname}: ${(error as Error).message}`,
+        hostname,
+      );
+    }
+  }
+}
+
+/**
+ * 조회한 주소 중 하나라도 필터를 통과하지 못하면 연결하지 않는 DNS 조회 함수
+ */
+function guardedLookup(allowAddress: WebhookAddressFilter): LookupFunction {
+  return (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, []);
+        return;
+      }
+
+      const refused = addresses.find(({ address }) => !allowAddress(address));
+      if (refused || addresses.length === 0) {
+        callback(
+          new Error(
+            `Webhook host ${hostname} resolved to a disallowed address ${refused?.address ?? '(none)'}`,
+          ),
+          [],
+        );
+        return;
+      }
+
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
@@ -0,0 +1,106 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+} from '@nestjs/common';
+import {
+  FingerprintHealth,
+  FingerprintRotationService,
+  RotationStrategy,
+} from '../../infrastructure/fingerprint/fingerprint-rotation.service';
+import { ProxyHealth, ProxyPool } from '../../infrastructure/proxy/proxy-pool';
+import {
+  CookieSessionInfo,
+  CookieSessionManager,
+} from '../../infrastructure/session/cookie-session-manager';
+
+/**
+ * AdminController
+ *
+ * 크롤러 운영 상태를 조회하는 관리용 엔드포인트를 제공합니다.
+ */
+@Controller('admin')
+export class AdminController {
+  constructor(
+    private readonly fingerprints: FingerprintRotationService,
+    private readonly proxies: ProxyPool,
+    private readonly sessions: CookieSessionManager,
+  ) {}
+
+  /**
+   * GET /admin/fingerprints
+   *
+   * 브라우저 핑거프린트별 성공/차단 횟수와 강등 상태를 반환합니다.
+   *
+   * @returns 로테이션 전략과 핑거프린트 상태 목록
+   */
+  @Get('fingerprints')
+  @HttpCode(HttpStatus.OK)
+  getFingerprints(): {
+    strategy: RotationStrategy;
+    fingerprints: FingerprintHealth[];
+  } {
+    return this.fingerprints.getHealth();
+  }
+
+  /**
+   * GET /admin/proxies
+   *
+   * 프록시별 점수, 성공/실패 횟수, 퇴출 상태와 고정 세션 수를 반환합니다.
+   * 프록시 인증 정보는 노출하지 않습니다.
+   *
+   * @returns 프록시 상태 목록
+   */
+  @Get('proxies')
+  @HttpCode(HttpStatus.OK)
+  getProxies(): { proxies: ProxyHealth[] } {
+    return { proxies: this.proxies.getHealth() };
+  }
+
+  /**
+   * GET /admin/sessions
+   *
+   * 핑거프린트/프록시 조합별 쿠키 세션과 저장된 쿠키 수를 반환합니다.
+   * 쿠키 값은 노출하지 않습니다.
+   *
+   * @returns 쿠키 세션 목록
+   */
+  @Get('sessions')
+  @HttpCode(HttpStatus.OK)
+  async getSessions(): Promise<{ sessions: CookieSessionInfo[] }> {
+    return { sessions: await this.sessions.list() };
+  }
+
+  /**
+   * DELETE /admin/sessions
+   *
+   * 모든 쿠키 세션을 폐기합니다. 다음 요청부터 빈 쿠키로 시작합니다.
+   *
+   * @returns 폐기한 세션 수
+   */
+  @Delete('sessions')
+  @HttpCode(HttpStatus.OK)
+  async clearSessions(): Promise<{ cleared: number }> {
+    return { cleared: await this.sessions.clear() };
+  }
+
+  /**
+   * DELETE /admin/sessions/:id
+   *
+   * 쿠키 세션 하나를 폐기합니다.
+   *
+   * @throws NotFoundException 세션이 없는 경우
+   */
+  @Delete('sessions/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async expireSession(@Param('id') id: string): Promise<void> {
+    const expired = await this.sessions.expire(id, 'cleared by admin');
+    if (!expired) {
+      throw new NotFoundException(`Cookie session ${id} not found`);
+    }
+  }
+}
@@ -1,14 +1,56 @@
 import {
   Controller,
+  Get,
   Post,
   Body,
+  Headers,
   HttpCode,
   HttpStatus,
   Logger,
+  NotFoundException,
+  Param,
+  Query,
+  Sse,
+  MessageEvent,
 } from '@nestjs/common';
+import { Observable } from 'rxjs';
 import { SearchWineUseCase } from '../../application/use-cases/search-wine.use-case';
 import { WineSearchRequestDto } from '../../application/dto/wine-search-request.dto';
 import { WineSearchResponseDto } from '../../application/dto/wine-search-response.dto';
+import { ListWineCandidatesUseCase } from '../../application/use-cases/list-wine-candidates.use-case';
+import { WineCandidatesRequestDto } from '../../application/dto/wine-candidates-request.dto';
+import { WineCandidatesResponseDto } from '../../application/dto/wine-candidates-response.dto';
+import { GetWineVintagesUseCase } from '../../application/use-cases/get-wine-vintages.use-case';
+import { WineVintagesRequestDto } from '../../application/dto/wine-vintages-request.dto';
+import { WineVintagesResponseDto } from '../../application/dto/wine-vintages-response.dto';
+import {
+  SearchWineBatchOutcome,
+  SearchWineBatchUseCase,
+} from '../../application/use-cases/search-wine-batch.use-case';
+import { GetWinePriceHistoryUseCase } from '../../application/use-cases/get-wine-price-history.use-case';
+import { WinePriceHistoryQueryDto } from '../../application/dto/wine-price-history-query.dto';
+import { WinePriceHistoryResponseDto } from '../../application/dto/wine-price-history-response.dto';
+import { WineSearchBatchRequestDto } from '../../application/dto/wine-search-batch-request.dto';
+import {
+  WineSearchBatchItemDto,
+  WineSearchBatchResponseDto,
+} from '../../application/dto/wine-search-batch-response.dto';
+import {
+  SingleFlightMetrics,
+  SingleFlightService,
+} from '../../application/services/single-flight.service';
+import {
+  SearchJobService,
+  WineSearchJob,
+} from '../../application/services/search-job.service';
+import { WineSearchStreamQueryDto } from '../../application/dto/wine-search-stream-query.dto';
+import { WineSearchProgressEvent } from '../../application/dto/wine-search-progress.dto';
+import { WineSearchJobRequestDto } from '../../application/dto/wine-search-job-request.dto';
+import {
+  WineSearchJobDeliveriesDto,
+  WineSearchJobDto,
+} from '../../application/dto/wine-search-job-response.dto';
+import { mapCrawlerError } from '../../application/mappers/crawler-error.mapper';
 
 /**
  * WineController
@@ -19,29 +61,331 @@ import { WineSearchResponseDto } from '../../application/dto/wine-search-respons
 export class WineController {
   private readonly logger = new Logger(WineController.name);
 
-  constructor(private readonly searchWineUseCase: SearchWineUseCase) {}
+  constructor(
+    private readonly searchWineUseCase: SearchWineUseCase,
+    private readonly listWineCandidatesUseCase: ListWineCandidatesUseCase,
+    private readonly getWineVintagesUseCase: GetWineVintagesUseCase,
+    private readonly searchWineBatchUseCase: SearchWineBatchUseCase,
+    private readonly getWinePriceHistoryUseCase: GetWinePriceHistoryUseCase,
+    private readonly singleFlight: SingleFlightService,
+    private readonly searchJobs: SearchJobService,
+  ) {}
 
   /**
    * POST /wines/search
    *
    * 와인 정보를 검색합니다.
+   * `Cache-Control: no-cache` 헤더를 보내면 캐시를 무시하고 새로 크롤링합니다.
    *
    * @param request - 와인 검색 요청
+   * @param cacheControl - Cache-Control 요청 헤더
    * @returns 와인 검색 결과
    */
   @Post('search')
   @HttpCode(HttpStatus.OK)
   async searchWine(
     @Body() request: WineSearchRequestDto,
+    @Headers('cache-control') cacheControl?: string,
   ): Promise<WineSearchResponseDto> {
     this.logger.log(
       `Received wine search request: ${request.winery} ${request.variety} ${request.vintage}`,
     );
 
-    const result = await this.searchWineUseCase.execute(request);
+    const bypassCache = /\bno-cache\b/i.test(cacheControl ?? '');
+    const result = await this.searchWineUseCase.execute(request, {
+      bypassCache,
+    });
 
     this.logger.log(`Wine search completed successfully`);
 
     return result;
   }
+
+  /**
+   * GET /wines/search/stream
+   *
+   * 와인을 검색하면서 진행 상황을 Server-Sent Events로 전송합니다.
+   * 단계별 이벤트(url-constructed, fetch-started, fetched, parsed, matched) 뒤에
+   * 검색 결과를 담은 completed 또는 에러 본문을 담은 failed 이벤트로 끝납니다.
+   *
+   * @param query - 와인 검색 조건 (POST /wines/search 본문과 같은 필드)
+   * @param cacheControl - Cache-Control 요청 헤더
+   * @returns 진행 이벤트 스트림
+   */
+  @Sse('search/stream')
+  streamSearch(
+    @Query() query: WineSearchStreamQueryDto,
+    @Headers('cache-control') cacheControl?: string,
+  ): Observable<MessageEvent> {
+    this.logger.log(
+      `Received wine search stream: ${query.winery} ${query.variety} ${query.vintage}`,
+    );
+
+    const bypassCache = /\bno-cache\b/i.test(cacheControl ?? '');
+
+    return new Observable<MessageEvent>((subscriber) => {
+      const emit = ({ type, ...data }: WineSearchProgressEvent) =>
+        subscriber.next({ type, data });
+
+      this.searchWineUseCase
+        .execute(query, { bypassCache, onProgress: emit })
+        .then((result) => emit({ type: 'completed', result }))
+        .catch((exception: Error) => {
+          const { statusCode, message, error, details } =
+            mapCrawlerError(exception);
+          emit({
+            type: 'failed',
+            error: { statusCode, message, error, ...details },
+          });
+        })
+        .finally(() => subscriber.complete());
+    });
+  }
+
+  /**
+   * POST /wines/search/batch
+   *
+   * 여러 와인을 한 번에 검색합니다.
+   * 실패한 항목은 단건 검색과 같은 상태 코드와 에러 형식으로 항목별로 보고하고,
+   * 나머지 항목의 결과는 그대로 반환합니다.
+   * `Cache-Control: no-cache` 헤더는 모든 항목에 적용됩니다.
+   *
+   * @param request - 배치 검색 요청
+   * @param cacheControl - Cache-Control 요청 헤더
+   * @returns 요청 순서대로 항목별 결과 또는 에러
+   */
+  @Post('search/batch')
+  @HttpCode(HttpStatus.OK)
+  async searchWineBatch(
+    @Body() request: WineSearchBatchRequestDto,
+    @Headers('cache-control') cacheControl?: string,
+  ): Promise<WineSearchBatchResponseDto> {
+    this.logger.log(
+      `Received wine batch search request: ${request.searches.length} item(s)`,
+    );
+
+    const bypassCache = /\bno-cache\b/i.test(cacheControl ?? '');
+    const outcomes = await this.searchWineBatchUseCase.execute(
+      request.searches,
+      { bypassCache },
+    );
+
+    const results = outcomes.map((outcome, index) =>
+      this.mapToBatchItemDto(outcome, index),
+    );
+    const succeeded = results.filter(
+      (item) => item.status === 'fulfilled',
+    ).length;
+
+    return {
+      results,
+      summary: {
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded,
+      },
+    };
+  }
+
+  /**
+   * POST /wines/search/jobs
+   *
+   * 와인 검색을 비동기 작업으로 대기열에 추가하고 곧바로 작업 id를 반환합니다.
+   * 결과는 GET /wines/search/jobs/:id로 조회하거나, `callbackUrl`을 지정하면
+   * 작업이 끝날 때 서명된 웹훅으로 받습니다.
+   *
+   * @param request - 와인 검색 작업 요청
+   * @param cacheControl - Cache-Control 요청 헤더
+   * @returns 대기 상태의 작업
+   */
+  @Post('search/jobs')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async createSearchJob(
+    @Body() request: WineSearchJobRequestDto,
+    @Headers('cache-control') cacheControl?: string,
+  ): Promise<WineSearchJobDto> {
+    const bypassCache = /\bno-cache\b/i.test(cacheControl ?? '');
+    const job = await this.searchJobs.enqueue(request, { bypassCache });
+
+    return this.mapToJobDto(job);
+  }
+
+  /**
+   * GET /wines/search/jobs/:id
+   *
+   * 비동기 검색 작업의 상태와 결과 또는 에러를 반환합니다.
+   *
+   * @param id - 작업 id
+   * @returns 작업 상태
+   * @throws NotFoundException 작업이 없거나 보관 기간이 지난 경우
+   */
+  @Get('search/jobs/:id')
+  @HttpCode(HttpStatus.OK)
+  async getSearchJob(@Param('id') id: string): Promise<WineSearchJobDto> {
+    const job = await this.searchJobs.get(id);
+    if (!job) {
+      throw new NotFoundException(`Search job ${id} not found`);
+    }
+
+    return this.mapToJobDto(job);
+  }
+
+  /**
+   * GET /wines/search/jobs/:id/deliveries
+   *
+   * 검색 작업의 웹훅 전송 기록을 반환합니다.
+   *
+   * @param id - 작업 id
+   * @returns 시도별 응답 상태와 에러 (오래된 순)
+   * @throws NotFoundException 작업이 없거나 보관 기간이 지난 경우
+   */
+  @Get('search/jobs/:id/deliveries')
+  @HttpCode(HttpStatus.OK)
+  async getSearchJobDeliveries(
+    @Param('id') id: string,
+  ): Promise<WineSearchJobDeliveriesDto> {
+    const job = await this.searchJobs.get(id);
+    if (!job) {
+      throw new NotFoundException(`Search job ${id} not found`);
+    }
+
+    return {
+      jobId: job.id,
+      callbackUrl: job.callbackUrl,
+      deliveries: job.deliveries.map((delivery) => ({
+        ...delivery,
+        attemptedAt: delivery.attemptedAt.toISOString(),
+      })),
+    };
+  }
+
+  /**
+   * POST /wines/candidates
+   *
+   * Wine-Searcher 검색 결과에서 요청과 일치하는 와인 후보를 순위순으로 반환합니다.
+   * 전체 검색 전에 정확한 와인을 고르도록 제안하는 데 사용합니다.
+   *
+   * @param request - 와인 후보 조회 요청
+   * @returns 점수순 와인 후보 목록
+   */
+  @Post('candidates')
+  @HttpCode(HttpStatus.OK)
+  async listCandidates(
+    @Body() request: WineCandidatesRequestDto,
+  ): Promise<WineCandidatesResponseDto> {
+    this.logger.log(
+      `Received wine candidates request: ${request.winery} ${request.variety ?? ''}`.trim(),
+    );
+
+    return this.listWineCandidatesUseCase.execute(request);
+  }
+
+  /**
+   * POST /wines/vintages
+   *
+   * 와인의 모든 빈티지에 대한 평균 가격, 평론가 점수, 판매 현황을 반환합니다.
+   * 구매 전에 빈티지를 비교하는 데 사용합니다.
+   *
+   * @param request - 빈티지 조회 요청
+   * @returns 빈티지별 시세와 평점 (최신 빈티지 순)
+   */
+  @Post('vintages')
+  @HttpCode(HttpStatus.OK)
+  async listVintages(
+    @Body() request: WineVintagesRequestDto,
+  ): Promise<WineVintagesResponseDto> {
+    this.logger.log(
+      `Received wine vintages request: ${request.winery} ${request.variety ?? ''}`.trim(),
+    );
+
+    return this.getWineVintagesUseCase.execute(request);
+  }
+
+  /**
+   * GET /wines/search/metrics
+   *
+   * 동시 요청 디듀플리케이션 통계를 반환합니다.
+   *
+   * @returns 실행/합류된 요청 수
+   */
+  @Get('search/metrics')
+  @HttpCode(HttpStatus.OK)
+  getSearchMetrics(): { deduplication: SingleFlightMetrics } {
+    return { deduplication: this.singleFlight.getMetrics() };
+  }
+
+  /**
+   * GET /wines/:id/prices
+   *
+   * 카탈로그에 쌓인 와인 가격을 통화별 시계열로 반환합니다.
+   * 구간별 평균, 최저, 최고 가격과 첫 구간 대비 마지막 구간의 변동률을 포함합니다.
+   *
+   * @param id - 와인 카탈로그 id (검색 응답의 wine.id)
+   * @param query - 조회 기간(from, to)과 집계 단위(interval)
+   * @returns 통화별 가격 시계열
+   * @throws NotFoundException 카탈로그에 없는 와인인 경우
+   */
+  @Get(':id/prices')
+  @HttpCode(HttpStatus.OK)
+  async getPriceHistory(
+    @Param('id') id: string,
+    @Query() query: WinePriceHistoryQueryDto,
+  ): Promise<WinePriceHistoryResponseDto> {
+    const history = await this.getWinePriceHistoryUseCase.execute(id, query);
+    if (!history) {
+      throw new NotFoundException(`Wine ${id} not found in the catalog`);
+    }
+
+    return history;
+  }
+
+  /**
+   * 배치 검색 항목의 처리 결과를 Response DTO로 변환합니다.
+   */
+  private mapToBatchItemDto(
+    outcome: SearchWineBatchOutcome,
+    index: number,
+  ): WineSearchBatchItemDto {
+    if (outcome.status === 'fulfilled') {
+      return {
+        index,
+        status: 'fulfilled',
+        result: outcome.result,
+        error: null,
+      };
+    }
+
+    const { statusCode, message, error, details } = mapCrawlerError(
+      outcome.error,
+    );
+    return {
+      index,
+      status: 'rejected',
+      result: null,
+      error: { statusCode, message, error, ...details },
+    };
+  }
+
+  /**
+   * 검색 작업을 Response DTO로 변환합니다.
+   */
+  private mapToJobDto(job: WineSearchJob): WineSearchJobDto {
+    return {
+      id: job.id,
+      status: job.status,
+      result: job.result,
+      error: job.error
+        ? {
+            statusCode: job.error.statusCode,
+            message: job.error.message,
+            error: job.error.error,
+            ...job.error.details,
+          }
+        : null,
+      callbackUrl: job.callbackUrl,
+      createdAt: job.createdAt.toISOString(),
+      startedAt: job.startedAt?.toISOString() ?? null,
+      finishedAt: job.finishedAt?.toISOString() ?? null,
+    };
+  }
 }
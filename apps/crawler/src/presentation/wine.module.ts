@@ -1,8 +1,50 @@
 import { Module } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
 import { WineController } from './controllers/wine.controller';
+import { AdminController } from './controllers/admin.controller';
 import { SearchWineUseCase } from '../application/use-cases/search-wine.use-case';
-import { CurlCrawlerAdapter } from '../infrastructure/adapters/curl-crawler.adapter';
+import { ListWineCandidatesUseCase } from '../application/use-cases/list-wine-candidates.use-case';
+import { GetWineVintagesUseCase } from '../application/use-cases/get-wine-vintages.use-case';
+import { SearchWineBatchUseCase } from '../application/use-cases/search-wine-batch.use-case';
+import { GetWinePriceHistoryUseCase } from '../application/use-cases/get-wine-price-history.use-case';
+import { SingleFlightService } from '../application/services/single-flight.service';
+import { SearchJobService } from '../application/services/search-job.service';
+import { WebhookDeliveryService } from '../application/services/webhook-delivery.service';
+import type { SearchJobStorePort } from '../domain/ports/search-job-store.port';
+import type { WebhookPort } from '../domain/ports/webhook.port';
+import { WineMatcher } from '../domain/services/wine-matcher';
+import { PriceSeriesAggregator } from '../domain/services/price-series-aggregator';
+import { WineConfidenceScorer } from '../domain/services/wine-confidence-scorer';
+import {
+  CURL_DEFAULT_BROWSERS,
+  CurlCrawlerAdapter,
+} from '../infrastructure/adapters/curl-crawler.adapter';
+import {
+  NATIVE_PROXY_PROTOCOLS,
+  NativeHttpCrawlerAdapter,
+} from '../infrastructure/adapters/native-http-crawler.adapter';
+import { FixtureCrawlerAdapter } from '../infrastructure/adapters/fixture-crawler.adapter';
+import { BlockDetectingCrawlerAdapter } from '../infrastructure/adapters/block-detecting-crawler.adapter';
+import { RotatingCrawlerAdapter } from '../infrastructure/adapters/rotating-crawler.adapter';
+import { ProxyingCrawlerAdapter } from '../infrastructure/adapters/proxying-crawler.adapter';
+import { BlockDetector } from '../infrastructure/detection/block-detector';
+import { FingerprintRotationService } from '../infrastructure/fingerprint/fingerprint-rotation.service';
+import { ProxyPool } from '../infrastructure/proxy/proxy-pool';
+import { SessionCrawlerAdapter } from '../infrastructure/adapters/session-crawler.adapter';
+import { CookieSessionManager } from '../infrastructure/session/cookie-session-manager';
+import { RobotsAwareCrawlerAdapter } from '../infrastructure/adapters/robots-aware-crawler.adapter';
+import { RobotsTxtService } from '../infrastructure/robots/robots-txt.service';
+import { RetryingCrawlerAdapter } from '../infrastructure/adapters/retrying-crawler.adapter';
+import { ThrottledCrawlerAdapter } from '../infrastructure/adapters/throttled-crawler.adapter';
+import { HostScheduler } from '../infrastructure/scheduling/host-scheduler';
 import { WineSearcherParser } from '../infrastructure/parsers/wine-searcher.parser';
+import { InMemoryWineCacheAdapter } from '../infrastructure/cache/in-memory-wine-cache.adapter';
+import { FileWineCacheAdapter } from '../infrastructure/cache/file-wine-cache.adapter';
+import { InMemoryWineRepositoryAdapter } from '../infrastructure/repositories/in-memory-wine-repository.adapter';
+import { FileWineRepositoryAdapter } from '../infrastructure/repositories/file-wine-repository.adapter';
+import { InMemorySearchJobStoreAdapter } from '../infrastructure/jobs/in-memory-search-job-store.adapter';
+import { HttpWebhookAdapter } from '../infrastructure/webhooks/http-webhook.adapter';
+import { crawlerConfig } from '../config/crawler.config';
 
 /**
  * WineModule
@@ -11,21 +53,217 @@ import { WineSearcherParser } from '../infrastructure/parsers/wine-searcher.pars
  * Hexagonal Architecture의 DI 설정을 담당합니다.
  */
 @Module({
-  controllers: [WineController],
+  controllers: [WineController, AdminController],
   providers: [
     // Use Cases
     SearchWineUseCase,
+    ListWineCandidatesUseCase,
+    GetWineVintagesUseCase,
+    GetWinePriceHistoryUseCase,
+    {
+      provide: SearchWineBatchUseCase,
+      useFactory: (
+        searchWine: SearchWineUseCase,
+        config: ConfigType<typeof crawlerConfig>,
+      ) => new SearchWineBatchUseCase(searchWine, config.batch),
+      inject: [SearchWineUseCase, crawlerConfig.KEY],
+    },
+
+    // Application Services
+    SingleFlightService,
+    {
+      provide: SearchJobService,
+      useFactory: (
+        searchWine: SearchWineUseCase,
+        store: SearchJobStorePort,
+        webhooks: WebhookDeliveryService,
+        config: ConfigType<typeof crawlerConfig>,
+      ) => new SearchJobService(searchWine, store, webhooks, config.jobs),
+      inject: [
+        SearchWineUseCase,
+        'SearchJobStorePort',
+        WebhookDeliveryService,
+        crawlerConfig.KEY,
+      ],
+    },
+    {
+      provide: WebhookDeliveryService,
+      useFactory: (
+        webhook: WebhookPort,
+        store: SearchJobStorePort,
+        config: ConfigType<typeof crawlerConfig>,
+      ) => new WebhookDeliveryService(webhook, store, config.webhooks),
+      inject: ['WebhookPort', 'SearchJobStorePort', crawlerConfig.KEY],
+    },
+
+    // Domain Services
+    WineMatcher,
+    PriceSeriesAggregator,
+    {
+      provide: WineConfidenceScorer,
+      useFactory: (config: ConfigType<typeof crawlerConfig>) =>
+        new WineConfidenceScorer(config.matching),
+      inject: [crawlerConfig.KEY],
+    },
 
     // Infrastructure Adapters (Port 구현체)
+    CurlCrawlerAdapter,
+    NativeHttpCrawlerAdapter,
+    BlockDetector,
+    {
+      provide: HostScheduler,
+      useFactory: (config: ConfigType<typeof crawlerConfig>) =>
+        new HostScheduler(config.rateLimit),
+      inject: [crawlerConfig.KEY],
+    },
     {
+      provide: FingerprintRotationService,
+      useFactory: (config: ConfigType<typeof crawlerConfig>) =>
+        new FingerprintRotationService({
+          ...config.fingerprints,
+          // Only rotate through the curl-impersonate builds that are installed
+          browsers:
+            config.adapter.driver === 'curl' &&
+            config.fingerprints.browsers.length === 0
+              ? CURL_DEFAULT_BROWSERS
+              : config.fingerprints.browsers,
+        }),
+      inject: [crawlerConfig.KEY],
+    },
+    {
+      provide: ProxyPool,
+      useFactory: (config: ConfigType<typeof crawlerConfig>) =>
+        new ProxyPool({
+          ...config.proxy,
+          // Drop SOCKS proxies the native adapter cannot route through
+          protocols:
+            config.adapter.driver === 'native'
+              ? NATIVE_PROXY_PROTOCOLS
+              : undefined,
+        }),
+      inject: [crawlerConfig.KEY],
+    },
+    {
+      provide: CookieSessionManager,
+      useFactory: (config: ConfigType<typeof crawlerConfig>) =>
+        new CookieSessionManager(config.sessions),
+      inject: [crawlerConfig.KEY],
+    },
+    {
+      // [Robots] → Retry → Rotate → Proxy → [Session] → Throttle → BlockDetect → [fixtures] → curl|native:
+      // robots.txt is checked once per request and fetched through the same chain;
+      // every retry attempt picks a fingerprint and proxy, then the cookie jar of that pair,
+      // and goes through the scheduler
       provide: 'CrawlerPort',
-      useClass: CurlCrawlerAdapter,
+      useFactory: async (
+        curl: CurlCrawlerAdapter,
+        native: NativeHttpCrawlerAdapter,
+        detector: BlockDetector,
+        rotation: FingerprintRotationService,
+        proxies: ProxyPool,
+        sessions: CookieSessionManager,
+        scheduler: HostScheduler,
+        config: ConfigType<typeof crawlerConfig>,
+      ) => {
+        // Fail at startup rather than on every request when a binary is missing
+        if (
+          config.adapter.driver === 'curl' &&
+          config.fixtures.mode !== 'replay'
+        ) {
+          await curl.assertInstalled(rotation.getBrowsers());
+        }
+
+        const http = config.adapter.driver === 'native' ? native : curl;
+        const base =
+          config.fixtures.mode === 'off'
+            ? http
+            : new FixtureCrawlerAdapter({
+                mode: config.fixtures.mode,
+                dir: config.fixtures.dir,
+                inner: http,
+              });
+        const throttled = new ThrottledCrawlerAdapter(
+          new BlockDetectingCrawlerAdapter(base, detector),
+          scheduler,
+        );
+
+        const retrying = new RetryingCrawlerAdapter(
+          new RotatingCrawlerAdapter(
+            new ProxyingCrawlerAdapter(
+              config.sessions.enabled
+                ? new SessionCrawlerAdapter(throttled, sessions)
+                : throttled,
+              proxies,
+            ),
+            rotation,
+          ),
+          config.retry,
+        );
+
+        return config.robots.enabled
+          ? new RobotsAwareCrawlerAdapter(
+              retrying,
+              new RobotsTxtService({
+                ...config.robots,
+                crawler: retrying,
+                scheduler,
+              }),
+            )
+          : retrying;
+      },
+      inject: [
+        CurlCrawlerAdapter,
+        NativeHttpCrawlerAdapter,
+        BlockDetector,
+        FingerprintRotationService,
+        ProxyPool,
+        CookieSessionManager,
+        HostScheduler,
+        crawlerConfig.KEY,
+      ],
     },
     {
       provide: 'ParserPort',
       useClass: WineSearcherParser,
     },
+    {
+      provide: 'WineCachePort',
+      useFactory: (config: ConfigType<typeof crawlerConfig>) =>
+        config.cache.driver === 'file'
+          ? new FileWineCacheAdapter({
+              filePath: config.cache.filePath,
+              ttlMs: config.cache.ttlMs,
+            })
+          : new InMemoryWineCacheAdapter({
+              ttlMs: config.cache.ttlMs,
+              maxEntries: config.cache.maxEntries,
+            }),
+      inject: [crawlerConfig.KEY],
+    },
+    {
+      provide: 'WineRepositoryPort',
+      useFactory: (config: ConfigType<typeof crawlerConfig>) =>
+        config.repository.driver === 'file'
+          ? new FileWineRepositoryAdapter({
+              filePath: config.repository.filePath,
+            })
+          : new InMemoryWineRepositoryAdapter(),
+      inject: [crawlerConfig.KEY],
+    },
+    {
+      provide: 'SearchJobStorePort',
+      useFactory: (config: ConfigType<typeof crawlerConfig>) =>
+        new InMemorySearchJobStoreAdapter({
+          ttlMs: config.jobs.ttlMs,
+          maxJobs: config.jobs.maxJobs,
+        }),
+      inject: [crawlerConfig.KEY],
+    },
+    {
+      provide: 'WebhookPort',
+      useClass: HttpWebhookAdapter,
+    },
   ],
-  exports: [SearchWineUseCase],
+  exports: [SearchWineUseCase, 'CrawlerPort'],
 })
 export class WineModule {}
@@ -1,20 +1,44 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { INestApplication } from '@nestjs/common';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
 import request from 'supertest';
 import { CrawlerModule } from './../src/crawler.module';
+import { CrawlerExceptionFilter } from './../src/presentation/filters/crawler-exception.filter';
+import { CrawlerPort } from './../src/domain/ports/crawler.port';
+import { NetworkError } from './../src/domain/errors/crawler.errors';
 
 describe('CrawlerController (e2e)', () => {
   let app: INestApplication;
+  let mockCrawler: jest.Mocked<CrawlerPort>;
 
   beforeEach(async () => {
+    mockCrawler = {
+      fetch: jest.fn(),
+      fetchPage: jest.fn(),
+    };
+
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [CrawlerModule],
-    }).compile();
+    })
+      .overrideProvider('CrawlerPort')
+      .useValue(mockCrawler)
+      .compile();
 
     app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    app.useGlobalFilters(new CrawlerExceptionFilter());
     await app.init();
   });
 
+  afterEach(async () => {
+    await app.close();
+  });
+
   it('/crawl/health (GET)', async () => {
     const server = app.getHttpServer() as never;
     const response = await request(server).get('/crawl/health');
@@ -24,4 +48,129 @@ describe('CrawlerController (e2e)', () => {
     expect(response.body).toHaveProperty('service', 'crawler');
     expect(response.body).toHaveProperty('timestamp');
   });
+
+  it('/admin/fingerprints (GET)', async () => {
+    const server = app.getHttpServer() as never;
+    const response = await request(server).get('/admin/fingerprints');
+
+    expect(response.status).toBe(200);
+    expect(response.body.strategy).toBe('round-robin');
+    expect(response.body.fingerprints).toContainEqual(
+      expect.objectContaining({
+        browser: 'chrome116',
+        blocks: 0,
+        available: true,
+      }),
+    );
+  });
+
+  it('/admin/proxies (GET)', async () => {
+    const server = app.getHttpServer() as never;
+    const response = await request(server).get('/admin/proxies');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ proxies: [] });
+  });
+
+  it('/admin/sessions (GET)', async () => {
+    const server = app.getHttpServer() as never;
+    const response = await request(server).get('/admin/sessions');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ sessions: [] });
+  });
+
+  it('/admin/sessions (DELETE)', async () => {
+    const server = app.getHttpServer() as never;
+    const response = await request(server).delete('/admin/sessions');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ cleared: 0 });
+  });
+
+  it('/admin/sessions/:id (DELETE) returns 404 for unknown sessions', async () => {
+    const server = app.getHttpServer() as never;
+    const response = await request(server).delete(
+      '/admin/sessions/0123456789abcdef',
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it('/crawl (POST) reports the upstream status, headers and redirects', async () => {
+    mockCrawler.fetchPage.mockResolvedValue({
+      body: '<html>gone</html>',
+      statusCode: 404,
+      finalUrl: 'https://example.com/new',
+      headers: { 'content-type': 'text/html' },
+      redirects: [{ statusCode: 301, location: 'https://example.com/new' }],
+      bytes: 17,
+      durationMs: 12,
+    });
+
+    const server = app.getHttpServer() as never;
+    const response = await request(server)
+      .post('/crawl')
+      .send({ url: 'https://example.com/old', browser: 'firefox109' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      html: '<html>gone</html>',
+      statusCode: 404,
+      headers: { 'content-type': 'text/html' },
+      finalUrl: 'https://example.com/new',
+      redirects: [{ statusCode: 301, location: 'https://example.com/new' }],
+      bytes: 17,
+    });
+    expect(mockCrawler.fetchPage).toHaveBeenCalledWith(
+      'https://example.com/old',
+      expect.objectContaining({ browser: 'firefox109', acceptAnyStatus: true }),
+    );
+  });
+
+  it('/crawl (POST) maps transport failures to 502', async () => {
+    mockCrawler.fetchPage.mockRejectedValue(
+      new NetworkError('Connection refused', 'https://example.com'),
+    );
+
+    const server = app.getHttpServer() as never;
+    const response = await request(server)
+      .post('/crawl')
+      .send({ url: 'https://example.com' });
+
+    expect(response.status).toBe(502);
+    expect(response.body.error).toBe('Bad Gateway');
+  });
+
+  it('/crawl (POST) forwards the crawl session id', async () => {
+    mockCrawler.fetchPage.mockResolvedValue({
+      body: '<html></html>',
+      statusCode: 200,
+      finalUrl: 'https://example.com',
+      headers: {},
+      redirects: [],
+      bytes: 13,
+      durationMs: 5,
+    });
+
+    const server = app.getHttpServer() as never;
+    await request(server)
+      .post('/crawl')
+      .send({ url: 'https://example.com', sessionId: 'batch-42' });
+
+    expect(mockCrawler.fetchPage).toHaveBeenCalledWith(
+      'https://example.com',
+      expect.objectContaining({ sessionId: 'batch-42' }),
+    );
+  });
+
+  it('/crawl (POST) rejects invalid URLs', async () => {
+    const server = app.getHttpServer() as never;
+    const response = await request(server)
+      .post('/crawl')
+      .send({ url: 'not a url' });
+
+    expect(response.status).toBe(400);
+    expect(mockCrawler.fetchPage).not.toHaveBeenCalled();
+  });
 });
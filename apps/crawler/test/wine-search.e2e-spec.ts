@@ -1,10 +1,14 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication, ValidationPipe } from '@nestjs/common';
 import request from 'supertest';
+import { createHmac } from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
 import { CrawlerModule } from '../src/crawler.module';
 import { CrawlerExceptionFilter } from '../src/presentation/filters/crawler-exception.filter';
 import { CrawlerPort } from '../src/domain/ports/crawler.port';
 import { ParserPort, WineData } from '../src/domain/ports/parser.port';
+import { WineRepositoryPort } from '../src/domain/ports/wine-repository.port';
 import { Wine } from '../src/domain/entities/wine.entity';
 import { Rating } from '../src/domain/entities/rating.entity';
 import { Price } from '../src/domain/entities/price.entity';
@@ -12,9 +16,14 @@ import { WineName } from '../src/domain/value-objects/wine-name.vo';
 import { Vintage } from '../src/domain/value-objects/vintage.vo';
 import { Score } from '../src/domain/value-objects/score.vo';
 import {
+  BlockedError,
   NetworkError,
+  NotFoundError,
   TimeoutError,
   ParsingError,
+  RateLimitedError,
+  CrawlerSaturatedError,
+  RobotsDisallowedError,
 } from '../src/domain/errors/crawler.errors';
 
 describe('Wine Search E2E Tests', () => {
@@ -35,6 +44,7 @@ describe('Wine Search E2E Tests', () => {
       new Rating('Wine Spectator', Score.create(95), null, 800),
     ],
     price: new Price(300, 'USD', '$280-$320', new Date('2025-01-15')),
+    availableVintages: [],
     sourceUrl: 'https://www.wine-searcher.com/find/opus+one+2018',
     crawledAt: new Date('2025-11-09T12:00:00Z'),
   };
@@ -43,10 +53,14 @@ describe('Wine Search E2E Tests', () => {
     // Create mock implementations
     mockCrawler = {
       fetch: jest.fn(),
+      fetchPage: jest.fn(),
     };
 
     mockParser = {
       parse: jest.fn(),
+      // Search URL lands on a wine page unless a test provides search results
+      parseSearchResults: jest.fn().mockResolvedValue(null),
+      parseVintageChart: jest.fn().mockResolvedValue(null),
     };
 
     const moduleFixture: TestingModule = await Test.createTestingModule({
@@ -96,12 +110,15 @@ describe('Wine Search E2E Tests', () => {
       expect(response.status).toBe(200);
       expect(response.body).toMatchObject({
         wine: {
+          id: 'opus-one-2018',
           name: 'Opus One 2018',
           region: 'Napa Valley',
           winery: 'Opus One',
           variety: 'Cabernet Sauvignon',
           vintage: 2018,
         },
+        vintage: { requested: 2018, actual: 2018, status: 'exact' },
+        match: { confidence: 1, reasons: [] },
         ratings: [
           {
             source: 'Robert Parker',
@@ -140,6 +157,135 @@ describe('Wine Search E2E Tests', () => {
       expect(mockParser.parse).toHaveBeenCalled();
     });
 
+    it('should record the crawled wine in the catalog', async () => {
+      mockCrawler.fetch.mockResolvedValue('<html>mock html</html>');
+      mockParser.parse.mockResolvedValue(mockWineData);
+
+      const server = app.getHttpServer() as never;
+      await request(server).post('/wines/search').send({
+        winery: 'Opus One',
+        variety: 'Cabernet Sauvignon',
+        vintage: 2018,
+        region: 'Napa Valley',
+      });
+
+      const repository = app.get<WineRepositoryPort>('WineRepositoryPort');
+      const record = await repository.findById('opus-one-2018');
+
+      expect(record).toMatchObject({
+        wine: mockWineData.wine,
+        ratings: mockWineData.ratings,
+        prices: [mockWineData.price],
+        sourceUrl: mockWineData.sourceUrl,
+        lastSeenAt: mockWineData.crawledAt,
+      });
+    });
+
+    it('should resolve search results to the best matching wine page', async () => {
+      mockCrawler.fetch.mockResolvedValue('<html>mock html</html>');
+      mockParser.parseSearchResults.mockResolvedValue([
+        {
+          name: 'Opus One Overture',
+          url: 'https://www.wine-searcher.com/find/opus+one+overture',
+          vintage: null,
+          vintages: [],
+          producer: null,
+          region: 'Napa Valley',
+        },
+        {
+          name: 'Opus One Cabernet Sauvignon 2018',
+          url: 'https://www.wine-searcher.com/find/opus+one+2018/napa',
+          vintage: 2018,
+          vintages: [2018],
+          producer: null,
+          region: 'Napa Valley',
+        },
+      ]);
+      mockParser.parse.mockImplementation(async (_, sourceUrl) => ({
+        ...mockWineData,
+        sourceUrl,
+      }));
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server).post('/wines/search').send({
+        winery: 'Opus One',
+        variety: 'Cabernet Sauvignon',
+        vintage: 2018,
+        region: 'Napa Valley',
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.body.source).toMatchObject({
+        url: 'https://www.wine-searcher.com/find/opus+one+2018/napa',
+        attempts: 2,
+      });
+      expect(mockCrawler.fetch).toHaveBeenCalledTimes(2);
+      expect(mockCrawler.fetch.mock.calls[1][0]).toBe(
+        'https://www.wine-searcher.com/find/opus+one+2018/napa',
+      );
+    });
+
+    it('should return 300 with candidates when the match is ambiguous', async () => {
+      mockCrawler.fetch.mockResolvedValue('<html>results</html>');
+      mockParser.parseSearchResults.mockResolvedValue([
+        {
+          name: 'Ridge East Bench Zinfandel 2019',
+          url: 'https://www.wine-searcher.com/find/ridge+east+bench+zinfandel',
+          vintage: 2019,
+          vintages: [2019],
+          producer: null,
+          region: 'Dry Creek Valley, California',
+        },
+        {
+          name: 'Ridge Pagani Ranch Zinfandel 2019',
+          url: 'https://www.wine-searcher.com/find/ridge+pagani+ranch+zinfandel',
+          vintage: 2019,
+          vintages: [2019],
+          producer: null,
+          region: 'Sonoma Valley, California',
+        },
+      ]);
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server).post('/wines/search').send({
+        winery: 'Ridge',
+        variety: 'Zinfandel',
+        vintage: 2019,
+        region: 'California',
+      });
+
+      expect(response.status).toBe(300);
+      expect(response.body.error).toBe('Multiple Choices');
+      expect(response.body.candidates).toHaveLength(2);
+      expect(response.body.candidates[0]).toEqual({
+        name: expect.any(String),
+        url: expect.stringContaining('/find/ridge+'),
+        vintage: 2019,
+        vintages: [2019],
+        producer: null,
+        region: expect.any(String),
+        score: expect.any(Number),
+      });
+      expect(mockCrawler.fetch).toHaveBeenCalledTimes(1);
+      expect(mockParser.parse).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the search has no results', async () => {
+      mockCrawler.fetch.mockResolvedValue('<html>no results</html>');
+      mockParser.parseSearchResults.mockResolvedValue([]);
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server).post('/wines/search').send({
+        winery: 'Nobody',
+        variety: 'Merlot',
+        vintage: 2020,
+        region: 'Nowhere',
+      });
+
+      expect(response.status).toBe(404);
+      expect(mockParser.parse).not.toHaveBeenCalled();
+    });
+
     it('should return 400 for missing required fields', async () => {
       const server = app.getHttpServer() as never;
       const response = await request(server).post('/wines/search').send({
@@ -228,9 +374,107 @@ describe('Wine Search E2E Tests', () => {
       expect(response.body.error).toBe('Bad Gateway');
     });
 
+    it('should return 503 with Retry-After when rate limited', async () => {
+      mockCrawler.fetch.mockRejectedValue(
+        new RateLimitedError('Too many requests', 'https://example.com', 30000),
+      );
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server).post('/wines/search').send({
+        winery: 'Opus One',
+        variety: 'Cabernet Sauvignon',
+        vintage: 2018,
+        region: 'Napa Valley',
+      });
+
+      expect(response.status).toBe(503);
+      expect(response.body.error).toBe('Service Unavailable');
+      expect(response.headers['retry-after']).toBe('30');
+    });
+
+    it('should return 424 when blocked by bot protection', async () => {
+      mockCrawler.fetch.mockRejectedValue(
+        new BlockedError(
+          'Blocked by perimeterx bot protection',
+          'https://www.wine-searcher.com/find/opus+one',
+          'perimeterx',
+          200,
+        ),
+      );
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server).post('/wines/search').send({
+        winery: 'Opus One',
+        variety: 'Cabernet Sauvignon',
+        vintage: 2018,
+        region: 'Napa Valley',
+      });
+
+      expect(response.status).toBe(424);
+      expect(response.body.error).toBe('Failed Dependency');
+      expect(mockParser.parse).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 when robots.txt disallows the page', async () => {
+      mockCrawler.fetch.mockRejectedValue(
+        new RobotsDisallowedError(
+          'robots.txt disallows the page',
+          'https://www.wine-searcher.com/find/opus+one',
+          'WineScope',
+        ),
+      );
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server).post('/wines/search').send({
+        winery: 'Opus One',
+        variety: 'Cabernet Sauvignon',
+        vintage: 2018,
+        region: 'Napa Valley',
+      });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('Forbidden');
+    });
+
+    it('should return 429 when crawler queue is saturated', async () => {
+      mockCrawler.fetch.mockRejectedValue(
+        new CrawlerSaturatedError('Queue full', 'www.wine-searcher.com', 50),
+      );
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server).post('/wines/search').send({
+        winery: 'Opus One',
+        variety: 'Cabernet Sauvignon',
+        vintage: 2018,
+        region: 'Napa Valley',
+      });
+
+      expect(response.status).toBe(429);
+      expect(response.body.error).toBe('Too Many Requests');
+    });
+
+    it('should report fetch attempts in response source', async () => {
+      mockCrawler.fetch.mockImplementation(async (url, options) => {
+        options?.onRetry?.(1, new NetworkError('reset', url), 0);
+        return '<html>mock html</html>';
+      });
+      mockParser.parse.mockResolvedValue(mockWineData);
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server).post('/wines/search').send({
+        winery: 'Opus One',
+        variety: 'Cabernet Sauvignon',
+        vintage: 2018,
+        region: 'Napa Valley',
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.body.source.attempts).toBe(2);
+    });
+
     it('should return 404 for wine not found errors', async () => {
       mockCrawler.fetch.mockRejectedValue(
-        new NetworkError('404 not found', 'https://example.com'),
+        new NotFoundError('Page not found (404)', 'https://example.com'),
       );
 
       const server = app.getHttpServer() as never;
@@ -245,6 +489,25 @@ describe('Wine Search E2E Tests', () => {
       expect(response.body.error).toBe('Not Found');
     });
 
+    it('should report the match confidence with mismatch reasons', async () => {
+      mockCrawler.fetch.mockResolvedValue('<html>mock html</html>');
+      mockParser.parse.mockResolvedValue(mockWineData);
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server).post('/wines/search').send({
+        winery: 'Opus One',
+        variety: 'Merlot',
+        vintage: 2018,
+        region: 'Napa Valley',
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.body.match).toEqual({
+        confidence: 0.85,
+        reasons: ['variety: requested "Merlot", found "Cabernet Sauvignon"'],
+      });
+    });
+
     it('should return 500 for parsing errors', async () => {
       mockCrawler.fetch.mockResolvedValue('<html>invalid html</html>');
       mockParser.parse.mockRejectedValue(
@@ -300,6 +563,123 @@ describe('Wine Search E2E Tests', () => {
       expect(response.status).toBe(400); // forbidNonWhitelisted: true
     });
 
+    it('should serve repeated searches from cache', async () => {
+      mockCrawler.fetch.mockResolvedValue('<html>mock html</html>');
+      mockParser.parse.mockResolvedValue(mockWineData);
+
+      const server = app.getHttpServer() as never;
+      const body = {
+        winery: 'Opus One',
+        variety: 'Cabernet Sauvignon',
+        vintage: 2018,
+        region: 'Napa Valley',
+      };
+
+      const first = await request(server).post('/wines/search').send(body);
+      const second = await request(server)
+        .post('/wines/search')
+        .send({ ...body, winery: '  opus   ONE ' });
+
+      expect(first.status).toBe(200);
+      expect(first.body.source.cached).toBe(false);
+      expect(first.body.source.cachedAt).toBeNull();
+      expect(second.status).toBe(200);
+      expect(second.body.source.cached).toBe(true);
+      expect(second.body.source.cachedAt).toEqual(expect.any(String));
+      expect(second.body.wine).toEqual(first.body.wine);
+      expect(mockCrawler.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should bypass cache with Cache-Control: no-cache', async () => {
+      mockCrawler.fetch.mockResolvedValue('<html>mock html</html>');
+      mockParser.parse.mockResolvedValue(mockWineData);
+
+      const server = app.getHttpServer() as never;
+      const body = {
+        winery: 'Opus One',
+        variety: 'Cabernet Sauvignon',
+        vintage: 2018,
+        region: 'Napa Valley',
+      };
+
+      await request(server).post('/wines/search').send(body);
+      const response = await request(server)
+        .post('/wines/search')
+        .set('Cache-Control', 'no-cache')
+        .send(body);
+
+      expect(response.status).toBe(200);
+      expect(response.body.source.cached).toBe(false);
+      expect(mockCrawler.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should coalesce concurrent identical searches into one crawl', async () => {
+      let releaseFetch!: (html: string) => void;
+      mockCrawler.fetch.mockReturnValue(
+        new Promise((resolve) => {
+          releaseFetch = resolve;
+        }),
+      );
+      mockParser.parse.mockResolvedValue(mockWineData);
+
+      const server = app.getHttpServer() as never;
+      const body = {
+        winery: 'Opus One',
+        variety: 'Cabernet Sauvignon',
+        vintage: 2018,
+        region: 'Napa Valley',
+      };
+
+      const pending = Promise.all(
+        [1, 2, 3].map(() =>
+          request(server)
+            .post('/wines/search')
+            .set('Cache-Control', 'no-cache')
+            .send(body),
+        ),
+      );
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      releaseFetch('<html>mock html</html>');
+      const responses = await pending;
+
+      responses.forEach((res) => expect(res.status).toBe(200));
+      expect(mockCrawler.fetch).toHaveBeenCalledTimes(1);
+
+      const metrics = await request(server).get('/wines/search/metrics');
+      expect(metrics.body.deduplication).toEqual({
+        inFlight: 0,
+        executions: 1,
+        coalesced: 2,
+      });
+    });
+
+    it('should propagate crawl errors to all coalesced callers', async () => {
+      mockCrawler.fetch.mockImplementation(
+        () =>
+          new Promise((_, reject) =>
+            setTimeout(
+              () => reject(new NetworkError('Connection failed', 'url')),
+              50,
+            ),
+          ),
+      );
+
+      const server = app.getHttpServer() as never;
+      const body = {
+        winery: 'Opus One',
+        variety: 'Cabernet Sauvignon',
+        vintage: 2018,
+        region: 'Napa Valley',
+      };
+
+      const responses = await Promise.all(
+        [1, 2].map(() => request(server).post('/wines/search').send(body)),
+      );
+
+      responses.forEach((res) => expect(res.status).toBe(502));
+      expect(mockCrawler.fetch).toHaveBeenCalledTimes(1);
+    });
+
     it('should accept numeric vintage', async () => {
       mockCrawler.fetch.mockResolvedValue('<html>mock html</html>');
       mockParser.parse.mockResolvedValue(mockWineData);
@@ -315,4 +695,1417 @@ describe('Wine Search E2E Tests', () => {
       expect(response.status).toBe(200);
     });
   });
+
+  describe('POST /wines/search (vintages)', () => {
+    const body = {
+      winery: 'Opus One',
+      variety: 'Cabernet Sauvignon',
+      region: 'Napa Valley',
+    };
+
+    const vintageUrl = (vintage: number) =>
+      `https://www.wine-searcher.com/find/opus+one/${vintage}`;
+
+    const wineDataFor = (
+      vintage: number | null,
+      linkedVintages: number[] = [],
+    ): WineData => ({
+      ...mockWineData,
+      wine: new Wine(
+        WineName.create('Opus One'),
+        'Napa Valley',
+        'Opus One',
+        'Cabernet Sauvignon',
+        vintage !== null ? Vintage.create(vintage) : null,
+      ),
+      availableVintages: linkedVintages.map((linked) => ({
+        vintage: linked,
+        url: vintageUrl(linked),
+      })),
+      sourceUrl:
+        vintage !== null
+          ? vintageUrl(vintage)
+          : 'https://www.wine-searcher.com/find/opus+one',
+    });
+
+    beforeEach(() => {
+      mockCrawler.fetch.mockResolvedValue('<html>mock html</html>');
+    });
+
+    it('should mark data from a page without a vintage as missing', async () => {
+      mockParser.parse.mockResolvedValue(wineDataFor(null));
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/search')
+        .send({ ...body, vintage: 2018 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.wine.vintage).toBeNull();
+      expect(response.body.vintage).toEqual({
+        requested: 2018,
+        actual: null,
+        status: 'missing',
+      });
+    });
+
+    it('should follow the link to the requested vintage', async () => {
+      mockParser.parse
+        .mockResolvedValueOnce(wineDataFor(2020, [2019, 2018]))
+        .mockResolvedValueOnce(wineDataFor(2018, [2020, 2019]));
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/search')
+        .send({ ...body, vintage: 2018 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.vintage).toEqual({
+        requested: 2018,
+        actual: 2018,
+        status: 'exact',
+      });
+      expect(response.body.source.attempts).toBe(2);
+      expect(mockCrawler.fetch.mock.calls[1][0]).toBe(vintageUrl(2018));
+    });
+
+    it('should return 404 with available vintages when the vintage is missing', async () => {
+      mockParser.parse.mockResolvedValue(wineDataFor(2020, [2019, 2016]));
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/search')
+        .send({ ...body, vintage: 2017 });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toMatchObject({
+        error: 'Not Found',
+        requestedVintage: 2017,
+        actualVintage: 2020,
+        availableVintages: [2020, 2019, 2016],
+      });
+      expect(mockCrawler.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return 404 when the followed vintage link leads to another vintage', async () => {
+      mockParser.parse
+        .mockResolvedValueOnce(wineDataFor(2020, [2019, 2018]))
+        .mockResolvedValueOnce(wineDataFor(2017, [2020, 2019]));
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/search')
+        .send({ ...body, vintage: 2018 });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toMatchObject({
+        error: 'Not Found',
+        requestedVintage: 2018,
+        actualVintage: 2017,
+      });
+      expect(mockCrawler.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fetch the nearest vintage when allowed', async () => {
+      mockParser.parse
+        .mockResolvedValueOnce(wineDataFor(2020, [2019, 2016]))
+        .mockResolvedValueOnce(wineDataFor(2016, [2020, 2019]));
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/search')
+        .send({ ...body, vintage: 2015, allowNearestVintage: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body.vintage).toEqual({
+        requested: 2015,
+        actual: 2016,
+        status: 'nearest',
+      });
+      expect(response.body.match.confidence).toBe(1);
+      expect(mockCrawler.fetch.mock.calls[1][0]).toBe(vintageUrl(2016));
+    });
+
+    it('should keep the current page when it is the nearest vintage', async () => {
+      mockParser.parse.mockResolvedValue(wineDataFor(2020, [2012]));
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/search')
+        .send({ ...body, vintage: 2019, allowNearestVintage: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body.vintage).toEqual({
+        requested: 2019,
+        actual: 2020,
+        status: 'nearest',
+      });
+      expect(mockCrawler.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not serve a cached nearest vintage to strict requests', async () => {
+      mockParser.parse.mockResolvedValue(wineDataFor(2020, [2012]));
+
+      const server = app.getHttpServer() as never;
+      await request(server)
+        .post('/wines/search')
+        .send({ ...body, vintage: 2019, allowNearestVintage: true });
+      const response = await request(server)
+        .post('/wines/search')
+        .send({ ...body, vintage: 2019 });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should look up non-vintage wines', async () => {
+      mockParser.parse.mockResolvedValue({
+        ...wineDataFor(null),
+        wine: new Wine(
+          WineName.create('Opus One'),
+          'Napa Valley',
+          'Opus One',
+          'Cabernet Sauvignon',
+          Vintage.nonVintage(),
+        ),
+      });
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/search')
+        .send({ ...body, vintage: 'NV' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.wine.vintage).toBe('NV');
+      expect(response.body.vintage).toEqual({
+        requested: 'NV',
+        actual: 'NV',
+        status: 'exact',
+      });
+      expect(mockCrawler.fetch.mock.calls[0][0]).toBe(
+        'https://www.wine-searcher.com/find/opus+one+cabernet+sauvignon+napa+valley',
+      );
+    });
+
+    it('should look up multi-vintage ranges', async () => {
+      mockParser.parse.mockResolvedValue({
+        ...wineDataFor(null),
+        wine: new Wine(
+          WineName.create('Opus One'),
+          'Napa Valley',
+          'Opus One',
+          'Cabernet Sauvignon',
+          Vintage.range(1990, 2010),
+        ),
+      });
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/search')
+        .send({ ...body, vintage: '1990 - 2010' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.vintage).toEqual({
+        requested: '1990-2010',
+        actual: '1990-2010',
+        status: 'exact',
+      });
+    });
+
+    it('should return 400 for a reversed vintage range', async () => {
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/search')
+        .send({ ...body, vintage: '2010-1990' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 for a non-boolean allowNearestVintage', async () => {
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/search')
+        .send({ ...body, vintage: 2018, allowNearestVintage: 'yes' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /wines/candidates', () => {
+    it('should return ranked candidates with their available vintages', async () => {
+      mockCrawler.fetch.mockResolvedValue('<html>results</html>');
+      mockParser.parseSearchResults.mockResolvedValue([
+        {
+          name: 'Opus One Overture',
+          url: 'https://www.wine-searcher.com/find/opus+one+overture',
+          vintage: null,
+          vintages: [],
+          producer: 'Opus One Winery',
+          region: 'Napa Valley',
+        },
+        {
+          name: 'Opus One',
+          url: 'https://www.wine-searcher.com/find/opus+one/2019',
+          vintage: 2019,
+          vintages: [2019],
+          producer: 'Opus One Winery',
+          region: 'Napa Valley',
+        },
+        {
+          name: 'Opus One',
+          url: 'https://www.wine-searcher.com/find/opus+one/2018',
+          vintage: 2018,
+          vintages: [2018],
+          producer: 'Opus One Winery',
+          region: 'Napa Valley',
+        },
+      ]);
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/candidates')
+        .send({ winery: 'Opus One', region: 'Napa Valley' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.candidates).toEqual([
+        {
+          name: 'Opus One',
+          producer: 'Opus One Winery',
+          region: 'Napa Valley',
+          vintages: [2019, 2018],
+          url: 'https://www.wine-searcher.com/find/opus+one/2019',
+          score: expect.any(Number),
+        },
+        expect.objectContaining({ name: 'Opus One Overture', vintages: [] }),
+      ]);
+      expect(response.body.source).toMatchObject({
+        site: 'Wine-Searcher',
+        url: 'https://www.wine-searcher.com/find/opus+one+napa+valley',
+      });
+      expect(mockParser.parse).not.toHaveBeenCalled();
+    });
+
+    it('should return the wine itself when the search lands on a wine page', async () => {
+      mockCrawler.fetch.mockResolvedValue('<html>mock html</html>');
+      mockParser.parse.mockResolvedValue(mockWineData);
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/candidates')
+        .send({ winery: 'Opus One', vintage: 2018 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.candidates).toEqual([
+        expect.objectContaining({
+          name: mockWineData.wine.name.value,
+          producer: mockWineData.wine.winery,
+          vintages: [2018],
+          url: mockWineData.sourceUrl,
+        }),
+      ]);
+    });
+
+    it('should return an empty list when nothing matches', async () => {
+      mockCrawler.fetch.mockResolvedValue('<html>no results</html>');
+      mockParser.parseSearchResults.mockResolvedValue([]);
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/candidates')
+        .send({ winery: 'Nobody' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.candidates).toEqual([]);
+    });
+
+    it('should limit the number of candidates', async () => {
+      mockCrawler.fetch.mockResolvedValue('<html>results</html>');
+      mockParser.parseSearchResults.mockResolvedValue(
+        ['A', 'B', 'C'].map((suffix) => ({
+          name: `Ridge ${suffix}`,
+          url: `https://www.wine-searcher.com/find/ridge+${suffix}`,
+          vintage: null,
+          vintages: [],
+          producer: null,
+          region: null,
+        })),
+      );
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/candidates')
+        .send({ winery: 'Ridge', limit: 2 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.candidates).toHaveLength(2);
+    });
+
+    it('should return 400 without a winery', async () => {
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/candidates')
+        .send({ variety: 'Zinfandel' });
+
+      expect(response.status).toBe(400);
+      expect(mockCrawler.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /wines/vintages', () => {
+    const wineUrl = 'https://www.wine-searcher.com/find/opus+one';
+    const chartEntry = (
+      vintage: number,
+      average: number | null,
+      score: number | null,
+      offers: number,
+    ) => ({
+      wine: new Wine(
+        WineName.create('Opus One'),
+        'Napa Valley',
+        'Opus One Winery',
+        'Cabernet Sauvignon',
+        Vintage.create(vintage),
+      ),
+      price:
+        average !== null
+          ? new Price(average, 'USD', null, new Date('2025-11-09T12:00:00Z'))
+          : null,
+      rating:
+        score !== null
+          ? new Rating('Wine-Searcher', Score.create(score), null, 0)
+          : null,
+      offers,
+      url: `${wineUrl}/${vintage}`,
+    });
+
+    it('should return price, critic score and availability per vintage', async () => {
+      mockCrawler.fetch.mockResolvedValue('<html>vintage chart</html>');
+      mockParser.parseVintageChart.mockResolvedValue([
+        chartEntry(2019, 1050, 98, 389),
+        chartEntry(2018, 325, 97, 412),
+        chartEntry(1979, null, null, 0),
+      ]);
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/vintages')
+        .send({ winery: 'Opus One' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.wine).toEqual({
+        name: 'Opus One',
+        region: 'Napa Valley',
+        winery: 'Opus One Winery',
+        variety: 'Cabernet Sauvignon',
+      });
+      expect(response.body.vintages).toEqual([
+        {
+          vintage: 2019,
+          price: {
+            average: 1050,
+            currency: 'USD',
+            priceRange: null,
+            updatedAt: '2025-11-09T12:00:00.000Z',
+          },
+          rating: {
+            source: 'Wine-Searcher',
+            score: 98,
+            critic: null,
+            reviewCount: 0,
+          },
+          available: true,
+          offers: 389,
+          url: `${wineUrl}/2019`,
+        },
+        expect.objectContaining({ vintage: 2018, available: true }),
+        expect.objectContaining({
+          vintage: 1979,
+          price: null,
+          rating: null,
+          available: false,
+        }),
+      ]);
+      expect(response.body.source).toMatchObject({
+        site: 'Wine-Searcher',
+        url: wineUrl,
+      });
+
+      // The search leaves out the vintage so the chart covers all of them
+      expect(mockCrawler.fetch.mock.calls[0][0]).toBe(wineUrl);
+    });
+
+    it('should follow the best matching search result to its chart', async () => {
+      mockCrawler.fetch.mockResolvedValue('<html>mock html</html>');
+      mockParser.parseSearchResults.mockResolvedValue([
+        {
+          name: 'Opus One',
+          url: `${wineUrl}+napa+valley`,
+          vintage: null,
+          vintages: [2019, 2018],
+          producer: 'Opus One Winery',
+          region: 'Napa Valley',
+        },
+      ]);
+      mockParser.parseVintageChart.mockResolvedValue([
+        chartEntry(2018, 325, 97, 412),
+      ]);
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/vintages')
+        .send({ winery: 'Opus One', region: 'Napa Valley' });
+
+      expect(response.status).toBe(200);
+      expect(mockCrawler.fetch).toHaveBeenCalledTimes(2);
+      expect(mockParser.parseVintageChart).toHaveBeenCalledWith(
+        '<html>mock html</html>',
+        `${wineUrl}+napa+valley`,
+      );
+      expect(response.body.source.url).toBe(`${wineUrl}+napa+valley`);
+    });
+
+    it('should return 404 when the page has no vintage chart', async () => {
+      mockCrawler.fetch.mockResolvedValue('<html>mock html</html>');
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/vintages')
+        .send({ winery: 'Opus One' });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 400 for a vintage in the request', async () => {
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/vintages')
+        .send({ winery: 'Opus One', vintage: 2018 });
+
+      expect(response.status).toBe(400);
+      expect(mockCrawler.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /wines/search/batch', () => {
+    const search = (winery: string) => ({
+      winery,
+      variety: 'Cabernet Sauvignon',
+      vintage: 2018,
+      region: 'Napa Valley',
+    });
+
+    it('should return per-item results and errors without failing the batch', async () => {
+      mockCrawler.fetch.mockImplementation(async (url) => {
+        if (url.includes('nobody')) {
+          throw new NotFoundError('Page not found', url);
+        }
+        return '<html>mock html</html>';
+      });
+      mockParser.parse.mockResolvedValue(mockWineData);
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/search/batch')
+        .send({ searches: [search('Opus One'), search('Nobody')] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.summary).toEqual({
+        total: 2,
+        succeeded: 1,
+        failed: 1,
+      });
+      expect(response.body.results[0]).toMatchObject({
+        index: 0,
+        status: 'fulfilled',
+        result: { wine: { name: 'Opus One 2018' } },
+        error: null,
+      });
+      expect(response.body.results[1]).toEqual({
+        index: 1,
+        status: 'rejected',
+        result: null,
+        error: {
+          statusCode: 404,
+          message: 'Page not found',
+          error: 'Not Found',
+        },
+      });
+    });
+
+    it('should report item errors with the same details as single searches', async () => {
+      mockCrawler.fetch.mockResolvedValue('<html>results</html>');
+      mockParser.parseSearchResults.mockResolvedValue(
+        ['East Bench', 'Pagani Ranch'].map((vineyard) => ({
+          name: `Ridge ${vineyard} Zinfandel 2019`,
+          url: `https://www.wine-searcher.com/find/ridge+${vineyard.replace(' ', '+').toLowerCase()}`,
+          vintage: 2019,
+          vintages: [2019],
+          producer: null,
+          region: 'California',
+        })),
+      );
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/search/batch')
+        .send({
+          searches: [
+            {
+              winery: 'Ridge',
+              variety: 'Zinfandel',
+              vintage: 2019,
+              region: 'California',
+            },
+          ],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.results[0].error).toMatchObject({
+        statusCode: 300,
+        error: 'Multiple Choices',
+        candidates: [
+          expect.objectContaining({ vintage: 2019 }),
+          expect.objectContaining({ vintage: 2019 }),
+        ],
+      });
+    });
+
+    it('should process items with bounded concurrency', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockCrawler.fetch.mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        inFlight--;
+        return '<html>mock html</html>';
+      });
+      mockParser.parse.mockResolvedValue(mockWineData);
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/search/batch')
+        .send({
+          searches: ['A', 'B', 'C', 'D', 'E', 'F'].map((suffix) =>
+            search(`Opus One ${suffix}`),
+          ),
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.summary.succeeded).toBe(6);
+      expect(mockCrawler.fetch).toHaveBeenCalledTimes(6);
+      expect(maxInFlight).toBeGreaterThan(1);
+      expect(maxInFlight).toBeLessThanOrEqual(4);
+    });
+
+    it('should return 400 for an empty batch', async () => {
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/search/batch')
+        .send({ searches: [] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 when an item is invalid', async () => {
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/search/batch')
+        .send({ searches: [search('Opus One'), { winery: 'Ridge' }] });
+
+      expect(response.status).toBe(400);
+      expect(mockCrawler.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /wines/search/stream', () => {
+    const query = {
+      winery: 'Opus One',
+      variety: 'Cabernet Sauvignon',
+      vintage: '2018',
+      region: 'Napa Valley',
+    };
+
+    // Collects the text/event-stream body into { event, data } pairs
+    const streamSearch = async (params: Record<string, string>) => {
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .get('/wines/search/stream')
+        .query(params)
+        .buffer(true)
+        .parse((res, callback) => {
+          let body = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk: string) => (body += chunk));
+          res.on('end', () => callback(null, body));
+        });
+
+      const events = String(response.body)
+        .split('\n\n')
+        .filter((block) => block.trim())
+        .map((block) => {
+          const fields = new Map(
+            block.split('\n').map((line) => {
+              const separator = line.indexOf(':');
+              return [
+                line.slice(0, separator),
+                line.slice(separator + 1).trim(),
+              ] as const;
+            }),
+          );
+          return {
+            event: fields.get('event'),
+            data: JSON.parse(fields.get('data') ?? 'null'),
+          };
+        });
+
+      return { response, events };
+    };
+
+    it('should stream each search stage and finish with the result', async () => {
+      mockCrawler.fetch.mockResolvedValue('<html>mock html</html>');
+      mockParser.parse.mockResolvedValue(mockWineData);
+
+      const { response, events } = await streamSearch(query);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/event-stream');
+      expect(events.map(({ event }) => event)).toEqual([
+        'url-constructed',
+        'fetch-started',
+        'fetched',
+        'parsed',
+        'matched',
+        'completed',
+      ]);
+
+      const [constructed, , fetched, parsed, , completed] = events;
+      expect(constructed.data.url).toContain('opus+one');
+      expect(fetched.data).toMatchObject({
+        bytes: '<html>mock html</html>'.length,
+        attempts: 1,
+      });
+      expect(parsed.data.wine.name).toBe('Opus One 2018');
+      expect(completed.data.result.wine.name).toBe('Opus One 2018');
+      expect(completed.data.result.vintage.requested).toBe(2018);
+    });
+
+    it('should finish with a failed event carrying the error body', async () => {
+      mockCrawler.fetch.mockRejectedValue(
+        new NotFoundError('Page not found', 'https://www.wine-searcher.com'),
+      );
+
+      const { response, events } = await streamSearch(query);
+
+      expect(response.status).toBe(200);
+      expect(events.map(({ event }) => event)).toEqual([
+        'url-constructed',
+        'fetch-started',
+        'failed',
+      ]);
+      expect(events[2].data.error).toMatchObject({
+        statusCode: 404,
+        error: 'Not Found',
+        message: 'Page not found',
+      });
+    });
+
+    it('should accept allowNearestVintage as a query string flag', async () => {
+      mockCrawler.fetch.mockResolvedValue('<html>mock html</html>');
+      mockParser.parse.mockResolvedValue(mockWineData);
+
+      const { events } = await streamSearch({
+        ...query,
+        allowNearestVintage: 'true',
+      });
+
+      expect(events.at(-1)!.event).toBe('completed');
+    });
+
+    it('should reject invalid query parameters before streaming', async () => {
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .get('/wines/search/stream')
+        .query({ winery: 'Opus One' });
+
+      expect(response.status).toBe(400);
+      expect(mockCrawler.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /wines/:id/prices', () => {
+    // Crawls Opus One 2018 with the given price so the catalog records it
+    const crawlPrice = async (average: number, updatedAt: string) => {
+      mockCrawler.fetch.mockResolvedValue('<html>mock html</html>');
+      mockParser.parse.mockResolvedValue({
+        ...mockWineData,
+        price: new Price(average, 'USD', null, new Date(updatedAt)),
+      });
+
+      const server = app.getHttpServer() as never;
+      await request(server)
+        .post('/wines/search')
+        .set('Cache-Control', 'no-cache')
+        .send({
+          winery: 'Opus One',
+          variety: 'Cabernet Sauvignon',
+          vintage: 2018,
+          region: 'Napa Valley',
+        })
+        .expect(200);
+    };
+
+    it('should return price series of crawled snapshots', async () => {
+      await crawlPrice(300, '2025-01-06T09:00:00Z');
+      await crawlPrice(310, '2025-01-20T09:00:00Z');
+      await crawlPrice(341, '2025-02-03T09:00:00Z');
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .get('/wines/opus-one-2018/prices')
+        .query({ interval: 'month' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        wine: {
+          id: 'opus-one-2018',
+          name: 'Opus One 2018',
+          region: 'Napa Valley',
+          winery: 'Opus One',
+          variety: 'Cabernet Sauvignon',
+          vintage: 2018,
+        },
+        interval: 'month',
+        from: null,
+        to: null,
+        series: [
+          {
+            currency: 'USD',
+            points: [
+              {
+                period: '2025-01-01T00:00:00.000Z',
+                average: 305,
+                min: 300,
+                max: 310,
+                samples: 2,
+              },
+              {
+                period: '2025-02-01T00:00:00.000Z',
+                average: 341,
+                min: 341,
+                max: 341,
+                samples: 1,
+              },
+            ],
+            min: 300,
+            max: 341,
+            changePercent: 11.8,
+          },
+        ],
+      });
+    });
+
+    it('should limit the series to the requested period', async () => {
+      await crawlPrice(300, '2025-01-06T09:00:00Z');
+      await crawlPrice(310, '2025-01-20T09:00:00Z');
+      await crawlPrice(341, '2025-02-03T09:00:00Z');
+
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .get('/wines/opus-one-2018/prices')
+        .query({ from: '2025-01-10', to: '2025-01-20' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        interval: 'day',
+        from: '2025-01-10T00:00:00.000Z',
+        to: '2025-01-20T23:59:59.999Z',
+      });
+      expect(response.body.series[0].points).toEqual([
+        {
+          period: '2025-01-20T00:00:00.000Z',
+          average: 310,
+          min: 310,
+          max: 310,
+          samples: 1,
+        },
+      ]);
+      expect(response.body.series[0].changePercent).toBeNull();
+    });
+
+    it('should include prices crawled for the vintage chart', async () => {
+      await crawlPrice(300, '2025-01-06T09:00:00Z');
+      mockParser.parseVintageChart.mockResolvedValue(
+        [2019, 2018].map((vintage) => ({
+          wine: new Wine(
+            WineName.create('Opus One'),
+            'Napa Valley',
+            'Opus One',
+            'Cabernet Sauvignon',
+            Vintage.create(vintage),
+          ),
+          price: new Price(
+            vintage === 2018 ? 341 : 420,
+            'USD',
+            null,
+            new Date('2025-02-03T09:00:00Z'),
+          ),
+          rating: null,
+          offers: 12,
+          url: `https://www.wine-searcher.com/find/opus+one/${vintage}`,
+        })),
+      );
+
+      const server = app.getHttpServer() as never;
+      await request(server)
+        .post('/wines/vintages')
+        .send({ winery: 'Opus One' })
+        .expect(200);
+      const response = await request(server)
+        .get('/wines/opus-one-2018/prices')
+        .query({ interval: 'month' });
+
+      expect(response.status).toBe(200);
+      // Chart prices join the record of the search crawl without replacing it
+      expect(response.body.wine.name).toBe('Opus One 2018');
+      expect(response.body.series[0].points).toEqual([
+        expect.objectContaining({ average: 300, samples: 1 }),
+        expect.objectContaining({ average: 341, samples: 1 }),
+      ]);
+      await request(server).get('/wines/opus-one-2019/prices').expect(200);
+    });
+
+    it('should return 404 for a wine that was never crawled', async () => {
+      const server = app.getHttpServer() as never;
+      const response = await request(server).get('/wines/opus-one-2018/prices');
+
+      expect(response.status).toBe(404);
+    });
+
+    it.each([
+      ['an invalid id', '/wines/Opus%20One/prices', {}],
+      [
+        'an unknown interval',
+        '/wines/opus-one-2018/prices',
+        { interval: 'hour' },
+      ],
+      [
+        'a malformed date',
+        '/wines/opus-one-2018/prices',
+        { from: 'yesterday' },
+      ],
+      [
+        'a reversed period',
+        '/wines/opus-one-2018/prices',
+        { from: '2025-02-01', to: '2025-01-01' },
+      ],
+    ])('should return 400 for %s', async (_, path, query) => {
+      const server = app.getHttpServer() as never;
+      const response = await request(server).get(path).query(query);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('/wines/search/jobs', () => {
+    const searchRequest = {
+      winery: 'Opus One',
+      variety: 'Cabernet Sauvignon',
+      vintage: 2018,
+      region: 'Napa Valley',
+    };
+
+    // Polls the job until it leaves the pending/running states
+    const waitForJob = async (id: string) => {
+      const server = app.getHttpServer() as never;
+      for (let attempt = 0; attempt < 50; attempt++) {
+        const response = await request(server).get(`/wines/search/jobs/${id}`);
+        if (!['pending', 'running'].includes(response.body.status)) {
+          return response;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      throw new Error(`Job ${id} did not finish`);
+    };
+
+    it('should accept a search and report its result when done', async () => {
+      mockCrawler.fetch.mockResolvedValue('<html>mock html</html>');
+      mockParser.parse.mockResolvedValue(mockWineData);
+
+      const server = app.getHttpServer() as never;
+      const created = await request(server)
+        .post('/wines/search/jobs')
+        .send(searchRequest);
+
+      expect(created.status).toBe(202);
+      expect(created.body).toMatchObject({
+        id: expect.any(String),
+        status: 'pending',
+        result: null,
+        error: null,
+        startedAt: null,
+      });
+
+      const finished = await waitForJob(created.body.id);
+
+      expect(finished.status).toBe(200);
+      expect(finished.body).toMatchObject({
+        id: created.body.id,
+        status: 'succeeded',
+        result: {
+          wine: { name: 'Opus One 2018' },
+          source: { site: 'Wine-Searcher' },
+        },
+        error: null,
+        finishedAt: expect.any(String),
+      });
+    });
+
+    it('should report a failed search with its error', async () => {
+      mockCrawler.fetch.mockRejectedValue(
+        new NotFoundError('Page not found', 'https://www.wine-searcher.com'),
+      );
+
+      const server = app.getHttpServer() as never;
+      const created = await request(server)
+        .post('/wines/search/jobs')
+        .send(searchRequest);
+      const finished = await waitForJob(created.body.id);
+
+      expect(finished.body).toMatchObject({
+        status: 'failed',
+        result: null,
+        error: {
+          statusCode: 404,
+          error: 'Not Found',
+          message: 'Page not found',
+        },
+      });
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      const server = app.getHttpServer() as never;
+      const response = await request(server).get('/wines/search/jobs/missing');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 400 for an invalid search without creating a job', async () => {
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/search/jobs')
+        .send({ winery: 'Opus One' });
+
+      expect(response.status).toBe(400);
+      expect(mockCrawler.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a callback URL while webhooks are disabled', async () => {
+      const server = app.getHttpServer() as never;
+      const response = await request(server)
+        .post('/wines/search/jobs')
+        .send({ ...searchRequest, callbackUrl: 'https://hooks.example.com' });
+
+      expect(response.status).toBe(400);
+      expect(mockCrawler.fetch).not.toHaveBeenCalled();
+    });
+
+    describe('webhook targets', () => {
+      beforeAll(() => {
+        process.env.WEBHOOK_SECRET = 'e2e-secret';
+      });
+
+      afterAll(() => {
+        delete process.env.WEBHOOK_SECRET;
+      });
+
+      it.each([
+        'http://127.0.0.1:8080/hook',
+        'http://[::1]:8080/hook',
+        'http://169.254.169.254/latest/meta-data',
+        'http://10.0.0.1/hook',
+      ])('should return 400 for the internal callback URL %s', async (url) => {
+        const server = app.getHttpServer() as never;
+        const response = await request(server)
+          .post('/wines/search/jobs')
+          .send({ ...searchRequest, callbackUrl: url });
+
+        expect(response.status).toBe(400);
+        expect(response.body.message).toContain('public addresses');
+        expect(mockCrawler.fetch).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('webhooks', () => {
+      const secret = 'e2e-secret';
+      let receiver: http.Server;
+      let callbackUrl: string;
+      let received: Array<{
+        headers: http.IncomingHttpHeaders;
+        body: string;
+      }>;
+      let respondWith: number[];
+
+      beforeAll(async () => {
+        process.env.WEBHOOK_SECRET = secret;
+        process.env.WEBHOOK_RETRY_DELAY_MS = '1';
+        // The local receiver is only reachable once explicitly allowed
+        process.env.WEBHOOK_ALLOWED_HOSTS = '127.0.0.1';
+
+        receiver = http.createServer((req, res) => {
+          let body = '';
+          req.on('data', (chunk) => (body += chunk));
+          req.on('end', () => {
+            received.push({ headers: req.headers, body });
+            res.statusCode = respondWith.shift() ?? 200;
+            res.end();
+          });
+        });
+        await new Promise<void>((resolve) =>
+          receiver.listen(0, '127.0.0.1', resolve),
+        );
+        const { port } = receiver.address() as AddressInfo;
+        callbackUrl = `http://127.0.0.1:${port}/wine-callback`;
+      });
+
+      afterAll(async () => {
+        delete process.env.WEBHOOK_SECRET;
+        delete process.env.WEBHOOK_RETRY_DELAY_MS;
+        delete process.env.WEBHOOK_ALLOWED_HOSTS;
+        await new Promise((resolve) => receiver.close(resolve));
+      });
+
+      beforeEach(() => {
+        received = [];
+        respondWith = [];
+      });
+
+      // Polls the delivery log until the given number of attempts is recorded
+      const waitForDeliveries = async (id: string, count: number) => {
+        const server = app.getHttpServer() as never;
+        for (let attempt = 0; attempt < 50; attempt++) {
+          const response = await request(server).get(
+            `/wines/search/jobs/${id}/deliveries`,
+          );
+          if (response.body.deliveries.length >= count) {
+            return response;
+          }
+          await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+        throw new Error(`Job ${id} was not delivered ${count} time(s)`);
+      };
+
+      it('should post the signed result to the callback URL', async () => {
+        mockCrawler.fetch.mockResolvedValue('<html>mock html</html>');
+        mockParser.parse.mockResolvedValue(mockWineData);
+
+        const server = app.getHttpServer() as never;
+        const created = await request(server)
+          .post('/wines/search/jobs')
+          .send({ ...searchRequest, callbackUrl });
+        expect(created.body.callbackUrl).toBe(callbackUrl);
+
+        const log = await waitForDeliveries(created.body.id, 1);
+
+        expect(log.body).toEqual({
+          jobId: created.body.id,
+          callbackUrl,
+          deliveries: [
+            {
+              attempt: 1,
+              event: 'search.succeeded',
+              attemptedAt: expect.any(String),
+              statusCode: 200,
+              error: null,
+              succeeded: true,
+            },
+          ],
+        });
+
+        const [{ headers, body }] = received;
+        expect(JSON.parse(body).wine.name).toBe('Opus One 2018');
+        expect(headers['x-webhook-id']).toBe(created.body.id);
+        expect(headers['x-webhook-signature']).toBe(
+          `sha256=${createHmac('sha256', secret)
+            .update(`${headers['x-webhook-timestamp']}.${body}`)
+            .digest('hex')}`,
+        );
+      });
+
+      it('should retry a failing callback and post failures as error bodies', async () => {
+        mockCrawler.fetch.mockRejectedValue(
+          new NotFoundError('Page not found', 'https://www.wine-searcher.com'),
+        );
+        respondWith = [500];
+
+        const server = app.getHttpServer() as never;
+        const created = await request(server)
+          .post('/wines/search/jobs')
+          .send({ ...searchRequest, callbackUrl });
+
+        const log = await waitForDeliveries(created.body.id, 2);
+
+        expect(
+          log.body.deliveries.map(
+            (delivery: { statusCode: number }) => delivery.statusCode,
+          ),
+        ).toEqual([500, 200]);
+        expect(JSON.parse(received[1].body)).toMatchObject({
+          statusCode: 404,
+          error: 'Not Found',
+          message: 'Page not found',
+          path: `/wines/search/jobs/${created.body.id}`,
+        });
+        expect(received[1].headers['x-webhook-event']).toBe('search.failed');
+      });
+    });
+  });
+});
+
+describe('Wine Search E2E Tests (minimum match confidence)', () => {
+  let app: INestApplication;
+  const originalEnv = { ...process.env };
+
+  const mockWineData: WineData = {
+    wine: new Wine(
+      WineName.create('Opus One Overture'),
+      'Napa Valley',
+      'Opus One',
+      'Bordeaux Blend',
+      Vintage.create(2018),
+    ),
+    ratings: [],
+    price: null,
+    availableVintages: [],
+    sourceUrl: 'https://www.wine-searcher.com/find/opus+one+overture',
+    crawledAt: new Date('2025-11-09T12:00:00Z'),
+  };
+
+  beforeAll(() => {
+    process.env.WINE_MATCH_MIN_CONFIDENCE = '0.9';
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [CrawlerModule],
+    })
+      .overrideProvider('CrawlerPort')
+      .useValue({
+        fetch: jest.fn().mockResolvedValue('<html>mock html</html>'),
+        fetchPage: jest.fn(),
+      })
+      .overrideProvider('ParserPort')
+      .useValue({
+        parse: jest.fn().mockResolvedValue(mockWineData),
+        parseSearchResults: jest.fn().mockResolvedValue(null),
+        parseVintageChart: jest.fn().mockResolvedValue(null),
+      })
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    app.useGlobalFilters(new CrawlerExceptionFilter());
+
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should return 404 with mismatch reasons below the threshold', async () => {
+    const server = app.getHttpServer() as never;
+    const response = await request(server).post('/wines/search').send({
+      winery: 'Opus One',
+      variety: 'Cabernet Sauvignon',
+      vintage: 2018,
+      region: 'Napa Valley',
+    });
+
+    expect(response.status).toBe(404);
+    expect(response.body.error).toBe('Not Found');
+    expect(response.body.match.confidence).toBeLessThan(0.9);
+    expect(response.body.match.reasons).toEqual([
+      'variety: requested "Cabernet Sauvignon", found "Bordeaux Blend"',
+      'name: "Opus One Overture" includes words not in the request (overture)',
+    ]);
+  });
+});
+
+/**
+ * 기록된 HTTP 픽스처(test/fixtures/http)를 재생하여
+ * 실제 WineSearcherParser까지 네트워크 없이 검증합니다.
+ */
+describe('Wine Search E2E Tests (replayed fixtures)', () => {
+  let app: INestApplication;
+  const originalEnv = { ...process.env };
+
+  beforeAll(() => {
+    process.env.CRAWLER_FIXTURE_MODE = 'replay';
+    process.env.CRAWLER_FIXTURE_DIR = 'test/fixtures/http';
+    process.env.CRAWLER_MAX_RETRIES = '0';
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [CrawlerModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    app.useGlobalFilters(new CrawlerExceptionFilter());
+
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should parse a captured Wine-Searcher page', async () => {
+    const server = app.getHttpServer() as never;
+    const response = await request(server).post('/wines/search').send({
+      winery: 'Opus One',
+      variety: 'Cabernet Sauvignon',
+      vintage: 2018,
+      region: 'Napa Valley',
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      wine: {
+        name: 'Opus One 2018',
+        region: 'Napa Valley',
+        winery: 'Opus One Winery',
+        variety: 'Cabernet Sauvignon',
+        vintage: 2018,
+      },
+      price: {
+        average: 325,
+        currency: 'USD',
+        priceRange: '$300-$400',
+      },
+      vintage: { requested: 2018, actual: 2018, status: 'exact' },
+      match: { confidence: 1, reasons: [] },
+      source: {
+        url: 'https://www.wine-searcher.com/find/opus+one+cabernet+sauvignon+2018+napa+valley',
+        cached: false,
+      },
+    });
+    expect(response.body.ratings).toHaveLength(3);
+  });
+
+  it('should replay a captured 404 page as Not Found', async () => {
+    const server = app.getHttpServer() as never;
+    const response = await request(server).post('/wines/search').send({
+      winery: 'Unknown',
+      variety: 'Merlot',
+      vintage: 2020,
+      region: 'Napa Valley',
+    });
+
+    expect(response.status).toBe(404);
+    expect(response.body.error).toBe('Not Found');
+  });
+
+  it('should classify a captured Cloudflare challenge as blocked', async () => {
+    const server = app.getHttpServer() as never;
+    const response = await request(server).post('/wines/search').send({
+      winery: 'Grange',
+      variety: 'Shiraz',
+      vintage: 2016,
+      region: 'South Australia',
+    });
+
+    expect(response.status).toBe(424);
+    expect(response.body.error).toBe('Failed Dependency');
+    expect(response.body.message).toContain('cloudflare');
+  });
+
+  it('should list candidates from a captured ambiguous search results page', async () => {
+    const server = app.getHttpServer() as never;
+    const response = await request(server).post('/wines/search').send({
+      winery: 'Ridge',
+      variety: 'Zinfandel',
+      vintage: 2019,
+      region: 'California',
+    });
+
+    expect(response.status).toBe(300);
+    expect(
+      response.body.candidates.map((c: { name: string }) => c.name),
+    ).toEqual([
+      'Ridge Vineyards East Bench Zinfandel',
+      'Ridge Vineyards Pagani Ranch Zinfandel',
+      'Ridge Vineyards Lytton Springs',
+    ]);
+  });
+
+  it('should list ranked candidates from a captured search results page', async () => {
+    const server = app.getHttpServer() as never;
+    const response = await request(server).post('/wines/candidates').send({
+      winery: 'Ridge',
+      variety: 'Zinfandel',
+      vintage: 2019,
+      region: 'California',
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.candidates).toEqual([
+      expect.objectContaining({
+        name: 'Ridge Vineyards East Bench Zinfandel',
+        producer: 'Ridge Vineyards',
+        vintages: [2021, 2019, 2018],
+      }),
+      expect.objectContaining({
+        name: 'Ridge Vineyards Pagani Ranch Zinfandel',
+      }),
+      expect.objectContaining({
+        name: 'Ridge Vineyards Lytton Springs',
+        vintages: [2020, 2019],
+      }),
+    ]);
+  });
+
+  it('should fail loudly when no fixture was recorded', async () => {
+    const server = app.getHttpServer() as never;
+    const response = await request(server).post('/wines/search').send({
+      winery: 'Screaming Eagle',
+      variety: 'Cabernet Sauvignon',
+      vintage: 2019,
+      region: 'Napa Valley',
+    });
+
+    expect(response.status).toBe(500);
+  });
+
+  it('should refuse URLs disallowed by the captured robots.txt', async () => {
+    const server = app.getHttpServer() as never;
+    const response = await request(server)
+      .post('/crawl')
+      .send({ url: 'https://www.wine-searcher.com/ajax/prices?wine=opus+one' });
+
+    expect(response.status).toBe(403);
+    expect(response.body.error).toBe('Forbidden');
+    expect(response.body.message).toContain('Disallow: /ajax/');
+  });
 });
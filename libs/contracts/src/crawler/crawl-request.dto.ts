@@ -10,10 +10,17 @@ export class CrawlRequest {
   url!: string;
 
   /**
-   * Browser fingerprint to use
-   * @default "chrome116"
+   * Browser fingerprint to use (rotated by the crawler if omitted)
    */
-  browser?: 'chrome116' | 'chrome110' | 'firefox109';
+  browser?:
+    | 'chrome116'
+    | 'chrome110'
+    | 'chrome107'
+    | 'chrome104'
+    | 'chrome101'
+    | 'chrome100'
+    | 'chrome99'
+    | 'firefox109';
 
   /**
    * Request timeout in milliseconds
@@ -30,4 +37,9 @@ export class CrawlRequest {
    * User agent override (optional, browser preset will be used if not provided)
    */
   userAgent?: string;
+
+  /**
+   * Crawl session identifier; requests sharing it keep the same outbound proxy
+   */
+  sessionId?: string;
 }
@@ -1,3 +1,19 @@
+/**
+ * A single redirect hop followed before reaching the final URL
+ */
+export interface CrawlRedirect {
+  /**
+   * Redirect status code
+   * @example 301, 302
+   */
+  statusCode: number;
+
+  /**
+   * Absolute URL the redirect pointed to
+   */
+  location: string;
+}
+
 /**
  * Crawl response DTO
  * Returned by Crawler service
@@ -9,16 +25,31 @@ export class CrawlResponse {
   html!: string;
 
   /**
-   * HTTP status code
+   * Upstream HTTP status code of the final response
    * @example 200, 403, 404
    */
   statusCode!: number;
 
   /**
-   * Response headers
+   * Response headers of the final response (lowercase keys)
    */
   headers!: Record<string, string>;
 
+  /**
+   * URL of the final response after following redirects
+   */
+  finalUrl!: string;
+
+  /**
+   * Redirect chain in the order it was followed (empty if none)
+   */
+  redirects!: CrawlRedirect[];
+
+  /**
+   * Bytes transferred for the response body
+   */
+  bytes!: number;
+
   /**
    * Timestamp when the crawl was performed
    */
@@ -28,9 +59,4 @@ export class CrawlResponse {
    * Time taken to complete the request in milliseconds
    */
   duration!: number;
-
-  /**
-   * Error message if crawl failed
-   */
-  error?: string;
 }